@@ -1,5 +1,5 @@
-import { Controller, Get, Query } from '@nestjs/common';
-import { AggregationService, TimeInterval } from './aggregation.service';
+import { BadRequestException, Controller, Get, Query } from '@nestjs/common';
+import { AggregationService, CANDLE_RESOLUTIONS, PriceQuote } from './aggregation.service';
 import { TokenMinute } from './schemas/token-minute.schema';
 import { TokenHour } from './schemas/token-hour.schema';
 import { TokenDay } from './schemas/token-day.schema';
@@ -11,14 +11,24 @@ export class AggregationController {
   @Get()
   async getTokenData(
     @Query('tokenAddress') tokenAddress: string,
-    @Query('interval') interval: TimeInterval,
+    @Query('interval') interval: string,
     @Query('startTime') startTime?: string,
     @Query('endTime') endTime?: string,
     @Query('limit') limit?: string,
+    @Query('chainId') chainId?: string,
+    @Query('quote') quote?: PriceQuote,
+    @Query('fill') fill?: string,
   ): Promise<(TokenMinute | TokenHour | TokenDay)[]> {
+    if (!Object.keys(CANDLE_RESOLUTIONS).includes(interval)) {
+      throw new BadRequestException(
+        `Unsupported interval ${interval}, expected one of ${Object.keys(CANDLE_RESOLUTIONS).join(', ')}`,
+      );
+    }
+
     const startDate = startTime ? new Date(startTime) : undefined;
     const endDate = endTime ? new Date(endTime) : undefined;
     const limitNum = limit ? parseInt(limit, 10) : 100;
+    const chainIdNum = chainId ? parseInt(chainId, 10) : undefined;
 
     return this.aggregationService.getTokenData(
       tokenAddress,
@@ -26,6 +36,9 @@ export class AggregationController {
       startDate,
       endDate,
       limitNum,
+      chainIdNum,
+      quote,
+      fill === 'true',
     );
   }
 }
@@ -2,13 +2,19 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { AggregationService } from './aggregation.service';
 import { AggregationController } from './aggregation.controller';
+import { PoolDataController } from './pool-data.controller';
 import { TokenMinute, TokenMinuteSchema } from './schemas/token-minute.schema';
 import { TokenHour, TokenHourSchema } from './schemas/token-hour.schema';
 import { TokenDay, TokenDaySchema } from './schemas/token-day.schema';
 import { Token, TokenSchema } from './schemas/token.schema';
+import { PoolMinute, PoolMinuteSchema } from './schemas/pool-minute.schema';
+import { PoolHour, PoolHourSchema } from './schemas/pool-hour.schema';
+import { PoolDay, PoolDaySchema } from './schemas/pool-day.schema';
 import { SwapEvent, SwapEventSchema } from '../swap-events/schemas/swap-event.schema';
 import { Pool, PoolSchema } from '../swap-events/schemas/pool.schema';
 import { ConfigModule } from '../config/config.module';
+import { EventSourceModule } from '../event-source/event-source.module';
+import { HooksModule } from '../hooks/hooks.module';
 
 @Module({
   imports: [
@@ -17,12 +23,17 @@ import { ConfigModule } from '../config/config.module';
       { name: TokenHour.name, schema: TokenHourSchema },
       { name: TokenDay.name, schema: TokenDaySchema },
       { name: Token.name, schema: TokenSchema },
+      { name: PoolMinute.name, schema: PoolMinuteSchema },
+      { name: PoolHour.name, schema: PoolHourSchema },
+      { name: PoolDay.name, schema: PoolDaySchema },
       { name: SwapEvent.name, schema: SwapEventSchema },
       { name: Pool.name, schema: PoolSchema },
     ]),
     ConfigModule,
+    EventSourceModule,
+    HooksModule,
   ],
-  controllers: [AggregationController],
+  controllers: [AggregationController, PoolDataController],
   providers: [AggregationService],
   exports: [AggregationService],
 })
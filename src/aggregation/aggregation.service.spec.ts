@@ -1,14 +1,23 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getModelToken } from '@nestjs/mongoose';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { AggregationService, TimeInterval } from './aggregation.service';
+import { AggregationService, PriceQuote, RecordStatus, TimeInterval } from './aggregation.service';
 import { TokenMinute } from './schemas/token-minute.schema';
 import { TokenHour } from './schemas/token-hour.schema';
 import { TokenDay } from './schemas/token-day.schema';
-import { Token } from './schemas/token.schema';
+import { Token, TokenSchema } from './schemas/token.schema';
+import { PoolMinute } from './schemas/pool-minute.schema';
+import { PoolHour, PoolHourSchema } from './schemas/pool-hour.schema';
+import { PoolDay } from './schemas/pool-day.schema';
 import { SwapEvent } from '../swap-events/schemas/swap-event.schema';
 import { Pool } from '../swap-events/schemas/pool.schema';
 import { ConfigService } from '../config/config.service';
+import { EVENT_SOURCES } from '../event-source/event-source.interface';
+import { toDecimal128 } from './decimal128';
+import { BigDecimal } from './big-decimal';
+import { HookRegistryService } from '../hooks/hook-registry.service';
+
+const bd = (value: string | number) => BigDecimal.from(value);
 
 describe('AggregationService', () => {
   let service: AggregationService;
@@ -16,6 +25,9 @@ describe('AggregationService', () => {
   let mockTokenHourModel: any;
   let mockTokenDayModel: any;
   let mockTokenModel: any;
+  let mockPoolMinuteModel: any;
+  let mockPoolHourModel: any;
+  let mockPoolDayModel: any;
   let mockSwapEventModel: any;
   let mockPoolModel: any;
   let mockEventEmitter: any;
@@ -52,6 +64,21 @@ describe('AggregationService', () => {
       updateOne: jest.fn(),
     };
 
+    const poolRecordModel = () => ({
+      findOne: jest.fn(),
+      create: jest.fn(),
+      updateOne: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      deleteOne: jest.fn(),
+      find: jest.fn().mockReturnThis(),
+      sort: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      exec: jest.fn(),
+    });
+    mockPoolMinuteModel = poolRecordModel();
+    mockPoolHourModel = poolRecordModel();
+    mockPoolDayModel = poolRecordModel();
+
     mockSwapEventModel = {
       distinct: jest.fn(),
       find: jest.fn().mockReturnThis(),
@@ -68,12 +95,22 @@ describe('AggregationService', () => {
       emit: jest.fn(),
     };
 
-    mockConfigService = {
-      ethRpcUrl: 'https://eth-mainnet.alchemyapi.io/v2/test',
+    const chain = {
+      chainId: 1,
       stablecoinWrappedNativePoolId: '0x0000000000000000000000000000000000000000',
       stablecoinIsToken0: true,
-      wrappedNativeAddress: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+      wrappedNativeAddress: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+      stablecoinAddresses: [],
       whitelistTokens: [],
+      minimumNativeLocked: 1,
+      hookLabels: { '0x00000000000000000000000000000000000000c0': 'Swap hook' },
+    };
+
+    mockConfigService = {
+      priceMaxHops: 3,
+      ethRpcUrl: 'https://eth-mainnet.alchemyapi.io/v2/test',
+      defaultChainId: 1,
+      getChain: (chainId: number) => (chainId === 1 ? chain : undefined),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -95,6 +132,18 @@ describe('AggregationService', () => {
           provide: getModelToken(Token.name),
           useValue: mockTokenModel,
         },
+        {
+          provide: getModelToken(PoolMinute.name),
+          useValue: mockPoolMinuteModel,
+        },
+        {
+          provide: getModelToken(PoolHour.name),
+          useValue: mockPoolHourModel,
+        },
+        {
+          provide: getModelToken(PoolDay.name),
+          useValue: mockPoolDayModel,
+        },
         {
           provide: getModelToken(SwapEvent.name),
           useValue: mockSwapEventModel,
@@ -111,13 +160,15 @@ describe('AggregationService', () => {
           provide: ConfigService,
           useValue: mockConfigService,
         },
+        HookRegistryService,
+        {
+          provide: EVENT_SOURCES,
+          useValue: new Map([[1, { runner: {} }]]),
+        },
       ],
     }).compile();
 
     service = module.get<AggregationService>(AggregationService);
-
-    // Skip provider initialization in tests
-    service['provider'] = {} as any;
   });
 
   it('should be defined', () => {
@@ -163,6 +214,7 @@ describe('AggregationService', () => {
 
       expect(result).toEqual(mockTokenData);
       expect(mockTokenMinuteModel.find).toHaveBeenCalledWith({
+        chainId: 1,
         tokenAddress,
         date: { $gte: startTime, $lte: endTime },
       });
@@ -181,6 +233,7 @@ describe('AggregationService', () => {
 
       expect(result).toEqual(mockTokenData);
       expect(mockTokenHourModel.find).toHaveBeenCalledWith({
+        chainId: 1,
         tokenAddress,
       });
     });
@@ -214,8 +267,1260 @@ describe('AggregationService', () => {
 
       expect(result).toEqual(mockTokenData);
       expect(mockTokenDayModel.find).toHaveBeenCalledWith({
+        chainId: 1,
         tokenAddress,
       });
     });
+
+    it('should scope token data to the requested chain', async () => {
+      mockTokenDayModel.exec.mockResolvedValue([]);
+
+      await service.getTokenData('0xToken1', TimeInterval.DAY, undefined, undefined, 100, 137);
+
+      expect(mockTokenDayModel.find).toHaveBeenCalledWith({
+        chainId: 137,
+        tokenAddress: '0xToken1',
+      });
+    });
+
+    it('should return native OHLC when quoted in the native token', async () => {
+      mockTokenDayModel.exec.mockResolvedValue([
+        {
+          tokenAddress: '0xToken1',
+          priceUSD: '2.5',
+          open: '2.0',
+          high: '3.0',
+          low: '1.5',
+          close: '2.5',
+          priceNative: '0.00125',
+          openNative: '0.001',
+          highNative: '0.0015',
+          lowNative: '0.00075',
+          closeNative: '0.00125',
+        },
+      ]);
+
+      const [candle] = await service.getTokenData(
+        '0xToken1', TimeInterval.DAY, undefined, undefined, 100, 1, PriceQuote.NATIVE,
+      );
+
+      expect(candle).toEqual(
+        expect.objectContaining({
+          priceUSD: '2.5',
+          open: '0.001',
+          high: '0.0015',
+          low: '0.00075',
+          close: '0.00125',
+        }),
+      );
+    });
+  });
+
+  describe('rolled-up resolutions', () => {
+    const minute = (isoDate: string, open: number, high: number, low: number, close: number, volume: string) => ({
+      chainId: 1,
+      tokenAddress: '0xtoken',
+      date: new Date(isoDate),
+      status: 'finalized',
+      volume,
+      volumeUSD: '1.000000',
+      untrackedVolumeUSD: '1.000000',
+      feesUSD: '0.010000',
+      totalValueLocked: volume,
+      totalValueLockedUSD: '100.000000',
+      priceUSD: close.toFixed(6),
+      open: open.toFixed(6),
+      high: high.toFixed(6),
+      low: low.toFixed(6),
+      close: close.toFixed(6),
+      priceNative: '0.001',
+      openNative: '0.001',
+      highNative: '0.001',
+      lowNative: '0.001',
+      closeNative: '0.001',
+      txCount: 2,
+    });
+
+    it('should build 5 minute candles from minute records, newest first', async () => {
+      mockTokenMinuteModel.exec.mockResolvedValue([
+        minute('2024-01-01T12:06:00Z', 4, 4.5, 3.5, 4, '30'),
+        minute('2024-01-01T12:04:00Z', 2.5, 3, 2.2, 2.8, '20'),
+        minute('2024-01-01T12:01:00Z', 2, 2.6, 1.5, 2.5, '10'),
+      ]);
+
+      const candles: any[] = await service.getTokenData('0xtoken', '5m', undefined, undefined, 10);
+
+      expect(mockTokenMinuteModel.limit).toHaveBeenCalledWith(55);
+      expect(candles).toHaveLength(2);
+      expect(candles[0]).toEqual(expect.objectContaining({ date: new Date('2024-01-01T12:05:00Z'), volume: '30', txCount: 2 }));
+      expect(candles[1]).toEqual(
+        expect.objectContaining({
+          date: new Date('2024-01-01T12:00:00Z'),
+          status: 'finalized',
+          volume: '30',
+          volumeUSD: '2',
+          feesUSD: '0.02',
+          totalValueLocked: '20',
+          priceUSD: '2.800000',
+          open: '2.000000',
+          high: '3',
+          low: '1.5',
+          close: '2.800000',
+          txCount: 4,
+        }),
+      );
+    });
+
+    it('should widen the start time to the beginning of its candle', async () => {
+      mockTokenMinuteModel.exec.mockResolvedValue([]);
+
+      await service.getTokenData('0xtoken', '15m', new Date('2024-01-01T12:20:00Z'));
+
+      expect(mockTokenMinuteModel.find).toHaveBeenCalledWith({
+        chainId: 1,
+        tokenAddress: '0xtoken',
+        date: { $gte: new Date('2024-01-01T12:15:00Z') },
+      });
+    });
+
+    it('should emit rolled-up candles whose period ends with the finalized minute', async () => {
+      mockTokenMinuteModel.exec.mockResolvedValue([
+        minute('2024-01-01T12:00:00Z', 2, 2.6, 1.5, 2.5, '10'),
+        minute('2024-01-01T12:04:00Z', 2.5, 3, 2.2, 2.8, '20'),
+      ]);
+
+      await service['finalizeRolledUpCandles'](TimeInterval.MINUTE, new Date('2024-01-01T12:04:00Z'));
+
+      // 12:04 ends the 12:00 5m candle, but not the 15m or 30m ones
+      expect(mockTokenMinuteModel.find).toHaveBeenCalledTimes(1);
+      expect(mockTokenMinuteModel.find).toHaveBeenCalledWith({
+        date: { $gte: new Date('2024-01-01T12:00:00Z'), $lt: new Date('2024-01-01T12:05:00Z') },
+      });
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'candle.finalized',
+        expect.objectContaining({ interval: '5m', tokenAddress: '0xtoken', open: '2.000000', close: '2.800000', volume: '30' }),
+      );
+    });
+
+    it('should leave chains running a historical sync to the backfill', async () => {
+      mockTokenMinuteModel.exec.mockResolvedValue([]);
+      mockPoolMinuteModel.exec.mockResolvedValue([]);
+      service.setChainSyncing(8453, true);
+      service.setChainSyncing(10, true);
+      service.setChainSyncing(10, false);
+
+      await service.finalizeMinuteRecords();
+
+      const chainFilter = { chainId: { $nin: [8453] } };
+      expect(mockTokenMinuteModel.find).toHaveBeenCalledWith(expect.objectContaining({ ...chainFilter, status: RecordStatus.CURRENT }));
+      expect(mockPoolMinuteModel.find).toHaveBeenCalledWith(expect.objectContaining({ ...chainFilter, status: RecordStatus.CURRENT }));
+      for (const [query] of mockTokenMinuteModel.find.mock.calls) {
+        expect(query.chainId).toEqual({ $nin: [8453] });
+      }
+    });
+
+    it('should roll up the current candle of a resolution for live updates', async () => {
+      mockTokenMinuteModel.exec.mockResolvedValue([
+        minute('2024-01-01T12:30:00Z', 2, 2.6, 1.5, 2.5, '10'),
+        { ...minute('2024-01-01T12:41:00Z', 2.5, 3, 2.2, 2.8, '20'), status: 'current' },
+      ]);
+
+      const candle = await service.getRolledUpCandle(1, '0xToken', '30m', new Date('2024-01-01T12:41:00Z'));
+
+      expect(mockTokenMinuteModel.find).toHaveBeenCalledWith({
+        chainId: 1,
+        tokenAddress: '0xtoken',
+        date: { $gte: new Date('2024-01-01T12:30:00Z'), $lt: new Date('2024-01-01T13:00:00Z') },
+      });
+      expect(mockTokenMinuteModel.sort).toHaveBeenCalledWith({ date: 1 });
+      expect(candle).toEqual(expect.objectContaining({
+        interval: '30m',
+        date: new Date('2024-01-01T12:30:00Z'),
+        status: 'current',
+        open: '2.000000',
+        close: '2.800000',
+        volume: '30',
+        txCount: 4,
+      }));
+    });
+
+    it('should not roll up a candle without records', async () => {
+      mockTokenMinuteModel.exec.mockResolvedValue([]);
+
+      expect(await service.getRolledUpCandle(1, '0xtoken', '5m', new Date('2024-01-01T12:41:00Z'))).toBeNull();
+    });
+  });
+
+  describe('gap filling', () => {
+    const candle = (isoDate: string, close: string) => ({
+      chainId: 1,
+      tokenAddress: '0xtoken',
+      date: new Date(isoDate),
+      volume: '10',
+      totalValueLocked: '500',
+      totalValueLockedUSD: '1000.000000',
+      priceUSD: close,
+      open: '1.000000',
+      high: '3.000000',
+      low: '1.000000',
+      close,
+      priceNative: '0.001',
+      closeNative: '0.001',
+      txCount: 1,
+    });
+
+    it('should insert flat candles at the previous close for periods without swaps', async () => {
+      mockTokenMinuteModel.exec
+        .mockResolvedValueOnce([candle('2024-01-01T12:03:00Z', '2.000000'), candle('2024-01-01T12:00:00Z', '1.500000')])
+        .mockResolvedValueOnce([]);
+
+      const series: any[] = await service.getTokenData(
+        '0xtoken',
+        TimeInterval.MINUTE,
+        new Date('2024-01-01T12:00:00Z'),
+        new Date('2024-01-01T12:04:30Z'),
+        100,
+        1,
+        PriceQuote.USD,
+        true,
+      );
+
+      expect(series.map((c) => [c.date.toISOString(), c.close, c.txCount])).toEqual([
+        ['2024-01-01T12:04:00.000Z', '2.000000', 0],
+        ['2024-01-01T12:03:00.000Z', '2.000000', 1],
+        ['2024-01-01T12:02:00.000Z', '1.500000', 0],
+        ['2024-01-01T12:01:00.000Z', '1.500000', 0],
+        ['2024-01-01T12:00:00.000Z', '1.500000', 1],
+      ]);
+      expect(series[0]).toEqual(
+        expect.objectContaining({ open: '2.000000', high: '2.000000', low: '2.000000', volume: '0', totalValueLocked: '500' }),
+      );
+    });
+
+    it('should seed the series from the last candle before the start time', async () => {
+      mockTokenMinuteModel.exec
+        .mockResolvedValueOnce([candle('2024-01-01T12:02:00Z', '2.000000')])
+        .mockResolvedValueOnce([candle('2024-01-01T11:50:00Z', '1.200000')]);
+
+      const series: any[] = await service.getTokenData(
+        '0xtoken',
+        TimeInterval.MINUTE,
+        new Date('2024-01-01T12:00:00Z'),
+        new Date('2024-01-01T12:02:00Z'),
+        100,
+        1,
+        PriceQuote.USD,
+        true,
+      );
+
+      expect(mockTokenMinuteModel.find).toHaveBeenLastCalledWith({
+        chainId: 1,
+        tokenAddress: '0xtoken',
+        date: { $lt: new Date('2024-01-01T12:00:00Z') },
+      });
+      expect(series.map((c) => [c.date.toISOString(), c.close])).toEqual([
+        ['2024-01-01T12:02:00.000Z', '2.000000'],
+        ['2024-01-01T12:01:00.000Z', '1.200000'],
+        ['2024-01-01T12:00:00.000Z', '1.200000'],
+      ]);
+    });
+
+    it('should only fill the newest limit periods', async () => {
+      mockTokenMinuteModel.exec
+        .mockResolvedValueOnce([candle('2024-01-01T12:00:00Z', '1.500000')]);
+
+      const series: any[] = await service.getTokenData(
+        '0xtoken',
+        TimeInterval.MINUTE,
+        undefined,
+        new Date('2024-01-01T12:09:00Z'),
+        3,
+        1,
+        PriceQuote.USD,
+        true,
+      );
+
+      expect(series.map((c) => c.date.toISOString())).toEqual([
+        '2024-01-01T12:09:00.000Z',
+        '2024-01-01T12:08:00.000Z',
+        '2024-01-01T12:07:00.000Z',
+      ]);
+      expect(series.every((c) => c.close === '1.500000')).toBe(true);
+    });
+  });
+
+  describe('revertSwapEvents', () => {
+    const timestamp = new Date('2024-01-01T12:34:56Z');
+
+    const orphanedSwap = {
+      chainId: 1,
+      token0Address: '0xtoken0',
+      token1Address: '0xtoken1',
+      amount0: '-100',
+      amount1: '250',
+      amountUSD: '40.000000',
+      untrackedAmountUSD: '50.000000',
+      feesUSD: '0.120000',
+      blockTimestamp: timestamp,
+    };
+
+    beforeEach(() => {
+      mockTokenMinuteModel.deleteOne = jest.fn();
+      mockTokenHourModel.deleteOne = jest.fn();
+      mockTokenDayModel.deleteOne = jest.fn();
+    });
+
+    it('should subtract orphaned swaps from token totals in place, clamped at zero', async () => {
+      mockSwapEventModel.exec.mockResolvedValue([]);
+
+      await service.revertSwapEvents([orphanedSwap] as any);
+
+      const subtract = (field: string, delta: string) =>
+        ({ $max: [{ $subtract: [`$${field}`, toDecimal128(delta)] }, toDecimal128(0)] });
+      expect(mockTokenModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, address: '0xtoken0' },
+        [
+          {
+            $set: {
+              volume: subtract('volume', '100'),
+              volumeUSD: subtract('volumeUSD', '40'),
+              untrackedVolumeUSD: subtract('untrackedVolumeUSD', '50'),
+              feesUSD: subtract('feesUSD', '0.12'),
+              txCount: { $max: [{ $subtract: ['$txCount', 1] }, 0] },
+            },
+          },
+        ],
+        { updatePipeline: true },
+      );
+      expect(mockTokenModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, address: '0xtoken1' },
+        [{ $set: expect.objectContaining({ volume: subtract('volume', '250') }) }],
+        { updatePipeline: true },
+      );
+      expect(mockTokenModel.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should delete candles left without swaps', async () => {
+      mockSwapEventModel.exec.mockResolvedValue([]);
+
+      await service.revertSwapEvents([orphanedSwap] as any);
+
+      expect(mockTokenMinuteModel.deleteOne).toHaveBeenCalledWith({
+        chainId: 1,
+        tokenAddress: '0xtoken0',
+        date: service['roundTimestamp'](timestamp, TimeInterval.MINUTE),
+      });
+      expect(mockTokenDayModel.deleteOne).toHaveBeenCalledTimes(2);
+    });
+
+    it('should rebuild candles from the remaining swaps', async () => {
+      mockSwapEventModel.exec.mockResolvedValue([
+        { token0Address: '0xtoken0', token1Address: '0xtoken1', amount0: '10', amount1: '-20', token0DerivedBTC: '2', token1DerivedBTC: '0.5', nativePriceUSD: '1000', amountUSD: '4', untrackedAmountUSD: '5', feesUSD: '0.012' },
+        { token0Address: '0xtoken0', token1Address: '0xtoken1', amount0: '-5', amount1: '12', token0DerivedBTC: '3', token1DerivedBTC: '0.4', nativePriceUSD: '1200', amountUSD: '6', untrackedAmountUSD: '6', feesUSD: '0.018' },
+      ]);
+
+      await service.revertSwapEvents([orphanedSwap] as any);
+
+      expect(mockTokenHourModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, tokenAddress: '0xtoken0', date: service['roundTimestamp'](timestamp, TimeInterval.HOUR) },
+        {
+          $set: {
+            volume: toDecimal128(15),
+            volumeUSD: toDecimal128('10'),
+            untrackedVolumeUSD: toDecimal128('11'),
+            feesUSD: toDecimal128('0.03'),
+            priceUSD: toDecimal128('3600'),
+            open: toDecimal128('2000'),
+            high: toDecimal128('3600'),
+            low: toDecimal128('2000'),
+            close: toDecimal128('3600'),
+            priceNative: toDecimal128('3'),
+            openNative: toDecimal128('2'),
+            highNative: toDecimal128('3'),
+            lowNative: toDecimal128('2'),
+            closeNative: toDecimal128('3'),
+            periodId: 473364,
+            txCount: 2,
+          },
+          $setOnInsert: { status: RecordStatus.FINALIZED },
+        },
+        { upsert: true },
+      );
+      expect(mockTokenHourModel.deleteOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('UTC periods', () => {
+    it('should bucket in UTC whatever the server time zone', () => {
+      const timeZone = process.env.TZ;
+      process.env.TZ = 'Asia/Kolkata';
+      try {
+        const date = new Date('2024-03-10T20:10:30Z');
+
+        expect(service['roundTimestamp'](date, TimeInterval.DAY)).toEqual(new Date('2024-03-10T00:00:00Z'));
+        expect(service['roundTimestamp'](date, TimeInterval.HOUR)).toEqual(new Date('2024-03-10T20:00:00Z'));
+        expect(service['getPeriodId'](date, TimeInterval.DAY)).toBe(19792);
+        expect(service['getPreviousPeriod'](date, TimeInterval.DAY)).toEqual(new Date('2024-03-09T20:10:30Z'));
+      } finally {
+        process.env.TZ = timeZone;
+      }
+    });
+
+    it('should align rolled-up resolutions to UTC', () => {
+      // A Sunday evening
+      const date = new Date('2024-03-10T22:10:00Z');
+
+      expect(service['getResolutionStart'](date, '4h')).toEqual(new Date('2024-03-10T20:00:00Z'));
+      expect(service['getResolutionStart'](date, '1w')).toEqual(new Date('2024-03-04T00:00:00Z'));
+      expect(service['getResolutionStart'](date, '1M')).toEqual(new Date('2024-03-01T00:00:00Z'));
+      expect(service['getNextResolutionStart'](new Date('2024-12-01T00:00:00Z'), '1M'))
+        .toEqual(new Date('2025-01-01T00:00:00Z'));
+    });
+
+    it('should migrate records to UTC periods, rebuilding local-time ones', async () => {
+      for (const model of [mockTokenMinuteModel, mockTokenHourModel, mockPoolMinuteModel, mockPoolHourModel, mockPoolDayModel]) {
+        model.exec.mockResolvedValue([]);
+      }
+      mockTokenDayModel.deleteOne = jest.fn();
+      mockTokenDayModel.exec
+        .mockResolvedValueOnce([
+          { _id: 'utc', chainId: 1, tokenAddress: '0xtoken', date: new Date('2024-03-08T00:00:00Z') },
+          // Midnight in Asia/Kolkata
+          { _id: 'local', chainId: 1, tokenAddress: '0xtoken', date: new Date('2024-03-09T18:30:00Z'), totalValueLocked: '5', totalValueLockedUSD: '10.000000' },
+        ])
+        .mockResolvedValueOnce([]);
+      mockSwapEventModel.exists = jest.fn(async (query) => (query.$and ? null : { _id: 'swap' }));
+      mockSwapEventModel.exec.mockResolvedValue([
+        { token0Address: '0xtoken', token1Address: '0xother', amount0: '10', amount1: '-20', token0DerivedBTC: '2', nativePriceUSD: '1000', amountUSD: '4', untrackedAmountUSD: '4', feesUSD: '0.01' },
+      ]);
+
+      await service.migrateToUtcPeriods();
+
+      expect(mockTokenDayModel.find).toHaveBeenCalledWith({ periodId: { $exists: false } });
+      expect(mockTokenDayModel.updateOne).toHaveBeenCalledWith({ _id: 'utc' }, { $set: { periodId: 19790 } });
+      expect(mockTokenDayModel.deleteOne).toHaveBeenCalledWith({ _id: 'local' });
+      for (const [day, periodId] of [['2024-03-09', 19791], ['2024-03-10', 19792]] as const) {
+        expect(mockTokenDayModel.updateOne).toHaveBeenCalledWith(
+          { chainId: 1, tokenAddress: '0xtoken', date: new Date(`${day}T00:00:00Z`) },
+          {
+            $set: expect.objectContaining({ periodId, open: toDecimal128('2000'), txCount: 1 }),
+            $setOnInsert: { totalValueLocked: '5', totalValueLockedUSD: '10.000000', status: RecordStatus.FINALIZED },
+          },
+          { upsert: true },
+        );
+      }
+    });
+    it('should move records whose swaps have no stored prices whole into a UTC period', async () => {
+      for (const model of [mockTokenMinuteModel, mockTokenHourModel, mockTokenDayModel, mockPoolMinuteModel, mockPoolHourModel]) {
+        model.exec.mockResolvedValue([]);
+      }
+      mockPoolDayModel.deleteOne = jest.fn();
+      const old = {
+        _id: 'local',
+        chainId: 1,
+        poolId: '0xpool',
+        // Midnight in America/New_York
+        date: new Date('2024-03-09T05:00:00Z'),
+        token0Open: '1', token0High: '3', token0Low: '0.5', token0Close: '2',
+        token1Open: '1', token1High: '2', token1Low: '0.3333', token1Close: '0.5',
+        token0Price: '2', token1Price: '0.5',
+        volumeToken0: '100', volumeToken1: '200', volumeUSD: '150', feesUSD: '0.45', txCount: 7,
+        liquidity: '5000', sqrtPriceX96: '1', tick: 1, totalValueLockedUSD: '900',
+      };
+      mockPoolDayModel.exec.mockResolvedValueOnce([old]).mockResolvedValueOnce([]);
+      // Swaps from before prices were stored on them
+      mockSwapEventModel.exists = jest.fn().mockResolvedValue({ _id: 'swap' });
+
+      await service.migrateToUtcPeriods();
+
+      const unpricedQuery = mockSwapEventModel.exists.mock.calls[1][0];
+      expect(unpricedQuery.$and[1]).toEqual({
+        $or: [{ token0Price: { $exists: false } }, { token1Price: { $exists: false } }, { amountUSD: { $exists: false } }],
+      });
+      expect(mockPoolDayModel.deleteOne).toHaveBeenCalledWith({ _id: 'local' });
+      expect(mockSwapEventModel.find).not.toHaveBeenCalled();
+      expect(mockPoolDayModel.updateOne).toHaveBeenCalledTimes(1);
+      expect(mockPoolDayModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, poolId: '0xpool', date: new Date('2024-03-09T00:00:00Z') },
+        {
+          $inc: {
+            volumeToken0: toDecimal128('100'),
+            volumeToken1: toDecimal128('200'),
+            volumeUSD: toDecimal128('150'),
+            feesUSD: toDecimal128('0.45'),
+            txCount: 7,
+          },
+          $max: { token0High: toDecimal128('3'), token1High: toDecimal128('2') },
+          $min: { token0Low: toDecimal128('0.5'), token1Low: toDecimal128('0.3333') },
+          $set: {
+            token0Close: '2', token1Close: '0.5', token0Price: '2', token1Price: '0.5',
+            liquidity: '5000', sqrtPriceX96: '1', tick: 1, totalValueLockedUSD: '900',
+            periodId: 19791,
+          },
+          $setOnInsert: { token0Open: '1', token1Open: '1', status: RecordStatus.FINALIZED },
+        },
+        { upsert: true },
+      );
+    });
+
+    it('should bound local days by the calendar across DST changes', () => {
+      // Local midnights, 23 hours apart where clocks go forward that night (e.g. in Europe)
+      expect(service['getNextLocalPeriod'](new Date(2024, 2, 31), TimeInterval.DAY)).toEqual(new Date(2024, 3, 1));
+      expect(service['getNextLocalPeriod'](new Date(2024, 9, 27), TimeInterval.DAY)).toEqual(new Date(2024, 9, 28));
+      expect(service['getNextLocalPeriod'](new Date('2024-03-31T00:00:00Z'), TimeInterval.HOUR))
+        .toEqual(new Date('2024-03-31T01:00:00Z'));
+    });
+  });
+
+  describe('migrateChainIds', () => {
+    it('should assign tokens and candles without a chain ID to the default chain', async () => {
+      const models = [
+        mockTokenModel, mockTokenMinuteModel, mockTokenHourModel, mockTokenDayModel,
+        mockPoolMinuteModel, mockPoolHourModel, mockPoolDayModel,
+      ];
+      for (const model of models) {
+        model.updateMany = jest.fn().mockResolvedValue({ modifiedCount: 2 });
+        model.syncIndexes = jest.fn().mockResolvedValue(['address_1']);
+      }
+
+      await service.migrateChainIds();
+
+      for (const model of models) {
+        expect(model.updateMany).toHaveBeenCalledWith({ chainId: { $exists: false } }, { $set: { chainId: 1 } });
+        expect(model.syncIndexes).toHaveBeenCalled();
+        // Indexes are synced after the backfill, so chain-scoped unique indexes can be built
+        expect(model.syncIndexes.mock.invocationCallOrder[0])
+          .toBeGreaterThan(model.updateMany.mock.invocationCallOrder[0]);
+      }
+    });
+  });
+
+  describe('migrateToDecimal128', () => {
+    it('should convert string decimal fields of every collection in place', async () => {
+      const models = [
+        mockTokenModel, mockTokenMinuteModel, mockTokenHourModel, mockTokenDayModel,
+        mockPoolMinuteModel, mockPoolHourModel, mockPoolDayModel,
+      ];
+      for (const model of models) {
+        model.schema = model === mockTokenModel ? TokenSchema : PoolHourSchema;
+        model.updateMany = jest.fn().mockResolvedValue({ modifiedCount: 0 });
+      }
+
+      await service.migrateToDecimal128();
+
+      const toDecimal = (field: string) =>
+        ({ $cond: [{ $eq: [{ $type: `$${field}` }, 'string'] }, { $toDecimal: `$${field}` }, `$${field}`] });
+      expect(mockTokenModel.updateMany).toHaveBeenCalledWith(
+        {
+          $or: [
+            { volume: { $type: 'string' } },
+            { volumeUSD: { $type: 'string' } },
+            { untrackedVolumeUSD: { $type: 'string' } },
+            { feesUSD: { $type: 'string' } },
+            { totalValueLocked: { $type: 'string' } },
+            { totalValueLockedUSD: { $type: 'string' } },
+            { derivedBTC: { $type: 'string' } },
+          ],
+        },
+        [
+          {
+            $set: {
+              volume: toDecimal('volume'),
+              volumeUSD: toDecimal('volumeUSD'),
+              untrackedVolumeUSD: toDecimal('untrackedVolumeUSD'),
+              feesUSD: toDecimal('feesUSD'),
+              totalValueLocked: toDecimal('totalValueLocked'),
+              totalValueLockedUSD: toDecimal('totalValueLockedUSD'),
+              derivedBTC: toDecimal('derivedBTC'),
+            },
+          },
+        ],
+        { updatePipeline: true },
+      );
+      // Pool snapshot fields such as TVL stay strings
+      const [[poolFilter, [{ $set: poolFields }]]] = mockPoolHourModel.updateMany.mock.calls;
+      expect(poolFilter.$or).toHaveLength(13);
+      expect(poolFields).toHaveProperty('token0High');
+      expect(poolFields).not.toHaveProperty('totalValueLockedUSD');
+      for (const model of models) {
+        expect(model.updateMany).toHaveBeenCalledTimes(1);
+      }
+    });
+  });
+
+  describe('finalization', () => {
+    const record = (isoDate: string) => ({
+      _id: isoDate,
+      chainId: 1,
+      tokenAddress: '0xtoken',
+      date: new Date(isoDate),
+      status: RecordStatus.CURRENT,
+      volume: '10',
+      volumeUSD: '1.000000',
+      untrackedVolumeUSD: '1.000000',
+      feesUSD: '0.010000',
+      open: '2.000000',
+      high: '2.000000',
+      low: '2.000000',
+      close: '2.000000',
+      txCount: 1,
+    });
+
+    // Result of the candle upsert: the stored record after the swap
+    const upserted = (updatedExisting: boolean, fields: Record<string, any> = {}) => ({
+      value: { toObject: () => ({ ...record('2024-01-01T12:07:00Z'), periodId: 28401847, ...fields }) },
+      lastErrorObject: { updatedExisting },
+    });
+
+    it('should finalize earlier periods when a swap opens a new one', async () => {
+      mockTokenMinuteModel.findOneAndUpdate = jest.fn().mockResolvedValue(upserted(false));
+      mockTokenMinuteModel.updateMany = jest.fn().mockResolvedValue({ modifiedCount: 1 });
+      mockTokenMinuteModel.exec.mockResolvedValue([record('2024-01-01T12:01:00Z')]);
+
+      await service['updateOrCreateCurrentRecord'](
+        1, '0xtoken', TimeInterval.MINUTE, new Date('2024-01-01T12:07:30Z'), BigInt(5), bd(1), bd(1), bd('0.01'), bd('0.001'), bd(2), BigInt(100), bd(200),
+      );
+
+      expect(mockTokenMinuteModel.find).toHaveBeenCalledWith({
+        chainId: 1,
+        tokenAddress: '0xtoken',
+        date: { $lt: new Date('2024-01-01T12:07:00Z') },
+        status: RecordStatus.CURRENT,
+      });
+      expect(mockTokenMinuteModel.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: ['2024-01-01T12:01:00Z'] }, status: RecordStatus.CURRENT },
+        { $set: { status: RecordStatus.FINALIZED } },
+      );
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'candle.finalized',
+        expect.objectContaining({ interval: TimeInterval.MINUTE, date: new Date('2024-01-01T12:01:00Z') }),
+      );
+      // The 12:00 5m candle is over by 12:07, the 15m one is not
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'candle.finalized',
+        expect.objectContaining({ interval: '5m', date: new Date('2024-01-01T12:00:00Z') }),
+      );
+      expect(mockEventEmitter.emit).not.toHaveBeenCalledWith('candle.finalized', expect.objectContaining({ interval: '15m' }));
+    });
+
+    it('should not finalize anything when the swap extends the current period', async () => {
+      mockTokenMinuteModel.findOneAndUpdate = jest.fn().mockResolvedValue(upserted(true));
+      mockTokenMinuteModel.updateMany = jest.fn();
+
+      await service['updateOrCreateCurrentRecord'](
+        1, '0xtoken', TimeInterval.MINUTE, new Date('2024-01-01T12:07:30Z'), BigInt(5), bd(1), bd(1), bd('0.01'), bd('0.001'), bd(2), BigInt(100), bd(200),
+      );
+
+      expect(mockTokenMinuteModel.find).not.toHaveBeenCalled();
+      expect(mockTokenMinuteModel.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should update the candle with one atomic upsert', async () => {
+      mockTokenMinuteModel.findOneAndUpdate = jest.fn().mockResolvedValue(upserted(true));
+
+      await service['updateOrCreateCurrentRecord'](
+        1, '0xtoken', TimeInterval.MINUTE, new Date('2024-01-01T12:07:30Z'), BigInt(5), bd(1), bd(1), bd('0.01'), bd('0.001'), bd('2.5'), BigInt(100), bd(200),
+      );
+
+      expect(mockTokenMinuteModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { chainId: 1, tokenAddress: '0xtoken', date: new Date('2024-01-01T12:07:00Z') },
+        {
+          $inc: {
+            volume: toDecimal128(5),
+            volumeUSD: toDecimal128('1'),
+            untrackedVolumeUSD: toDecimal128('1'),
+            feesUSD: toDecimal128('0.01'),
+            txCount: 1,
+          },
+          $max: { high: toDecimal128('2.5'), highNative: toDecimal128('0.001') },
+          $min: { low: toDecimal128('2.5'), lowNative: toDecimal128('0.001') },
+          $set: {
+            totalValueLocked: toDecimal128(100),
+            totalValueLockedUSD: toDecimal128('200'),
+            priceUSD: toDecimal128('2.5'),
+            close: toDecimal128('2.5'),
+            priceNative: toDecimal128('0.001'),
+            closeNative: toDecimal128('0.001'),
+          },
+          $setOnInsert: {
+            periodId: 28401847,
+            status: RecordStatus.CURRENT,
+            open: toDecimal128('2.5'),
+            openNative: toDecimal128('0.001'),
+          },
+        },
+        { upsert: true, new: true, includeResultMetadata: true },
+      );
+    });
+
+    it('should emit the updated state of the current candle', async () => {
+      mockTokenMinuteModel.findOneAndUpdate = jest.fn().mockResolvedValue(
+        upserted(true, { volume: '15', high: '2.500000', close: '2.500000', txCount: 2 }),
+      );
+
+      await service['updateOrCreateCurrentRecord'](
+        1, '0xtoken', TimeInterval.MINUTE, new Date('2024-01-01T12:07:30Z'), BigInt(5), bd(1), bd(1), bd('0.01'), bd('0.001'), bd('2.5'), BigInt(100), bd(200),
+      );
+
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith('candle.updated', expect.objectContaining({
+        chainId: 1,
+        interval: TimeInterval.MINUTE,
+        tokenAddress: '0xtoken',
+        date: new Date('2024-01-01T12:07:00Z'),
+        periodId: 28401847,
+        status: RecordStatus.CURRENT,
+        volume: '15',
+        high: '2.500000',
+        close: '2.500000',
+        txCount: 2,
+      }));
+    });
+
+    it('should sweep every ended period left current', async () => {
+      mockTokenHourModel.updateMany = jest.fn().mockResolvedValue({ modifiedCount: 1 });
+      mockTokenHourModel.exec.mockResolvedValue([record('2024-01-01T05:00:00Z')]);
+      mockPoolHourModel.exec.mockResolvedValue([]);
+
+      await service.finalizeHourRecords();
+
+      const [query] = mockTokenHourModel.find.mock.calls[0];
+      expect(query).toEqual({ date: { $lt: expect.any(Date) }, status: RecordStatus.CURRENT });
+      expect(query.date.$lt.getTime() % 3600000).toBe(0);
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'candle.finalized',
+        expect.objectContaining({ interval: TimeInterval.HOUR, date: new Date('2024-01-01T05:00:00Z') }),
+      );
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'candle.finalized',
+        expect.objectContaining({ interval: '4h', date: new Date('2024-01-01T04:00:00Z') }),
+      );
+      expect(mockPoolHourModel.find).toHaveBeenCalledWith({ date: { $lt: query.date.$lt }, status: RecordStatus.CURRENT });
+    });
+  });
+
+  describe('token TVL', () => {
+    const liquidityEvent = {
+      chainId: 1,
+      token0Address: '0xtoken0',
+      token1Address: '0xtoken1',
+      amount0: '1000000000000000000',
+      amount1: '-2000',
+      blockTimestamp: new Date('2024-01-01T12:34:56Z'),
+    };
+    // Token TVL revalued in USD at the stored derived price, by the update itself
+    const valueUSD = (decimals: bigint) => ({
+      $multiply: [
+        { $divide: ['$totalValueLocked', toDecimal128(10n ** decimals)] },
+        { $multiply: ['$derivedBTC', expect.anything()] },
+      ],
+    });
+
+    beforeEach(() => {
+      mockPoolModel.aggregate = jest.fn().mockResolvedValue([{ total: toDecimal128('3000000000000000000') }]);
+      // Native price of $2000 from the stablecoin pool
+      mockPoolModel.findOne.mockResolvedValue({ token0Price: '2000' });
+      mockTokenModel.findOne.mockImplementation(({ address }) => ({
+        address,
+        symbol: 'TKN',
+        decimals: 18,
+        derivedBTC: address === '0xtoken0' ? '0.5' : '0',
+      }));
+      // The token after its TVL update
+      mockTokenModel.findOneAndUpdate = jest.fn(async ({ address }) => ({
+        derivedBTC: address === '0xtoken0' ? '0.5' : '0',
+        totalValueLocked: '3000000000000000000',
+        totalValueLockedUSD: address === '0xtoken0' ? '3000' : '0',
+      }));
+      for (const model of [mockTokenMinuteModel, mockTokenHourModel, mockTokenDayModel]) {
+        model.findOneAndUpdate = jest.fn().mockResolvedValue({
+          value: { toObject: () => ({}) },
+          lastErrorObject: { updatedExisting: true },
+        });
+      }
+    });
+
+    it('should sum the token balance over every pool', async () => {
+      await expect(service['getTokenTotalValueLocked'](1, '0xtoken0')).resolves.toBe(BigInt('3000000000000000000'));
+
+      const [[match]] = mockPoolModel.aggregate.mock.calls[0];
+      expect(match).toEqual({ $match: { chainId: 1, $or: [{ currency0: '0xtoken0' }, { currency1: '0xtoken0' }] } });
+    });
+
+    it('should count no TVL for a token without pools', async () => {
+      mockPoolModel.aggregate.mockResolvedValue([]);
+
+      await expect(service['getTokenTotalValueLocked'](1, '0xtoken0')).resolves.toBe(BigInt(0));
+    });
+
+    it('should move the TVL of a liquidity event\'s tokens by its amounts and snapshot it into their candles', async () => {
+      await service.processLiquidityEvent(liquidityEvent as any);
+
+      expect(mockTokenModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { chainId: 1, address: '0xtoken0' },
+        [
+          { $set: { totalValueLocked: { $add: ['$totalValueLocked', toDecimal128('1000000000000000000')] } } },
+          { $set: { totalValueLockedUSD: valueUSD(18n) } },
+        ],
+        { new: true, updatePipeline: true },
+      );
+      expect(mockTokenHourModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { chainId: 1, tokenAddress: '0xtoken0', date: new Date('2024-01-01T12:00:00Z') },
+        {
+          $set: { totalValueLocked: toDecimal128('3000000000000000000'), totalValueLockedUSD: toDecimal128('3000') },
+          $setOnInsert: expect.objectContaining({
+            periodId: 473364,
+            status: RecordStatus.CURRENT,
+            open: toDecimal128('1000'),
+            closeNative: toDecimal128('0.5'),
+          }),
+        },
+        { upsert: true, new: true, includeResultMetadata: true },
+      );
+      expect(mockTokenMinuteModel.findOneAndUpdate).toHaveBeenCalledTimes(1);
+      expect(mockTokenDayModel.findOneAndUpdate).toHaveBeenCalledTimes(1);
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith('candle.updated', expect.objectContaining({ tokenAddress: '0xtoken0' }));
+    });
+
+    it('should only update the totals of a token without a price', async () => {
+      await service.processLiquidityEvent(liquidityEvent as any);
+
+      expect(mockTokenModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { chainId: 1, address: '0xtoken1' },
+        [
+          { $set: { totalValueLocked: { $add: ['$totalValueLocked', toDecimal128('-2000')] } } },
+          { $set: { totalValueLockedUSD: valueUSD(18n) } },
+        ],
+        { new: true, updatePipeline: true },
+      );
+      expect(mockTokenHourModel.findOneAndUpdate).not.toHaveBeenCalledWith(
+        expect.objectContaining({ tokenAddress: '0xtoken1' }),
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it('should recompute the TVL from the pools after a reorg', async () => {
+      await service.refreshTokenTotalValueLocked(1, ['0xToken0']);
+
+      expect(mockTokenModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { chainId: 1, address: '0xtoken0' },
+        [
+          { $set: { totalValueLocked: toDecimal128('3000000000000000000') } },
+          { $set: { totalValueLockedUSD: valueUSD(18n) } },
+        ],
+        { new: true, updatePipeline: true },
+      );
+    });
+
+    it('should move the TVL by the pool side of the swap amount and count the swap in place', async () => {
+      const swap = { _id: 'swap', chainId: 1, amount0: '-1000000000000000000', amount1: '5', blockTimestamp: liquidityEvent.blockTimestamp };
+      const token = { address: '0xtoken0', decimals: 18, derivedBTC: '0.5' };
+      jest.spyOn(service as any, 'findNativePerToken').mockResolvedValue({ derivedBTC: bd('0.5'), pricePath: ['0xpool'] });
+      mockSwapEventModel.updateOne = jest.fn();
+      const amountsUSD = { amountUSD: bd(1000), untrackedAmountUSD: bd(1000), feesUSD: bd(3) };
+
+      await service['updateCurrentRecord'](swap as any, token as any, true, amountsUSD, bd(2000));
+
+      const add = (field: string, delta: string) => ({ $add: [`$${field}`, toDecimal128(delta)] });
+      expect(mockTokenModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { chainId: 1, address: '0xtoken0' },
+        [
+          {
+            $set: {
+              volume: add('volume', '1000000000000000000'),
+              volumeUSD: add('volumeUSD', '1000'),
+              untrackedVolumeUSD: add('untrackedVolumeUSD', '1000'),
+              feesUSD: add('feesUSD', '3'),
+              txCount: { $add: ['$txCount', 1] },
+              // The swapper paid 1 token0, so the pool holds 1 more
+              totalValueLocked: add('totalValueLocked', '1000000000000000000'),
+              derivedBTC: toDecimal128('0.5'),
+              pricePath: { $literal: ['0xpool'] },
+            },
+          },
+          {
+            $set: {
+              totalValueLockedUSD: {
+                $multiply: [{ $divide: ['$totalValueLocked', toDecimal128(10n ** 18n)] }, toDecimal128('1000')],
+              },
+            },
+          },
+        ],
+        { new: true, updatePipeline: true },
+      );
+      // Candles get the token's TVL as stored by the update
+      expect(mockTokenDayModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          $set: expect.objectContaining({
+            totalValueLocked: toDecimal128('3000000000000000000'),
+            totalValueLockedUSD: toDecimal128('3000'),
+          }),
+        }),
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('price routing', () => {
+    const weth = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+    const tokens = {
+      '0xtoken': { chainId: 1, address: '0xtoken', decimals: 18, derivedBTC: '0', whitelistPools: ['0xpoola', '0xpoolb'] },
+      '0xusdc': { chainId: 1, address: '0xusdc', decimals: 6, derivedBTC: '0.0005', whitelistPools: ['0xpoolc'] },
+      [weth]: { chainId: 1, address: weth, decimals: 18, derivedBTC: '1', whitelistPools: [] },
+    };
+    // Direct pool at 0.0012 WETH holding 10 WETH, and a route through USDC at 2 USDC * 0.0005 WETH
+    // whose thinnest pool holds 30000 USDC, i.e. 15 WETH
+    const pools = [
+      { poolId: '0xpoola', currency0: '0xtoken', currency1: weth, token1Price: '0.0012', token0Price: '833.33', liquidity: '1', totalValueLockedToken1: '10000000000000000000' },
+      { poolId: '0xpoolb', currency0: '0xtoken', currency1: '0xusdc', token1Price: '2', token0Price: '0.5', liquidity: '1', totalValueLockedToken1: '30000000000' },
+      { poolId: '0xpoolc', currency0: '0xusdc', currency1: weth, token1Price: '0.0005', token0Price: '2000', liquidity: '1', totalValueLockedToken1: '100000000000000000000' },
+    ];
+    const chain = (minimumNativeLocked: number) => ({
+      wrappedNativeAddress: weth,
+      stablecoinAddresses: [],
+      minimumNativeLocked,
+    });
+
+    beforeEach(() => {
+      mockTokenModel.findOne.mockImplementation(async ({ address }) => tokens[address] || null);
+      mockPoolModel.find = jest.fn(({ poolId }) => ({
+        exec: jest.fn().mockResolvedValue(pools.filter((pool) => poolId.$in.includes(pool.poolId))),
+      }));
+    });
+
+    it('should weight the prices of every path to the wrapped native token by liquidity', async () => {
+      const result = await service['findNativePerToken'](tokens['0xtoken'] as any, chain(1) as any);
+
+      // (0.0012 * 10 + 0.001 * 15) / 25
+      expect(result.derivedBTC).toEqual(bd('0.00108'));
+      expect(result.pricePath).toEqual(['0xpoolb', '0xpoolc']);
+    });
+
+    it('should skip paths with a pool below the minimum native liquidity', async () => {
+      const result = await service['findNativePerToken'](tokens['0xtoken'] as any, chain(12) as any);
+
+      expect(result.derivedBTC).toEqual(bd('0.001'));
+      expect(result.pricePath).toEqual(['0xpoolb', '0xpoolc']);
+      await expect(service['findNativePerToken'](tokens['0xtoken'] as any, chain(20) as any)).resolves.toBeNull();
+    });
+
+    it('should not route through more pools than configured', async () => {
+      mockConfigService.priceMaxHops = 1;
+
+      const result = await service['findNativePerToken'](tokens['0xtoken'] as any, chain(1) as any);
+
+      expect(result).toEqual({ derivedBTC: bd('0.0012'), pricePath: ['0xpoola'] });
+    });
+
+    it('should ignore pools without active liquidity', async () => {
+      mockPoolModel.find = jest.fn(({ poolId }) => ({
+        exec: jest.fn().mockResolvedValue(
+          pools.filter((pool) => poolId.$in.includes(pool.poolId)).map((pool) =>
+            pool.poolId === '0xpoolb' ? { ...pool, liquidity: '0' } : pool),
+        ),
+      }));
+
+      const result = await service['findNativePerToken'](tokens['0xtoken'] as any, chain(1) as any);
+
+      expect(result).toEqual({ derivedBTC: bd('0.0012'), pricePath: ['0xpoola'] });
+    });
+  });
+
+  describe('whitelist reconciliation', () => {
+    const weth = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+    const query = (result: any) => ({
+      select: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue(result),
+    });
+
+    beforeEach(() => {
+      mockConfigService.getChain(1).whitelistTokens = [weth];
+      mockPoolModel.find = jest.fn().mockReturnValue(query([
+        { poolId: '0xpoola', currency0: '0xtoken', currency1: weth },
+        { poolId: '0xpoolb', currency0: weth, currency1: '0xnew' },
+      ]));
+      mockTokenModel.find = jest.fn().mockReturnValue(query([
+        { address: '0xtoken', whitelistPools: ['0xpoola', '0xstale'] },
+        { address: '0xdelisted', whitelistPools: ['0xpoolx'] },
+        { address: weth, whitelistPools: [] },
+      ]));
+      mockTokenModel.findOne.mockImplementation(async ({ address }) => ({ chainId: 1, address, decimals: 18 }));
+      jest.spyOn(service as any, 'getNativePriceInUSD').mockResolvedValue(bd(2000));
+      jest.spyOn(service as any, 'updateTokenTotalValueLocked').mockResolvedValue(undefined);
+      jest.spyOn(service as any, 'findNativePerToken').mockImplementation(async (token: any) =>
+        token.address === '0xdelisted' ? null : { derivedBTC: bd('0.001'), pricePath: ['0xpoola'] });
+    });
+
+    it('should add and remove pools to match the configured whitelist', async () => {
+      const result = await service.reconcileWhitelistPools(1);
+
+      expect(result).toEqual({ updatedTokens: 3, repricedTokens: 3 });
+      expect(mockPoolModel.find).toHaveBeenCalledWith({
+        chainId: 1,
+        $or: [{ currency0: { $in: [weth] } }, { currency1: { $in: [weth] } }],
+      });
+      expect(mockTokenModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, address: '0xtoken' },
+        { $pull: { whitelistPools: { $in: ['0xstale'] } } },
+      );
+      expect(mockTokenModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, address: '0xdelisted' },
+        { $pull: { whitelistPools: { $in: ['0xpoolx'] } } },
+      );
+      expect(mockTokenModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, address: '0xnew' },
+        expect.objectContaining({
+          $addToSet: { whitelistPools: { $each: ['0xpoolb'] } },
+          $setOnInsert: expect.objectContaining({ symbol: 'UNKNOWN' }),
+        }),
+        { upsert: true },
+      );
+      expect(mockTokenModel.updateOne).not.toHaveBeenCalledWith({ chainId: 1, address: weth }, expect.anything());
+    });
+
+    it('should reprice the updated tokens, at 0 when no path is left', async () => {
+      await service.reconcileWhitelistPools(1);
+
+      expect(mockTokenModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, address: '0xtoken' },
+        { $set: { derivedBTC: toDecimal128('0.001'), pricePath: ['0xpoola'] } },
+      );
+      expect(mockTokenModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, address: '0xdelisted' },
+        { $set: { derivedBTC: toDecimal128('0'), pricePath: [] } },
+      );
+      expect(service['updateTokenTotalValueLocked']).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ address: '0xdelisted' }),
+        bd(2000),
+      );
+    });
+  });
+
+  describe('getSwapAmountsUSD', () => {
+    // $2 and $4 per token at a native price of $2000
+    const token0 = { address: '0xtoken0', decimals: 6, derivedBTC: '0.001' };
+    const token1 = { address: '0xtoken1', decimals: 18, derivedBTC: '0.002' };
+    const swap = { amount0: '-10000000', amount1: '6000000000000000000', fee: 3000 };
+
+    const amountsUSD = (whitelistTokens: string[]) =>
+      service['getSwapAmountsUSD'](swap as any, token0 as any, token1 as any, whitelistTokens, bd(2000));
+
+    it('should average both sides when both tokens are whitelisted', () => {
+      expect(amountsUSD(['0xtoken0', '0xtoken1'])).toEqual({
+        amountUSD: bd(22),
+        untrackedAmountUSD: bd(22),
+        feesUSD: bd('0.066'),
+      });
+    });
+
+    it('should only track the whitelisted side of a swap', () => {
+      const { amountUSD, untrackedAmountUSD, feesUSD } = amountsUSD(['0xtoken0']);
+
+      expect(amountUSD).toEqual(bd(20));
+      expect(untrackedAmountUSD).toEqual(bd(22));
+      expect(feesUSD).toEqual(bd('0.06'));
+    });
+
+    it('should leave swaps between non-whitelisted tokens untracked', () => {
+      expect(amountsUSD([])).toEqual({ amountUSD: bd(0), untrackedAmountUSD: bd(22), feesUSD: bd(0) });
+    });
+
+    it('should value tokens priced under a millionth of a dollar', () => {
+      // 1e-12 WETH, i.e. $2e-9, per token
+      const meme = { address: '0xmeme', decimals: 18, derivedBTC: '0.000000000001' };
+      const memeSwap = { amount0: '-1500000000000000000', amount1: '1', fee: 10000 };
+
+      const { untrackedAmountUSD } = service['getSwapAmountsUSD'](
+        memeSwap as any, meme as any, { ...token1, derivedBTC: '0' } as any, [], bd(2000),
+      );
+
+      expect(untrackedAmountUSD.toString()).toBe('0.0000000015');
+    });
+  });
+
+  describe('pool records', () => {
+    const pool = {
+      poolId: '0xpool1',
+      currency0: '0xtoken0',
+      currency1: '0xtoken1',
+      liquidity: '5000',
+      sqrtPriceX96: '79228162514264337593543950336',
+      tick: 0,
+      totalValueLockedToken0: '100',
+      totalValueLockedToken1: '200',
+    };
+    const swap = {
+      chainId: 1,
+      poolAddress: '0xpool1',
+      amount0: '-10',
+      amount1: '25',
+      token0Price: '2.5',
+      token1Price: '0.4',
+      blockTimestamp: new Date('2024-01-01T12:34:56Z'),
+    };
+    const amountsUSD = { amountUSD: bd(20), untrackedAmountUSD: bd(22), feesUSD: bd('0.06') };
+
+    // Result of the pool candle upsert: the stored record after the swap
+    const upserted = (updatedExisting: boolean) => ({
+      value: { toObject: () => ({ chainId: 1, poolId: '0xpool1', periodId: 473364, token0Close: '2.5', txCount: 4 }) },
+      lastErrorObject: { updatedExisting },
+    });
+
+    it('should upsert the pool candle with the swap prices and the pool state', async () => {
+      mockPoolHourModel.findOneAndUpdate.mockResolvedValue(upserted(true));
+
+      await service['updateOrCreateCurrentPoolRecord'](swap as any, pool as any, TimeInterval.HOUR, amountsUSD, bd(900));
+
+      expect(mockPoolHourModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { chainId: 1, poolId: '0xpool1', date: service['roundTimestamp'](swap.blockTimestamp, TimeInterval.HOUR) },
+        {
+          $inc: {
+            volumeToken0: toDecimal128(10),
+            volumeToken1: toDecimal128(25),
+            volumeUSD: toDecimal128('20'),
+            untrackedVolumeUSD: toDecimal128('22'),
+            feesUSD: toDecimal128('0.06'),
+            txCount: 1,
+          },
+          $max: { token0High: toDecimal128('2.5'), token1High: toDecimal128('0.4') },
+          $min: { token0Low: toDecimal128('2.5'), token1Low: toDecimal128('0.4') },
+          $set: {
+            token0Price: '2.5',
+            token1Price: '0.4',
+            token0Close: toDecimal128('2.5'),
+            token1Close: toDecimal128('0.4'),
+            liquidity: '5000',
+            sqrtPriceX96: pool.sqrtPriceX96,
+            tick: 0,
+            totalValueLockedToken0: '100',
+            totalValueLockedToken1: '200',
+            totalValueLockedUSD: '900',
+          },
+          $setOnInsert: {
+            periodId: 473364,
+            status: RecordStatus.CURRENT,
+            token0Open: toDecimal128('2.5'),
+            token1Open: toDecimal128('0.4'),
+          },
+        },
+        { upsert: true, new: true, includeResultMetadata: true },
+      );
+      expect(mockPoolHourModel.find).not.toHaveBeenCalled();
+    });
+
+    it('should emit the live state of the pool candle', async () => {
+      mockPoolHourModel.findOneAndUpdate.mockResolvedValue(upserted(true));
+
+      await service['updateOrCreateCurrentPoolRecord'](swap as any, pool as any, TimeInterval.HOUR, amountsUSD, bd(900));
+
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith('poolCandle.updated', expect.objectContaining({
+        chainId: 1,
+        interval: TimeInterval.HOUR,
+        poolId: '0xpool1',
+        periodId: 473364,
+        token0Close: '2.5',
+        txCount: 4,
+      }));
+    });
+
+    it('should finalize earlier pool candles when the upsert opens a new one', async () => {
+      mockPoolHourModel.findOneAndUpdate.mockResolvedValue(upserted(false));
+      mockPoolHourModel.exec.mockResolvedValue([]);
+
+      await service['updateOrCreateCurrentPoolRecord'](swap as any, pool as any, TimeInterval.HOUR, amountsUSD, bd(900));
+
+      expect(mockPoolHourModel.find).toHaveBeenCalledWith({
+        chainId: 1,
+        poolId: '0xpool1',
+        date: { $lt: service['roundTimestamp'](swap.blockTimestamp, TimeInterval.HOUR) },
+        status: RecordStatus.CURRENT,
+      });
+    });
+
+    it('should query pool data by lowercased pool ID', async () => {
+      mockPoolDayModel.exec.mockResolvedValue([]);
+
+      await service.getPoolData('0xPOOL1', TimeInterval.DAY);
+
+      expect(mockPoolDayModel.find).toHaveBeenCalledWith({ chainId: 1, poolId: '0xpool1' });
+      expect(mockPoolDayModel.sort).toHaveBeenCalledWith({ date: -1 });
+    });
+  });
+
+  describe('volume by hook', () => {
+    const hooked = '0x00000000000000000000000000000000000000c0';
+    const vanilla = '0x0000000000000000000000000000000000000000';
+
+    beforeEach(() => {
+      mockPoolModel.collection = { name: 'pools' };
+      mockPoolDayModel.aggregate = jest.fn().mockResolvedValue([
+        {
+          _id: hooked,
+          pools: 2,
+          dynamicFeePools: 1,
+          volumeUSD: toDecimal128('1500.5'),
+          untrackedVolumeUSD: toDecimal128('1600'),
+          feesUSD: toDecimal128('4.5'),
+          txCount: 30,
+        },
+        {
+          _id: vanilla,
+          pools: 5,
+          dynamicFeePools: 0,
+          volumeUSD: toDecimal128('900'),
+          untrackedVolumeUSD: toDecimal128('900'),
+          feesUSD: toDecimal128('2.7'),
+          txCount: 12,
+        },
+      ]);
+    });
+
+    it('should sum the pool candles of each hooks contract', async () => {
+      const startTime = new Date('2024-01-01T00:00:00Z');
+
+      const result = await service.getVolumeByHook(TimeInterval.DAY, startTime);
+
+      const pipeline = mockPoolDayModel.aggregate.mock.calls[0][0];
+      expect(pipeline[0]).toEqual({ $match: { chainId: 1, date: { $gte: startTime } } });
+      expect(pipeline).toContainEqual({ $lookup: { from: 'pools', localField: '_id', foreignField: 'poolId', as: 'pool' } });
+      expect(pipeline).toContainEqual({ $match: { 'pool.chainId': 1 } });
+      expect(result).toEqual([
+        {
+          address: hooked,
+          label: 'Swap hook',
+          hasHooks: true,
+          permissions: ['beforeSwap', 'afterSwap'],
+          pools: 2,
+          dynamicFeePools: 1,
+          volumeUSD: '1500.5',
+          untrackedVolumeUSD: '1600',
+          feesUSD: '4.5',
+          txCount: 30,
+        },
+        {
+          address: vanilla,
+          label: null,
+          hasHooks: false,
+          permissions: [],
+          pools: 5,
+          dynamicFeePools: 0,
+          volumeUSD: '900',
+          untrackedVolumeUSD: '900',
+          feesUSD: '2.7',
+          txCount: 12,
+        },
+      ]);
+    });
+
+    it('should read the candles of the requested interval', async () => {
+      mockPoolHourModel.aggregate = jest.fn().mockResolvedValue([]);
+
+      expect(await service.getVolumeByHook(TimeInterval.HOUR)).toEqual([]);
+      expect(mockPoolHourModel.aggregate).toHaveBeenCalled();
+      expect(mockPoolDayModel.aggregate).not.toHaveBeenCalled();
+    });
   });
 });
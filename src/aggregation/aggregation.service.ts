@@ -1,6 +1,6 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { OnEvent, EventEmitter2 } from '@nestjs/event-emitter';
 import { ethers } from 'ethers';
@@ -8,9 +8,21 @@ import { TokenMinute, TokenMinuteDocument, RecordStatus as MinuteStatus } from '
 import { TokenHour, TokenHourDocument } from './schemas/token-hour.schema';
 import { TokenDay, TokenDayDocument } from './schemas/token-day.schema';
 import { Token, TokenDocument } from './schemas/token.schema';
+import { PoolMinute, PoolMinuteDocument } from './schemas/pool-minute.schema';
+import { PoolHour, PoolHourDocument } from './schemas/pool-hour.schema';
+import { PoolDay, PoolDayDocument } from './schemas/pool-day.schema';
 import { Pool, PoolDocument } from '../swap-events/schemas/pool.schema';
 import { ConfigService } from '../config/config.service';
+import { ChainConfig } from '../config/chain-config.interface';
 import { SwapEvent, SwapEventDocument } from '../swap-events/schemas/swap-event.schema';
+import { LiquidityEventDocument } from '../swap-events/schemas/liquidity-event.schema';
+import { EVENT_SOURCES, EventSourcesByChain } from '../event-source/event-source.interface';
+import { decimal128ToString, decimalToBigInt, toDecimal128 } from './decimal128';
+import { BigDecimal } from './big-decimal';
+import { HookRegistryService } from '../hooks/hook-registry.service';
+import { HookVolume } from '../hooks/interfaces/hook-info.interface';
+import { DYNAMIC_FEE_FLAG } from '../hooks/hook-permissions';
+import { PoolCandle, TokenCandle } from '../swap-events/interfaces/candle.interface';
 
 // ERC20 ABI for decimals, symbol, and name
 const ERC20_ABI = [
@@ -21,8 +33,8 @@ const ERC20_ABI = [
 
 export const ZERO_BI = BigInt(0)
 export const ONE_BI = BigInt(1)
-export const ZERO_BD = 0
-export const ONE_BD = 1
+export const ZERO_BD = BigDecimal.ZERO
+export const ONE_BD = BigDecimal.ONE
 export const Q96 = BigInt(2) ** BigInt(96)
 
 export enum TimeInterval {
@@ -31,15 +43,86 @@ export enum TimeInterval {
   DAY = 'day',
 }
 
+// Length of each stored interval; periods are counted in UTC from the unix epoch
+export const PERIOD_SECONDS: Record<TimeInterval, number> = {
+  [TimeInterval.MINUTE]: 60,
+  [TimeInterval.HOUR]: 3600,
+  [TimeInterval.DAY]: 86400,
+};
+
+// Records read per query when migrating candles to UTC periods
+const UTC_MIGRATION_BATCH_SIZE = 1000;
+
+type CandleKeyField = 'tokenAddress' | 'poolId';
+
+// Swap fields a token or pool candle is rebuilt from; swaps indexed before they were stored lack them
+const SWAP_PRICE_FIELDS: Record<CandleKeyField, string[]> = {
+  tokenAddress: ['nativePriceUSD', 'token0DerivedBTC', 'token1DerivedBTC', 'amountUSD'],
+  poolId: ['token0Price', 'token1Price', 'amountUSD'],
+};
+
+// How local-time records moved whole into a UTC period combine with the records moved before them
+const UTC_MERGE_FIELDS: Record<CandleKeyField, Record<'sum' | 'max' | 'min' | 'first' | 'last', string[]>> = {
+  tokenAddress: {
+    sum: ['volume', 'volumeUSD', 'volumeBTC', 'untrackedVolumeUSD', 'feesUSD', 'txCount'],
+    max: ['high', 'highNative'],
+    min: ['low', 'lowNative'],
+    first: ['open', 'openNative'],
+    last: ['close', 'closeNative', 'priceUSD', 'priceNative', 'totalValueLocked', 'totalValueLockedUSD'],
+  },
+  poolId: {
+    sum: ['volumeToken0', 'volumeToken1', 'volumeUSD', 'untrackedVolumeUSD', 'feesUSD', 'txCount'],
+    max: ['token0High', 'token1High'],
+    min: ['token0Low', 'token1Low'],
+    first: ['token0Open', 'token1Open'],
+    last: [
+      'token0Close', 'token1Close', 'token0Price', 'token1Price', 'liquidity', 'sqrtPriceX96', 'tick',
+      'totalValueLockedToken0', 'totalValueLockedToken1', 'totalValueLockedUSD',
+    ],
+  },
+};
+
+/**
+ * Candle resolutions served by the API, each built from `baseBuckets` consecutive
+ * records of a stored interval. Resolutions of one bucket are read as stored.
+ */
+export const CANDLE_RESOLUTIONS: Record<string, { base: TimeInterval; baseBuckets: number }> = {
+  [TimeInterval.MINUTE]: { base: TimeInterval.MINUTE, baseBuckets: 1 },
+  '5m': { base: TimeInterval.MINUTE, baseBuckets: 5 },
+  '15m': { base: TimeInterval.MINUTE, baseBuckets: 15 },
+  '30m': { base: TimeInterval.MINUTE, baseBuckets: 30 },
+  [TimeInterval.HOUR]: { base: TimeInterval.HOUR, baseBuckets: 1 },
+  '4h': { base: TimeInterval.HOUR, baseBuckets: 4 },
+  [TimeInterval.DAY]: { base: TimeInterval.DAY, baseBuckets: 1 },
+  '1w': { base: TimeInterval.DAY, baseBuckets: 7 },
+  '1M': { base: TimeInterval.DAY, baseBuckets: 31 }, // at most 31 days
+};
+
+// Currency candle prices are quoted in
+export enum PriceQuote {
+  USD = 'usd',
+  NATIVE = 'native',
+}
+
 export enum RecordStatus {
   CURRENT = 'current',
   FINALIZED = 'finalized',
 }
 
+// USD values of a swap, shared by both of its tokens
+export interface SwapAmountsUSD {
+  // Volume counted only through whitelisted tokens
+  amountUSD: BigDecimal;
+  // Volume using every token's derived price
+  untrackedAmountUSD: BigDecimal;
+  feesUSD: BigDecimal;
+}
+
 @Injectable()
 export class AggregationService implements OnModuleInit {
   private readonly logger = new Logger(AggregationService.name);
-  private provider: ethers.JsonRpcProvider;
+  // Chains running a historical sync; their periods close on event time as the backfill moves on
+  private readonly syncingChains = new Set<number>();
 
   constructor(
     @InjectModel(TokenMinute.name)
@@ -50,40 +133,37 @@ export class AggregationService implements OnModuleInit {
     private tokenDayModel: Model<TokenDayDocument>,
     @InjectModel(Token.name)
     private tokenModel: Model<TokenDocument>,
+    @InjectModel(PoolMinute.name)
+    private poolMinuteModel: Model<PoolMinuteDocument>,
+    @InjectModel(PoolHour.name)
+    private poolHourModel: Model<PoolHourDocument>,
+    @InjectModel(PoolDay.name)
+    private poolDayModel: Model<PoolDayDocument>,
     @InjectModel(Pool.name)
     private poolModel: Model<PoolDocument>,
+    @InjectModel(SwapEvent.name)
+    private swapEventModel: Model<SwapEventDocument>,
     private eventEmitter: EventEmitter2,
     private configService: ConfigService,
+    private hookRegistryService: HookRegistryService,
+    @Inject(EVENT_SOURCES)
+    private eventSources: EventSourcesByChain,
   ) {}
 
   async onModuleInit() {
     this.logger.log('AggregationService initialized - listening for swap events');
-    await this.initializeProvider();
-  }
-
-  private async initializeProvider() {
-    try {
-      const rpcUrl = this.configService.ethRpcUrl;
-      // Use HTTP provider for read-only operations
-      const httpUrl = rpcUrl.replace('wss://', 'https://').replace('ws://', 'http://');
-      this.provider = new ethers.JsonRpcProvider(httpUrl);
-      this.logger.log('Aggregation service provider initialized');
-    } catch (error) {
-      this.logger.error('Failed to initialize provider for aggregation service', error);
-      throw error;
-    }
   }
 
   /**
    * Fetch token metadata from contract
    */
-  private async fetchTokenMetadata(tokenAddress: string): Promise<{
+  private async fetchTokenMetadata(chainId: number, tokenAddress: string): Promise<{
     decimals: number;
     symbol: string;
     name: string;
   }> {
     try {
-      if (tokenAddress === '0x0000000000000000000000000000000000000000' || tokenAddress === this.configService.wrappedNativeAddress) {
+      if (tokenAddress === '0x0000000000000000000000000000000000000000' || tokenAddress === this.configService.getChain(chainId)?.wrappedNativeAddress) {
         return {
           decimals: 18,
           symbol: 'ETH',
@@ -91,8 +171,8 @@ export class AggregationService implements OnModuleInit {
         };
       }
 
-      console.log('fetching token metadata for', tokenAddress);
-      const contract = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
+      this.logger.debug(`Fetching token metadata for ${tokenAddress} on chain ${chainId}`);
+      const contract = new ethers.Contract(tokenAddress, ERC20_ABI, this.eventSources.get(chainId).runner);
 
       const [decimals, symbol, name] = await Promise.all([
         contract.decimals(),
@@ -121,16 +201,17 @@ export class AggregationService implements OnModuleInit {
   /**
    * Get native (wrapped BTC/ETH) price in USD from stablecoin-wrapped native pool
    */
-  private async getNativePriceInUSD(): Promise<number> {
-    const poolId = this.configService.stablecoinWrappedNativePoolId;
-    const stablecoinIsToken0 = this.configService.stablecoinIsToken0;
+  private async getNativePriceInUSD(chainId: number): Promise<BigDecimal> {
+    const chain = this.configService.getChain(chainId);
+    const poolId = chain?.stablecoinWrappedNativePoolId;
+    const stablecoinIsToken0 = chain?.stablecoinIsToken0;
 
     if (!poolId) {
-      this.logger.warn('Stablecoin-wrapped native pool ID not configured');
+      this.logger.warn(`Stablecoin-wrapped native pool ID not configured for chain ${chainId}`);
       return ZERO_BD;
     }
 
-    const pool = await this.poolModel.findOne({ poolId });
+    const pool = await this.poolModel.findOne({ chainId, poolId });
     if (!pool) {
       this.logger.warn(`Stablecoin-wrapped native pool not found: ${poolId}`);
       return ZERO_BD;
@@ -140,13 +221,78 @@ export class AggregationService implements OnModuleInit {
     // token1Price is price of token1 in terms of token0
     // If stablecoin is token0, then token0Price gives us native price in USD
     // If stablecoin is token1, then token1Price gives us native price in USD
-    const nativePriceUSD = stablecoinIsToken0
-      ? parseFloat(pool.token0Price)
-      : parseFloat(pool.token1Price);
+    const nativePriceUSD = BigDecimal.from(stablecoinIsToken0 ? pool.token0Price : pool.token1Price);
+
+    return nativePriceUSD;
+  }
+
+  /**
+   * USD value of a pair of token amounts, using each token's last derived price.
+   * Tokens without a known price count as zero.
+   */
+  async getAmountUSD(
+    chainId: number,
+    token0Address: string,
+    amount0: string,
+    token1Address: string,
+    amount1: string,
+  ): Promise<BigDecimal> {
+    const [token0, token1] = await Promise.all([
+      this.tokenModel.findOne({ chainId, address: token0Address.toLowerCase() }),
+      this.tokenModel.findOne({ chainId, address: token1Address.toLowerCase() }),
+    ]);
+    if (!token0 && !token1) {
+      return ZERO_BD;
+    }
+
+    const nativePriceUSD = await this.getNativePriceInUSD(chainId);
+    const valueUSD = (token: TokenDocument | null, amount: string) =>
+      token ? this.getTokenAmountUSD(token, amount, nativePriceUSD) : ZERO_BD;
+
+    return valueUSD(token0, amount0).plus(valueUSD(token1, amount1));
+  }
+
+  /**
+   * USD value of a raw token amount (sign ignored) at the token's derived price
+   */
+  private getTokenAmountUSD(token: Token, amount: string, nativePriceUSD: BigDecimal): BigDecimal {
+    return BigDecimal.fromRaw(this.abs(amount), token.decimals).times(BigDecimal.from(token.derivedBTC)).times(nativePriceUSD);
+  }
 
-    console.log('nativePriceUSD', nativePriceUSD);
+  /**
+   * Value a swap in USD the way the Uniswap subgraph does: tracked volume only counts
+   * whitelisted tokens (doubling a single whitelisted side), untracked volume counts
+   * both sides at their derived prices. Both are halved since a swap moves the same
+   * value in and out. Token prices are taken from before the swap.
+   */
+  private getSwapAmountsUSD(
+    swap: SwapEventDocument,
+    token0: Token,
+    token1: Token,
+    whitelistTokens: string[],
+    nativePriceUSD: BigDecimal,
+  ): SwapAmountsUSD {
+    const amount0USD = this.getTokenAmountUSD(token0, swap.amount0, nativePriceUSD);
+    const amount1USD = this.getTokenAmountUSD(token1, swap.amount1, nativePriceUSD);
+    const isToken0Whitelisted = whitelistTokens.includes(token0.address);
+    const isToken1Whitelisted = whitelistTokens.includes(token1.address);
+
+    let trackedAmountUSD = ZERO_BD;
+    if (isToken0Whitelisted && isToken1Whitelisted) {
+      trackedAmountUSD = amount0USD.plus(amount1USD);
+    } else if (isToken0Whitelisted) {
+      trackedAmountUSD = amount0USD.times(2);
+    } else if (isToken1Whitelisted) {
+      trackedAmountUSD = amount1USD.times(2);
+    }
 
-    return nativePriceUSD || ZERO_BD;
+    const amountUSD = trackedAmountUSD.div(2);
+    return {
+      amountUSD,
+      untrackedAmountUSD: amount0USD.plus(amount1USD).div(2),
+      // The LP fee is in hundredths of a bip (1e6 = 100%)
+      feesUSD: amountUSD.times(swap.fee).div(1000000),
+    };
   }
 
   /**
@@ -158,49 +304,52 @@ export class AggregationService implements OnModuleInit {
   }
 
   /**
-   * Convert raw token amount to decimal value using token decimals
+   * Index of the UTC period containing the date, counted from the unix epoch
+   * (the subgraph's minute index, hourIndex and dayID)
    */
-  private toDecimal(amount: string, decimals: number): number {
-    const value = BigInt(amount);
-    const divisor = BigInt(10) ** BigInt(decimals);
-    // Convert to float by dividing and using remainder for precision
-    const whole = Number(value / divisor);
-    const remainder = Number(value % divisor);
-    return whole + remainder / Number(divisor);
+  private getPeriodId(date: Date, interval: TimeInterval): number {
+    return Math.floor(date.getTime() / 1000 / PERIOD_SECONDS[interval]);
+  }
+
+  /**
+   * Start of the UTC period with the given ID
+   */
+  private getPeriodStart(periodId: number, interval: TimeInterval): Date {
+    return new Date(periodId * PERIOD_SECONDS[interval] * 1000);
   }
 
   /**
    * Round timestamp to period start
    */
   private roundTimestamp(date: Date, interval: TimeInterval): Date {
-    const timestamp = new Date(date);
+    return this.getPeriodStart(this.getPeriodId(date, interval), interval);
+  }
 
+  /**
+   * Get model by interval
+   */
+  private getModelByInterval(interval: TimeInterval) {
     switch (interval) {
       case TimeInterval.MINUTE:
-        timestamp.setSeconds(0, 0);
-        break;
+        return this.tokenMinuteModel;
       case TimeInterval.HOUR:
-        timestamp.setMinutes(0, 0, 0);
-        break;
+        return this.tokenHourModel;
       case TimeInterval.DAY:
-        timestamp.setHours(0, 0, 0, 0);
-        break;
+        return this.tokenDayModel;
     }
-
-    return timestamp;
   }
 
   /**
-   * Get model by interval
+   * Get pool model by interval
    */
-  private getModelByInterval(interval: TimeInterval) {
+  private getPoolModelByInterval(interval: TimeInterval) {
     switch (interval) {
       case TimeInterval.MINUTE:
-        return this.tokenMinuteModel;
+        return this.poolMinuteModel;
       case TimeInterval.HOUR:
-        return this.tokenHourModel;
+        return this.poolHourModel;
       case TimeInterval.DAY:
-        return this.tokenDayModel;
+        return this.poolDayModel;
     }
   }
 
@@ -210,14 +359,37 @@ export class AggregationService implements OnModuleInit {
    */
   async processSwapEvent(swap: SwapEventDocument) {
     try {
+      const { chainId } = swap;
+      const chain = this.configService.getChain(chainId);
+
+      const token0 = await this.getOrCreateToken(chainId, swap.token0Address);
+      const token1 = await this.getOrCreateToken(chainId, swap.token1Address);
+      const nativePriceUSD = await this.getNativePriceInUSD(chainId);
+      const amountsUSD = this.getSwapAmountsUSD(swap, token0, token1, chain.whitelistTokens, nativePriceUSD);
+
+      // Backfill the USD values into the stored swap (and the document handed back to the caller)
+      swap.amountUSD = amountsUSD.amountUSD.toString();
+      swap.untrackedAmountUSD = amountsUSD.untrackedAmountUSD.toString();
+      swap.feesUSD = amountsUSD.feesUSD.toString();
+      swap.nativePriceUSD = nativePriceUSD.toString();
+      await this.swapEventModel.updateOne(
+        { _id: swap._id },
+        {
+          $set: {
+            amountUSD: swap.amountUSD,
+            untrackedAmountUSD: swap.untrackedAmountUSD,
+            feesUSD: swap.feesUSD,
+            nativePriceUSD: swap.nativePriceUSD,
+          },
+        },
+      );
+
       // Update current records for both tokens
-      // await Promise.all([
-      //   this.updateCurrentRecord(swap, swap.token0Address, true),
-      //   this.updateCurrentRecord(swap, swap.token1Address, false),
-      // ]);
+      await this.updateCurrentRecord(swap, token0, true, amountsUSD, nativePriceUSD);
+      await this.updateCurrentRecord(swap, token1, false, amountsUSD, nativePriceUSD);
 
-      await this.updateCurrentRecord(swap, swap.token0Address, true);
-      await this.updateCurrentRecord(swap, swap.token1Address, false);
+      // Update the pool's records once token prices include this swap
+      await this.updateCurrentPoolRecords(swap, amountsUSD);
     } catch (error) {
       this.logger.error('Error handling swap event for aggregation', error);
     }
@@ -227,32 +399,12 @@ export class AggregationService implements OnModuleInit {
    * Update token whitelist with a new pool
    * Called directly by SwapEventsService
    */
-  async processTokenWhitelistUpdate(data: { tokenAddress: string; poolId: string }) {
+  async processTokenWhitelistUpdate(data: { chainId: number; tokenAddress: string; poolId: string }) {
     try {
-      const { tokenAddress, poolId } = data;
+      const { chainId, poolId } = data;
+      const tokenAddress = data.tokenAddress.toLowerCase();
 
-      // Update token's whitelist pools (create with defaults if doesn't exist)
-      await this.tokenModel.updateOne(
-        { address: tokenAddress },
-        {
-          $addToSet: { whitelistPools: poolId },
-          $setOnInsert: {
-            address: tokenAddress,
-            decimals: 18, // default, will be updated on first swap
-            symbol: 'UNKNOWN',
-            name: 'Unknown Token',
-            volume: '0',
-            volumeUSD: '0',
-            untrackedVolumeUSD: '0',
-            feesUSD: '0',
-            txCount: 0,
-            totalValueLocked: '0',
-            totalValueLockedUSD: '0',
-            derivedBTC: '0',
-          }
-        },
-        { upsert: true },
-      );
+      await this.addWhitelistPools(chainId, tokenAddress, [poolId.toLowerCase()]);
 
       this.logger.log(`Updated whitelist for token ${tokenAddress} with pool ${poolId}`);
     } catch (error) {
@@ -261,22 +413,141 @@ export class AggregationService implements OnModuleInit {
   }
 
   /**
-   * Update current period records for a token when a swap occurs
+   * Recompute every token's whitelist pools from the Pool collection under the
+   * chain's configured whitelist, then reprice the tokens whose pools changed.
+   * Tokens left without a qualifying price path are priced at 0.
    */
-  private async updateCurrentRecord(
-    swap: SwapEventDocument,
-    tokenAddress: string,
-    isToken0: boolean,
-  ) {
+  async reconcileWhitelistPools(chainId: number): Promise<{ updatedTokens: number; repricedTokens: number }> {
+    const chain = this.configService.getChain(chainId);
+    const whitelist = chain.whitelistTokens;
+
+    // Each token's expected pools: those pairing it with a whitelisted token
+    const expected = new Map<string, Set<string>>();
+    const addExpected = (tokenAddress: string, poolId: string) => {
+      if (!expected.has(tokenAddress)) {
+        expected.set(tokenAddress, new Set());
+      }
+      expected.get(tokenAddress).add(poolId);
+    };
+
+    const pools = await this.poolModel
+      .find({ chainId, $or: [{ currency0: { $in: whitelist } }, { currency1: { $in: whitelist } }] })
+      .select({ poolId: 1, currency0: 1, currency1: 1 })
+      .lean()
+      .exec();
+    for (const pool of pools) {
+      if (whitelist.includes(pool.currency0)) {
+        addExpected(pool.currency1, pool.poolId);
+      }
+      if (whitelist.includes(pool.currency1)) {
+        addExpected(pool.currency0, pool.poolId);
+      }
+    }
+
+    const tokens = await this.tokenModel
+      .find({
+        chainId,
+        $or: [{ address: { $in: [...expected.keys()] } }, { 'whitelistPools.0': { $exists: true } }],
+      })
+      .select({ address: 1, whitelistPools: 1 })
+      .lean()
+      .exec();
+    const current = new Map(tokens.map((token) => [token.address, token.whitelistPools || []]));
+
+    const changed: string[] = [];
+    for (const tokenAddress of new Set([...expected.keys(), ...current.keys()])) {
+      const expectedPools = expected.get(tokenAddress) || new Set<string>();
+      const currentPools = current.get(tokenAddress) || [];
+      const added = [...expectedPools].filter((poolId) => !currentPools.includes(poolId));
+      const removed = currentPools.filter((poolId) => !expectedPools.has(poolId));
+
+      // Pools are added and removed rather than replaced, so a pool initialized meanwhile is kept
+      if (removed.length > 0) {
+        await this.tokenModel.updateOne(
+          { chainId, address: tokenAddress },
+          { $pull: { whitelistPools: { $in: removed } } },
+        );
+      }
+      if (added.length > 0) {
+        await this.addWhitelistPools(chainId, tokenAddress, added);
+      }
+      if (added.length > 0 || removed.length > 0) {
+        changed.push(tokenAddress);
+      }
+    }
+
+    // Reprice after every token's pools are final, since paths cross other tokens' pools
+    const nativePriceUSD = await this.getNativePriceInUSD(chainId);
+    let repricedTokens = 0;
+    for (const tokenAddress of changed) {
+      const token = await this.tokenModel.findOne({ chainId, address: tokenAddress });
+      if (!token) {
+        continue;
+      }
+
+      const nativePrice = await this.findNativePerToken(token, chain);
+      await this.tokenModel.updateOne(
+        { chainId, address: tokenAddress },
+        {
+          $set: {
+            derivedBTC: toDecimal128(nativePrice ? nativePrice.derivedBTC : ZERO_BD),
+            pricePath: nativePrice ? nativePrice.pricePath : [],
+          },
+        },
+      );
+      await this.updateTokenTotalValueLocked(chainId, token, nativePriceUSD);
+      repricedTokens++;
+    }
+
+    this.logger.log(
+      `Reconciled whitelist pools of chain ${chainId}: ${changed.length} tokens updated, ${repricedTokens} repriced`,
+    );
+
+    return { updatedTokens: changed.length, repricedTokens };
+  }
+
+  /**
+   * Add pools to a token's whitelist pools, creating the token with defaults if it doesn't exist
+   */
+  private async addWhitelistPools(chainId: number, tokenAddress: string, poolIds: string[]) {
+    await this.tokenModel.updateOne(
+      { chainId, address: tokenAddress },
+      {
+        $addToSet: { whitelistPools: { $each: poolIds } },
+        $setOnInsert: {
+          chainId,
+          address: tokenAddress,
+          decimals: 18, // default, will be updated on first swap
+          symbol: 'UNKNOWN',
+          name: 'Unknown Token',
+          volume: '0',
+          volumeUSD: '0',
+          untrackedVolumeUSD: '0',
+          feesUSD: '0',
+          txCount: 0,
+          totalValueLocked: '0',
+          totalValueLockedUSD: '0',
+          derivedBTC: '0',
+        }
+      },
+      { upsert: true },
+    );
+  }
+
+  /**
+   * Get a token, creating it from its contract metadata on first sight
+   */
+  private async getOrCreateToken(chainId: number, tokenAddress: string): Promise<TokenDocument> {
     // Get or create token
-    let token = await this.tokenModel.findOne({ address: tokenAddress });
+    let token = await this.tokenModel.findOne({ chainId, address: tokenAddress });
     if (!token) {
       // Fetch token metadata from contract
-      const metadata = await this.fetchTokenMetadata(tokenAddress);
+      const metadata = await this.fetchTokenMetadata(chainId, tokenAddress);
 
       // Try to create token (might already exist from whitelist update)
       try {
         token = await this.tokenModel.create({
+          chainId,
           address: tokenAddress,
           decimals: metadata.decimals,
           symbol: metadata.symbol,
@@ -294,7 +565,7 @@ export class AggregationService implements OnModuleInit {
       } catch (error) {
         // Token already exists (created by whitelist update), fetch it
         if (error.code === 11000) {
-          token = await this.tokenModel.findOne({ address: tokenAddress });
+          token = await this.tokenModel.findOne({ chainId, address: tokenAddress });
         } else {
           throw error;
         }
@@ -303,9 +574,9 @@ export class AggregationService implements OnModuleInit {
 
     // Update metadata if token has default/unknown values
     if (token && token.symbol === 'UNKNOWN') {
-      const metadata = await this.fetchTokenMetadata(tokenAddress);
+      const metadata = await this.fetchTokenMetadata(chainId, tokenAddress);
       await this.tokenModel.updateOne(
-        { address: tokenAddress },
+        { chainId, address: tokenAddress },
         {
           $set: {
             decimals: metadata.decimals,
@@ -320,75 +591,108 @@ export class AggregationService implements OnModuleInit {
       token.name = metadata.name;
     }
 
+    return token;
+  }
+
+  /**
+   * Update current period records for a token when a swap occurs
+   */
+  private async updateCurrentRecord(
+    swap: SwapEventDocument,
+    token: TokenDocument,
+    isToken0: boolean,
+    amountsUSD: SwapAmountsUSD,
+    nativePriceUSD: BigDecimal,
+  ) {
+    const { chainId } = swap;
+    const chain = this.configService.getChain(chainId);
+    const tokenAddress = token.address;
+    const { amountUSD, untrackedAmountUSD, feesUSD } = amountsUSD;
+
     // Get amount for this token
     const amount = isToken0 ? swap.amount0 : swap.amount1;
     const absAmountBigInt = this.abs(amount);
 
-    // Calculate USD values
-    const amountUSD = 0;
+    // derived BTC, keeping the last price when no path qualifies
+    const nativePrice = await this.findNativePerToken(token, chain);
+    const derivedBTC = nativePrice ? nativePrice.derivedBTC : BigDecimal.from(token.derivedBTC);
 
-    // Calculate fees
-    const feePercentage = swap.fee / 10000;
-    const feesUSD = amountUSD * feePercentage;
+    const priceUSD = derivedBTC.times(nativePriceUSD);
 
-    // Calculate TVL delta
-    const newTVL = 0n;
-    const newTVLUSD = 0;
-
-    // derived BTC
-    const derivedBTC = await this.findNativePerToken(token, this.configService.wrappedNativeAddress, this.configService.stablecoinAddresses, ZERO_BI);
+    // Keep the price on the swap so candles can be rebuilt from swaps after a reorg
+    await this.swapEventModel.updateOne(
+      { _id: swap._id },
+      { $set: { [isToken0 ? 'token0DerivedBTC' : 'token1DerivedBTC']: derivedBTC.toString() } },
+    );
 
-    // Update cumulative token values
-    await this.tokenModel.updateOne(
-      { address: tokenAddress },
-      {
-        $inc: {
-          txCount: 1,
-        },
-        $set: {
-          volume: (BigInt(token.volume) + absAmountBigInt).toString(),
-          volumeUSD: (parseFloat(token.volumeUSD) + amountUSD).toFixed(6),
-          untrackedVolumeUSD: (parseFloat(token.untrackedVolumeUSD) + amountUSD).toFixed(6),
-          feesUSD: (parseFloat(token.feesUSD) + feesUSD).toFixed(6),
-          // totalValueLocked: newTVL.toString(),
-          // totalValueLockedUSD: newTVLUSD.toFixed(6),
-          derivedBTC: derivedBTC.toFixed(18),
+    // Update cumulative token values and move the TVL by the swap's pool delta (the negated
+    // swapper delta, like the pool balances), added in place so concurrent updates of the
+    // token all count, then value the TVL at the new price
+    const add = (field: string, delta: string | bigint | BigDecimal) =>
+      ({ $add: [`$${field}`, toDecimal128(delta)] });
+    const updatedToken = await this.tokenModel.findOneAndUpdate(
+      { chainId, address: tokenAddress },
+      [
+        {
+          $set: {
+            volume: add('volume', absAmountBigInt),
+            volumeUSD: add('volumeUSD', amountUSD),
+            untrackedVolumeUSD: add('untrackedVolumeUSD', untrackedAmountUSD),
+            feesUSD: add('feesUSD', feesUSD),
+            txCount: { $add: ['$txCount', 1] },
+            totalValueLocked: add('totalValueLocked', -BigInt(amount)),
+            derivedBTC: toDecimal128(derivedBTC),
+            ...(nativePrice && { pricePath: { $literal: nativePrice.pricePath } }),
+          },
         },
-      },
+        { $set: { totalValueLockedUSD: this.valueTotalValueLocked(token.decimals, toDecimal128(priceUSD)) } },
+      ],
+      { new: true, updatePipeline: true },
     );
+    const newTVL = decimalToBigInt(updatedToken.totalValueLocked);
+    const newTVLUSD = BigDecimal.from(updatedToken.totalValueLockedUSD);
 
     // Update minute, hour, and day records
     await Promise.all([
       this.updateOrCreateCurrentRecord(
+        chainId,
         tokenAddress,
         TimeInterval.MINUTE,
         swap.blockTimestamp,
         absAmountBigInt,
         amountUSD,
+        untrackedAmountUSD,
         feesUSD,
         derivedBTC,
+        priceUSD,
         newTVL,
         newTVLUSD,
       ),
       this.updateOrCreateCurrentRecord(
+        chainId,
         tokenAddress,
         TimeInterval.HOUR,
         swap.blockTimestamp,
         absAmountBigInt,
         amountUSD,
+        untrackedAmountUSD,
         feesUSD,
         derivedBTC,
+        priceUSD,
         newTVL,
         newTVLUSD,
       ),
       this.updateOrCreateCurrentRecord(
+        chainId,
         tokenAddress,
         TimeInterval.DAY,
         swap.blockTimestamp,
         absAmountBigInt,
         amountUSD,
+        untrackedAmountUSD,
         feesUSD,
         derivedBTC,
+        priceUSD,
         newTVL,
         newTVLUSD,
       ),
@@ -399,205 +703,1507 @@ export class AggregationService implements OnModuleInit {
    * Update or create current record for a specific interval
    */
   private async updateOrCreateCurrentRecord(
+    chainId: number,
     tokenAddress: string,
     interval: TimeInterval,
     timestamp: Date,
     volumeDelta: bigint,
-    volumeUSDDelta: number,
-    feesDelta: number,
-    currentPrice: number,
+    volumeUSDDelta: BigDecimal,
+    untrackedVolumeUSDDelta: BigDecimal,
+    feesDelta: BigDecimal,
+    priceNative: BigDecimal,
+    priceUSD: BigDecimal,
     totalValueLocked: bigint,
-    totalValueLockedUSD: number,
+    totalValueLockedUSD: BigDecimal,
   ) {
     const date = this.roundTimestamp(timestamp, interval);
     const model = this.getModelByInterval(interval) as Model<any>;
 
-    // Find current record or create new one
-    const existingRecord = await model.findOne({
+    // One atomic upsert: sums are incremented, the high and low only move outwards
+    // and the open is written by whichever swap creates the record
+    const result = await model.findOneAndUpdate(
+      { chainId, tokenAddress, date },
+      {
+        $inc: {
+          volume: toDecimal128(volumeDelta),
+          volumeUSD: toDecimal128(volumeUSDDelta),
+          untrackedVolumeUSD: toDecimal128(untrackedVolumeUSDDelta),
+          feesUSD: toDecimal128(feesDelta),
+          txCount: 1,
+        },
+        $max: {
+          high: toDecimal128(priceUSD),
+          highNative: toDecimal128(priceNative),
+        },
+        $min: {
+          low: toDecimal128(priceUSD),
+          lowNative: toDecimal128(priceNative),
+        },
+        $set: {
+          totalValueLocked: toDecimal128(totalValueLocked),
+          totalValueLockedUSD: toDecimal128(totalValueLockedUSD),
+          priceUSD: toDecimal128(priceUSD),
+          close: toDecimal128(priceUSD),
+          priceNative: toDecimal128(priceNative),
+          closeNative: toDecimal128(priceNative),
+        },
+        $setOnInsert: {
+          periodId: this.getPeriodId(date, interval),
+          status: RecordStatus.CURRENT,
+          open: toDecimal128(priceUSD),
+          openNative: toDecimal128(priceNative),
+        },
+      },
+      { upsert: true, new: true, includeResultMetadata: true },
+    );
+
+    await this.publishCurrentRecord(chainId, tokenAddress, interval, date, result);
+  }
+
+  /**
+   * Follow up on an upsert of a token's current record: when it created the record,
+   * close the token's earlier periods, then emit the record's live state (the
+   * gateway throttles these per candle)
+   */
+  private async publishCurrentRecord(
+    chainId: number,
+    tokenAddress: string,
+    interval: TimeInterval,
+    date: Date,
+    result: { value: any; lastErrorObject?: { updatedExisting?: boolean } },
+  ) {
+    if (!result.lastErrorObject?.updatedExisting) {
+      await this.finalizeEarlierRecords(chainId, tokenAddress, interval, date);
+    }
+
+    const record = result.value.toObject();
+    const candle: TokenCandle = {
+      chainId,
+      interval,
       tokenAddress,
       date,
-      status: RecordStatus.CURRENT,
-    });
+      periodId: record.periodId,
+      status: record.status,
+      volume: record.volume,
+      volumeUSD: record.volumeUSD,
+      untrackedVolumeUSD: record.untrackedVolumeUSD,
+      feesUSD: record.feesUSD,
+      totalValueLocked: record.totalValueLocked,
+      totalValueLockedUSD: record.totalValueLockedUSD,
+      priceUSD: record.priceUSD,
+      open: record.open,
+      high: record.high,
+      low: record.low,
+      close: record.close,
+      priceNative: record.priceNative,
+      openNative: record.openNative,
+      highNative: record.highNative,
+      lowNative: record.lowNative,
+      closeNative: record.closeNative,
+      txCount: record.txCount,
+    };
+    this.eventEmitter.emit('candle.updated', candle);
+  }
 
-    if (existingRecord) {
-      // Update existing record
-      const newVolume = BigInt(existingRecord.volume) + volumeDelta;
-      const newVolumeUSD = parseFloat(existingRecord.volumeUSD) + volumeUSDDelta;
-      const newUntrackedVolumeUSD = parseFloat(existingRecord.untrackedVolumeUSD) + volumeUSDDelta;
-      const newFeesUSD = parseFloat(existingRecord.feesUSD) + feesDelta;
-      const newTxCount = existingRecord.txCount + 1;
-
-      // Update OHLC
-      const open = existingRecord.open !== '0' ? parseFloat(existingRecord.open) : currentPrice;
-      const high = Math.max(parseFloat(existingRecord.high), currentPrice);
-      const low = existingRecord.low !== '0'
-        ? Math.min(parseFloat(existingRecord.low), currentPrice)
-        : currentPrice;
-      const close = currentPrice;
-
-      await model.updateOne(
-        { _id: existingRecord._id },
-        {
-          $set: {
-            volume: newVolume.toString(),
-            volumeUSD: newVolumeUSD.toFixed(6),
-            untrackedVolumeUSD: newUntrackedVolumeUSD.toFixed(6),
-            feesUSD: newFeesUSD.toFixed(6),
-            totalValueLocked: totalValueLocked.toString(),
-            totalValueLockedUSD: totalValueLockedUSD.toFixed(6),
-            priceUSD: currentPrice.toFixed(6),
-            open: open.toFixed(6),
-            high: high.toFixed(6),
-            low: low.toFixed(6),
-            close: close.toFixed(6),
-            txCount: newTxCount,
+  /**
+   * A token's TVL: its balance summed over every pool of the chain
+   */
+  private async getTokenTotalValueLocked(chainId: number, tokenAddress: string): Promise<bigint> {
+    const [result] = await this.poolModel.aggregate([
+      { $match: { chainId, $or: [{ currency0: tokenAddress }, { currency1: tokenAddress }] } },
+      {
+        $group: {
+          _id: null,
+          total: {
+            $sum: {
+              $toDecimal: {
+                $cond: [{ $eq: ['$currency0', tokenAddress] }, '$totalValueLockedToken0', '$totalValueLockedToken1'],
+              },
+            },
           },
         },
-      );
-    } else {
-      // Create new current record
-      await model.create({
-        tokenAddress,
-        date,
-        status: RecordStatus.CURRENT,
-        volume: volumeDelta.toString(),
-        volumeUSD: volumeUSDDelta.toFixed(6),
-        untrackedVolumeUSD: volumeUSDDelta.toFixed(6),
-        feesUSD: feesDelta.toFixed(6),
-        totalValueLocked: totalValueLocked.toString(),
-        totalValueLockedUSD: totalValueLockedUSD.toFixed(6),
-        priceUSD: currentPrice.toFixed(6),
-        open: currentPrice.toFixed(6),
-        high: currentPrice.toFixed(6),
-        low: currentPrice.toFixed(6),
-        close: currentPrice.toFixed(6),
-        txCount: 1,
-      });
-    }
+      },
+    ]);
+
+    return result ? decimalToBigInt(result.total.toString()) : ZERO_BI;
   }
 
   /**
-   * Finalize current minute records and create new ones
+   * Recompute a token's TVL from the pools and store it, valued at the token's
+   * last derived price
    */
-  @Cron(CronExpression.EVERY_MINUTE)
-  async finalizeMinuteRecords() {
-    await this.finalizeRecords(TimeInterval.MINUTE);
+  private async updateTokenTotalValueLocked(chainId: number, token: TokenDocument, nativePriceUSD: BigDecimal) {
+    const totalValueLocked = await this.getTokenTotalValueLocked(chainId, token.address);
+    return this.setTokenTotalValueLocked(chainId, token, toDecimal128(totalValueLocked), nativePriceUSD);
   }
 
   /**
-   * Finalize current hour records and create new ones
+   * Move a token's TVL by a signed raw amount, the change of its pools' balances
    */
-  @Cron(CronExpression.EVERY_HOUR)
-  async finalizeHourRecords() {
-    await this.finalizeRecords(TimeInterval.HOUR);
+  private async addTokenTotalValueLocked(chainId: number, token: TokenDocument, delta: bigint, nativePriceUSD: BigDecimal) {
+    return this.setTokenTotalValueLocked(
+      chainId,
+      token,
+      { $add: ['$totalValueLocked', toDecimal128(delta)] },
+      nativePriceUSD,
+    );
   }
 
   /**
-   * Finalize current day records and create new ones
+   * Store a token's TVL and value it at the token's stored derived price, in one
+   * atomic update so a concurrent repricing can't leave the two out of step
    */
-  @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT)
-  async finalizeDayRecords() {
-    await this.finalizeRecords(TimeInterval.DAY);
+  private async setTokenTotalValueLocked(
+    chainId: number,
+    token: TokenDocument,
+    totalValueLocked: Types.Decimal128 | Record<string, any>,
+    nativePriceUSD: BigDecimal,
+  ) {
+    const updated = await this.tokenModel.findOneAndUpdate(
+      { chainId, address: token.address },
+      [
+        { $set: { totalValueLocked } },
+        {
+          $set: {
+            totalValueLockedUSD: this.valueTotalValueLocked(
+              token.decimals,
+              { $multiply: ['$derivedBTC', toDecimal128(nativePriceUSD)] },
+            ),
+          },
+        },
+      ],
+      { new: true, updatePipeline: true },
+    );
+
+    const priceNative = BigDecimal.from(updated.derivedBTC);
+    return {
+      priceNative,
+      priceUSD: priceNative.times(nativePriceUSD),
+      totalValueLocked: decimalToBigInt(updated.totalValueLocked),
+      totalValueLockedUSD: BigDecimal.from(updated.totalValueLockedUSD),
+    };
   }
 
   /**
-   * Finalize all current records for an interval
+   * Pipeline expression of a token's stored TVL, in raw units, valued at a USD price
    */
-  private async finalizeRecords(interval: TimeInterval) {
-    try {
-      const model = this.getModelByInterval(interval) as Model<any>;
-
-      // Get the timestamp for the period that just ended
-      const now = new Date();
-      const previousPeriod = this.getPreviousPeriod(now, interval);
-      const previousPeriodDate = this.roundTimestamp(previousPeriod, interval);
-
-      // Get all current records for the previous period before finalizing
-      const recordsToFinalize = await model.find({
-        date: previousPeriodDate,
-        status: RecordStatus.CURRENT,
-      }).exec();
-
-      // Finalize all current records for the previous period
-      const result = await model.updateMany(
-        {
-          date: previousPeriodDate,
-          status: RecordStatus.CURRENT,
-        },
-        {
-          $set: { status: RecordStatus.FINALIZED },
-        },
-      );
+  private valueTotalValueLocked(decimals: number, priceUSD: Types.Decimal128 | Record<string, any>) {
+    return { $multiply: [{ $divide: ['$totalValueLocked', toDecimal128(10n ** BigInt(decimals))] }, priceUSD] };
+  }
 
-      this.logger.log(
-        `Finalized ${result.modifiedCount} ${interval} records for ${previousPeriodDate.toISOString()}`,
-      );
+  /**
+   * Update the TVL of a liquidity event's tokens: their totals and, for tokens with
+   * a price, the current minute/hour/day records of the event's time
+   */
+  async processLiquidityEvent(liquidityEvent: LiquidityEventDocument) {
+    try {
+      const { chainId } = liquidityEvent;
+      const nativePriceUSD = await this.getNativePriceInUSD(chainId);
+
+      const deltas = [
+        { tokenAddress: liquidityEvent.token0Address, delta: BigInt(liquidityEvent.amount0) },
+        { tokenAddress: liquidityEvent.token1Address, delta: BigInt(liquidityEvent.amount1) },
+      ];
+      for (const { tokenAddress, delta } of deltas) {
+        const token = await this.getOrCreateToken(chainId, tokenAddress);
+        const tvl = await this.addTokenTotalValueLocked(chainId, token, delta, nativePriceUSD);
+        if (tvl.priceNative.isZero()) {
+          continue;
+        }
 
-      // Emit WebSocket events for each finalized candle
-      for (const record of recordsToFinalize) {
-        this.eventEmitter.emit('candle.finalized', {
-          interval,
-          tokenAddress: record.tokenAddress,
-          date: record.date,
-          volume: record.volume,
-          volumeUSD: record.volumeUSD,
-          untrackedVolumeUSD: record.untrackedVolumeUSD,
-          totalValueLocked: record.totalValueLocked,
-          totalValueLockedUSD: record.totalValueLockedUSD,
-          priceUSD: record.priceUSD,
-          feesUSD: record.feesUSD,
-          open: record.open,
-          high: record.high,
-          low: record.low,
-          close: record.close,
-          txCount: record.txCount,
-        });
+        for (const interval of Object.values(TimeInterval)) {
+          await this.snapshotCurrentRecord(chainId, token.address, interval, liquidityEvent.blockTimestamp, tvl);
+        }
       }
     } catch (error) {
-      this.logger.error(`Error finalizing ${interval} records`, error);
+      this.logger.error('Error handling liquidity event for aggregation', error);
     }
   }
 
   /**
-   * Get the previous period timestamp
+   * Recompute the stored TVL of tokens whose pools were restored after a reorg
    */
-  private getPreviousPeriod(date: Date, interval: TimeInterval): Date {
-    const previous = new Date(date);
+  async refreshTokenTotalValueLocked(chainId: number, tokenAddresses: string[]) {
+    const nativePriceUSD = await this.getNativePriceInUSD(chainId);
 
-    switch (interval) {
-      case TimeInterval.MINUTE:
-        previous.setMinutes(previous.getMinutes() - 1);
-        break;
-      case TimeInterval.HOUR:
-        previous.setHours(previous.getHours() - 1);
-        break;
-      case TimeInterval.DAY:
-        previous.setDate(previous.getDate() - 1);
-        break;
+    for (const tokenAddress of tokenAddresses) {
+      const token = await this.tokenModel.findOne({ chainId, address: tokenAddress.toLowerCase() });
+      if (token) {
+        await this.updateTokenTotalValueLocked(chainId, token, nativePriceUSD);
+      }
     }
-
-    return previous;
   }
 
   /**
-   * Get token data for a specific interval
+   * Write a token's TVL into its record of the period containing `timestamp`.
+   * A period without swaps so far gets a flat candle at the token's last price.
    */
-  async getTokenData(
+  private async snapshotCurrentRecord(
+    chainId: number,
     tokenAddress: string,
     interval: TimeInterval,
-    startTime?: Date,
-    endTime?: Date,
-    limit = 100,
-  ): Promise<(TokenMinute | TokenHour | TokenDay)[]> {
-    const query: any = { tokenAddress };
+    timestamp: Date,
+    tvl: { priceNative: BigDecimal; priceUSD: BigDecimal; totalValueLocked: bigint; totalValueLockedUSD: BigDecimal },
+  ) {
+    const date = this.roundTimestamp(timestamp, interval);
+    const model = this.getModelByInterval(interval) as Model<any>;
+    const priceUSD = toDecimal128(tvl.priceUSD);
+    const priceNative = toDecimal128(tvl.priceNative);
 
-    if (startTime || endTime) {
-      query.date = {};
-      if (startTime) query.date.$gte = startTime;
-      if (endTime) query.date.$lte = endTime;
-    }
+    const result = await model.findOneAndUpdate(
+      { chainId, tokenAddress, date },
+      {
+        $set: {
+          totalValueLocked: toDecimal128(tvl.totalValueLocked),
+          totalValueLockedUSD: toDecimal128(tvl.totalValueLockedUSD),
+        },
+        $setOnInsert: {
+          periodId: this.getPeriodId(date, interval),
+          status: RecordStatus.CURRENT,
+          priceUSD,
+          open: priceUSD,
+          high: priceUSD,
+          low: priceUSD,
+          close: priceUSD,
+          priceNative,
+          openNative: priceNative,
+          highNative: priceNative,
+          lowNative: priceNative,
+          closeNative: priceNative,
+        },
+      },
+      { upsert: true, new: true, includeResultMetadata: true },
+    );
 
-    const model = this.getModelByInterval(interval) as Model<any>;
+    await this.publishCurrentRecord(chainId, tokenAddress, interval, date, result);
+  }
+
+  /**
+   * OHLC of a non-empty series of prices in time order
+   */
+  private toOHLC(prices: BigDecimal[]) {
+    return {
+      open: prices[0],
+      high: prices.reduce(BigDecimal.max),
+      low: prices.reduce(BigDecimal.min),
+      close: prices[prices.length - 1],
+    };
+  }
+
+  /**
+   * Update current period records of the swap's pool
+   */
+  private async updateCurrentPoolRecords(swap: SwapEventDocument, amountsUSD: SwapAmountsUSD) {
+    const { chainId } = swap;
+    const pool = await this.poolModel.findOne({ chainId, poolId: swap.poolAddress });
+    if (!pool) {
+      return;
+    }
+
+    const totalValueLockedUSD = await this.getAmountUSD(
+      chainId,
+      pool.currency0,
+      pool.totalValueLockedToken0,
+      pool.currency1,
+      pool.totalValueLockedToken1,
+    );
+
+    for (const interval of Object.values(TimeInterval)) {
+      await this.updateOrCreateCurrentPoolRecord(swap, pool, interval, amountsUSD, totalValueLockedUSD);
+    }
+  }
+
+  /**
+   * Update or create a pool's current record for a specific interval
+   */
+  private async updateOrCreateCurrentPoolRecord(
+    swap: SwapEventDocument,
+    pool: PoolDocument,
+    interval: TimeInterval,
+    amountsUSD: SwapAmountsUSD,
+    totalValueLockedUSD: BigDecimal,
+  ) {
+    const { chainId } = swap;
+    const poolId = pool.poolId;
+    const date = this.roundTimestamp(swap.blockTimestamp, interval);
+    const model = this.getPoolModelByInterval(interval) as Model<any>;
+
+    const price0 = toDecimal128(BigDecimal.from(swap.token0Price));
+    const price1 = toDecimal128(BigDecimal.from(swap.token1Price));
+
+    const result = await model.findOneAndUpdate(
+      { chainId, poolId, date },
+      {
+        $inc: {
+          volumeToken0: toDecimal128(this.abs(swap.amount0)),
+          volumeToken1: toDecimal128(this.abs(swap.amount1)),
+          volumeUSD: toDecimal128(amountsUSD.amountUSD),
+          untrackedVolumeUSD: toDecimal128(amountsUSD.untrackedAmountUSD),
+          feesUSD: toDecimal128(amountsUSD.feesUSD),
+          txCount: 1,
+        },
+        $max: { token0High: price0, token1High: price1 },
+        $min: { token0Low: price0, token1Low: price1 },
+        // Pool state after the swap
+        $set: {
+          token0Price: swap.token0Price,
+          token1Price: swap.token1Price,
+          token0Close: price0,
+          token1Close: price1,
+          liquidity: pool.liquidity,
+          sqrtPriceX96: pool.sqrtPriceX96,
+          tick: pool.tick,
+          totalValueLockedToken0: pool.totalValueLockedToken0,
+          totalValueLockedToken1: pool.totalValueLockedToken1,
+          totalValueLockedUSD: totalValueLockedUSD.toString(),
+        },
+        $setOnInsert: {
+          periodId: this.getPeriodId(date, interval),
+          status: RecordStatus.CURRENT,
+          token0Open: price0,
+          token1Open: price1,
+        },
+      },
+      { upsert: true, new: true, includeResultMetadata: true },
+    );
+
+    if (!result.lastErrorObject?.updatedExisting) {
+      // The swap opened a new period, closing the pool's earlier ones
+      await this.finalizeEarlierPoolRecords(chainId, poolId, interval, date);
+    }
+
+    // Live state of the pool candle, throttled per candle by the gateway
+    this.eventEmitter.emit('poolCandle.updated', this.toPoolCandle(result.value.toObject(), interval));
+  }
+
+  /**
+   * Undo the aggregation of swaps orphaned by a chain reorganization:
+   * subtract them from token totals and rebuild every candle they touched
+   * from the swaps that remain in that period
+   */
+  async revertSwapEvents(swaps: SwapEventDocument[]) {
+    const buckets = new Map<string, { chainId: number; tokenAddress: string; interval: TimeInterval; date: Date }>();
+    const poolBuckets = new Map<string, { chainId: number; poolId: string; interval: TimeInterval; date: Date }>();
+    const tokenTotals = new Map<string, {
+      chainId: number;
+      tokenAddress: string;
+      volume: bigint;
+      volumeUSD: BigDecimal;
+      untrackedVolumeUSD: BigDecimal;
+      feesUSD: BigDecimal;
+      txCount: number;
+    }>();
+
+    for (const swap of swaps) {
+      const { chainId } = swap;
+      for (const interval of Object.values(TimeInterval)) {
+        const date = this.roundTimestamp(swap.blockTimestamp, interval);
+        poolBuckets.set(`${chainId}:${swap.poolAddress}:${interval}:${date.getTime()}`, {
+          chainId,
+          poolId: swap.poolAddress,
+          interval,
+          date,
+        });
+      }
+
+      const sides = [
+        { tokenAddress: swap.token0Address, amount: swap.amount0 },
+        { tokenAddress: swap.token1Address, amount: swap.amount1 },
+      ];
+
+      for (const { tokenAddress, amount } of sides) {
+        const tokenKey = `${chainId}:${tokenAddress}`;
+        const totals = tokenTotals.get(tokenKey) || {
+          chainId,
+          tokenAddress,
+          volume: ZERO_BI,
+          volumeUSD: ZERO_BD,
+          untrackedVolumeUSD: ZERO_BD,
+          feesUSD: ZERO_BD,
+          txCount: 0,
+        };
+        totals.volume += this.abs(amount);
+        totals.volumeUSD = totals.volumeUSD.plus(BigDecimal.from(swap.amountUSD));
+        totals.untrackedVolumeUSD = totals.untrackedVolumeUSD.plus(BigDecimal.from(swap.untrackedAmountUSD));
+        totals.feesUSD = totals.feesUSD.plus(BigDecimal.from(swap.feesUSD));
+        totals.txCount += 1;
+        tokenTotals.set(tokenKey, totals);
+
+        for (const interval of Object.values(TimeInterval)) {
+          const date = this.roundTimestamp(swap.blockTimestamp, interval);
+          buckets.set(`${tokenKey}:${interval}:${date.getTime()}`, { chainId, tokenAddress, interval, date });
+        }
+      }
+    }
+
+    // Subtract in place, clamped at zero, so swaps aggregated meanwhile are kept
+    const subtract = (field: string, delta: string | BigDecimal) =>
+      ({ $max: [{ $subtract: [`$${field}`, toDecimal128(delta)] }, toDecimal128(0)] });
+    for (const { chainId, tokenAddress, ...totals } of tokenTotals.values()) {
+      await this.tokenModel.updateOne(
+        { chainId, address: tokenAddress },
+        [
+          {
+            $set: {
+              volume: subtract('volume', totals.volume.toString()),
+              volumeUSD: subtract('volumeUSD', totals.volumeUSD),
+              untrackedVolumeUSD: subtract('untrackedVolumeUSD', totals.untrackedVolumeUSD),
+              feesUSD: subtract('feesUSD', totals.feesUSD),
+              txCount: { $max: [{ $subtract: ['$txCount', totals.txCount] }, 0] },
+            },
+          },
+        ],
+        { updatePipeline: true },
+      );
+    }
+
+    for (const { chainId, tokenAddress, interval, date } of buckets.values()) {
+      await this.rebuildRecord(chainId, tokenAddress, interval, date);
+    }
+    for (const { chainId, poolId, interval, date } of poolBuckets.values()) {
+      await this.rebuildPoolRecord(chainId, poolId, interval, date);
+    }
+
+    this.logger.log(`Reverted ${swaps.length} swaps across ${buckets.size} token and ${poolBuckets.size} pool candles`);
+  }
+
+  /**
+   * Recompute a period record from the swaps stored for that period,
+   * removing the record when no swaps remain. A missing record is created
+   * with `insertFields` (fields the swaps cannot restore, such as TVL).
+   */
+  private async rebuildRecord(
+    chainId: number,
+    tokenAddress: string,
+    interval: TimeInterval,
+    date: Date,
+    insertFields: Record<string, any> = {},
+  ) {
+    const model = this.getModelByInterval(interval) as Model<any>;
+
+    const swaps = await this.swapEventModel
+      .find({
+        chainId,
+        $or: [{ token0Address: tokenAddress }, { token1Address: tokenAddress }],
+        blockTimestamp: { $gte: date, $lt: this.getNextPeriod(date, interval) },
+      })
+      .sort({ blockNumber: 1, logIndex: 1 })
+      .exec();
+
+    if (swaps.length === 0) {
+      await model.deleteOne({ chainId, tokenAddress, date });
+      return;
+    }
+
+    let volume = ZERO_BI;
+    let volumeUSD = ZERO_BD;
+    let untrackedVolumeUSD = ZERO_BD;
+    let feesUSD = ZERO_BD;
+    let open = ZERO_BD;
+    let high = ZERO_BD;
+    let low = ZERO_BD;
+    let close = ZERO_BD;
+    let openNative = ZERO_BD;
+    let highNative = ZERO_BD;
+    let lowNative = ZERO_BD;
+    let closeNative = ZERO_BD;
+
+    swaps.forEach((swap, i) => {
+      const isToken0 = swap.token0Address === tokenAddress;
+      const priceNative = BigDecimal.from(isToken0 ? swap.token0DerivedBTC : swap.token1DerivedBTC);
+      const price = priceNative.times(BigDecimal.from(swap.nativePriceUSD));
+
+      volume += this.abs(isToken0 ? swap.amount0 : swap.amount1);
+      volumeUSD = volumeUSD.plus(BigDecimal.from(swap.amountUSD));
+      untrackedVolumeUSD = untrackedVolumeUSD.plus(BigDecimal.from(swap.untrackedAmountUSD));
+      feesUSD = feesUSD.plus(BigDecimal.from(swap.feesUSD));
+      open = i === 0 ? price : open;
+      high = i === 0 ? price : BigDecimal.max(high, price);
+      low = i === 0 ? price : BigDecimal.min(low, price);
+      close = price;
+      openNative = i === 0 ? priceNative : openNative;
+      highNative = i === 0 ? priceNative : BigDecimal.max(highNative, priceNative);
+      lowNative = i === 0 ? priceNative : BigDecimal.min(lowNative, priceNative);
+      closeNative = priceNative;
+    });
+
+    await model.updateOne(
+      { chainId, tokenAddress, date },
+      {
+        $set: {
+          volume: toDecimal128(volume),
+          volumeUSD: toDecimal128(volumeUSD),
+          untrackedVolumeUSD: toDecimal128(untrackedVolumeUSD),
+          feesUSD: toDecimal128(feesUSD),
+          priceUSD: toDecimal128(close),
+          open: toDecimal128(open),
+          high: toDecimal128(high),
+          low: toDecimal128(low),
+          close: toDecimal128(close),
+          priceNative: toDecimal128(closeNative),
+          openNative: toDecimal128(openNative),
+          highNative: toDecimal128(highNative),
+          lowNative: toDecimal128(lowNative),
+          closeNative: toDecimal128(closeNative),
+          periodId: this.getPeriodId(date, interval),
+          txCount: swaps.length,
+        },
+        $setOnInsert: { ...insertFields, status: this.getRebuiltStatus(date, interval) },
+      },
+      { upsert: true },
+    );
+  }
+
+  /**
+   * Recompute a pool's period record from the swaps stored for that period, taking
+   * the liquidity and TVL snapshot from the (already restored) pool state unless
+   * one is given
+   */
+  private async rebuildPoolRecord(
+    chainId: number,
+    poolId: string,
+    interval: TimeInterval,
+    date: Date,
+    snapshot?: Record<string, any>,
+  ) {
+    const model = this.getPoolModelByInterval(interval) as Model<any>;
+
+    const swaps = await this.swapEventModel
+      .find({
+        chainId,
+        poolAddress: poolId,
+        blockTimestamp: { $gte: date, $lt: this.getNextPeriod(date, interval) },
+      })
+      .sort({ blockNumber: 1, logIndex: 1 })
+      .exec();
+
+    const pool = await this.poolModel.findOne({ chainId, poolId });
+    if (swaps.length === 0 || !pool) {
+      await model.deleteOne({ chainId, poolId, date });
+      return;
+    }
+
+    let volumeToken0 = ZERO_BI;
+    let volumeToken1 = ZERO_BI;
+    let volumeUSD = ZERO_BD;
+    let untrackedVolumeUSD = ZERO_BD;
+    let feesUSD = ZERO_BD;
+
+    const ohlc0 = this.toOHLC(swaps.map((swap) => BigDecimal.from(swap.token0Price)));
+    const ohlc1 = this.toOHLC(swaps.map((swap) => BigDecimal.from(swap.token1Price)));
+
+    for (const swap of swaps) {
+      volumeToken0 += this.abs(swap.amount0);
+      volumeToken1 += this.abs(swap.amount1);
+      volumeUSD = volumeUSD.plus(BigDecimal.from(swap.amountUSD));
+      untrackedVolumeUSD = untrackedVolumeUSD.plus(BigDecimal.from(swap.untrackedAmountUSD));
+      feesUSD = feesUSD.plus(BigDecimal.from(swap.feesUSD));
+    }
+
+    const lastSwap = swaps[swaps.length - 1];
+    if (!snapshot) {
+      const totalValueLockedUSD = await this.getAmountUSD(
+        chainId,
+        pool.currency0,
+        pool.totalValueLockedToken0,
+        pool.currency1,
+        pool.totalValueLockedToken1,
+      );
+      snapshot = {
+        liquidity: pool.liquidity,
+        sqrtPriceX96: pool.sqrtPriceX96,
+        tick: pool.tick,
+        totalValueLockedToken0: pool.totalValueLockedToken0,
+        totalValueLockedToken1: pool.totalValueLockedToken1,
+        totalValueLockedUSD: totalValueLockedUSD.toString(),
+      };
+    }
+
+    await model.updateOne(
+      { chainId, poolId, date },
+      {
+        $set: {
+          token0Price: lastSwap.token0Price,
+          token1Price: lastSwap.token1Price,
+          token0Open: toDecimal128(ohlc0.open),
+          token0High: toDecimal128(ohlc0.high),
+          token0Low: toDecimal128(ohlc0.low),
+          token0Close: toDecimal128(ohlc0.close),
+          token1Open: toDecimal128(ohlc1.open),
+          token1High: toDecimal128(ohlc1.high),
+          token1Low: toDecimal128(ohlc1.low),
+          token1Close: toDecimal128(ohlc1.close),
+          volumeToken0: toDecimal128(volumeToken0),
+          volumeToken1: toDecimal128(volumeToken1),
+          volumeUSD: toDecimal128(volumeUSD),
+          untrackedVolumeUSD: toDecimal128(untrackedVolumeUSD),
+          feesUSD: toDecimal128(feesUSD),
+          ...snapshot,
+          periodId: this.getPeriodId(date, interval),
+          txCount: swaps.length,
+        },
+        $setOnInsert: { status: this.getRebuiltStatus(date, interval) },
+      },
+      { upsert: true },
+    );
+  }
+
+  /**
+   * Status of a record created by a rebuild: final once its period is over
+   */
+  private getRebuiltStatus(date: Date, interval: TimeInterval): RecordStatus {
+    return this.getNextPeriod(date, interval) <= new Date() ? RecordStatus.FINALIZED : RecordStatus.CURRENT;
+  }
+
+  /**
+   * Bring candles stored before bucketing moved to UTC in line with it. Records of
+   * a UTC period just get their period ID; records of a local-time period are
+   * replaced by the UTC periods they overlap, rebuilt from the stored swaps, or moved
+   * whole when their swaps predate stored prices (see migrateRecordsToUtc).
+   * Records that already have a period ID are left alone, so this is safe to rerun.
+   */
+  async migrateToUtcPeriods() {
+    for (const interval of Object.values(TimeInterval)) {
+      const tokenRecords = await this.migrateRecordsToUtc(
+        this.getModelByInterval(interval) as Model<any>,
+        interval,
+        'tokenAddress',
+        (chainId, tokenAddress, date, record) =>
+          this.rebuildRecord(chainId, tokenAddress, interval, date, {
+            totalValueLocked: record.totalValueLocked,
+            totalValueLockedUSD: record.totalValueLockedUSD,
+          }),
+      );
+      const poolRecords = await this.migrateRecordsToUtc(
+        this.getPoolModelByInterval(interval) as Model<any>,
+        interval,
+        'poolId',
+        (chainId, poolId, date, record) =>
+          this.rebuildPoolRecord(chainId, poolId, interval, date, {
+            liquidity: record.liquidity,
+            sqrtPriceX96: record.sqrtPriceX96,
+            tick: record.tick,
+            totalValueLockedToken0: record.totalValueLockedToken0,
+            totalValueLockedToken1: record.totalValueLockedToken1,
+            totalValueLockedUSD: record.totalValueLockedUSD,
+          }),
+      );
+
+      if (tokenRecords > 0 || poolRecords > 0) {
+        this.logger.log(`Migrated ${tokenRecords} token and ${poolRecords} pool ${interval} records to UTC periods`);
+      }
+    }
+  }
+
+  /**
+   * Migrate the records of one collection without a period ID, oldest first and in
+   * batches. A rebuilt period takes the snapshot fields of the first old record
+   * overlapping it, the one ending inside it. Swaps indexed before prices and USD
+   * amounts were stored on them would rebuild zero candles, so a record with such
+   * swaps (or none left) is instead moved whole into the UTC period holding most of
+   * it, keeping its OHLC and volumes. Periods receiving moved records are not rebuilt.
+   */
+  private async migrateRecordsToUtc(
+    model: Model<any>,
+    interval: TimeInterval,
+    keyField: CandleKeyField,
+    rebuild: (chainId: number, key: string, date: Date, record: any) => Promise<void>,
+  ): Promise<number> {
+    let migrated = 0;
+    const merged = new Set<string>();
+
+    for (;;) {
+      const records = await model
+        .find({ periodId: { $exists: false } })
+        .sort({ date: 1 })
+        .limit(UTC_MIGRATION_BATCH_SIZE)
+        .exec();
+      if (records.length === 0) {
+        return migrated;
+      }
+
+      const rebuilds = new Map<string, { chainId: number; key: string; date: Date; record: any }>();
+      for (const record of records) {
+        const periodId = this.getPeriodId(record.date, interval);
+        if (this.getPeriodStart(periodId, interval).getTime() === record.date.getTime()) {
+          await model.updateOne({ _id: record._id }, { $set: { periodId } });
+          continue;
+        }
+
+        await model.deleteOne({ _id: record._id });
+        const periodEnd = this.getNextLocalPeriod(record.date, interval);
+
+        if (!(await this.hasPricedSwaps(keyField, record.chainId, record[keyField], record.date, periodEnd))) {
+          const date = this.roundTimestamp(new Date((record.date.getTime() + periodEnd.getTime()) / 2), interval);
+          await this.mergeIntoUtcPeriod(model, interval, keyField, record, date);
+          merged.add(`${record.chainId}:${record[keyField]}:${this.getPeriodId(date, interval)}`);
+          continue;
+        }
+
+        for (let id = periodId; id <= this.getPeriodId(new Date(periodEnd.getTime() - 1), interval); id++) {
+          const key = `${record.chainId}:${record[keyField]}:${id}`;
+          if (!rebuilds.has(key)) {
+            rebuilds.set(key, {
+              chainId: record.chainId,
+              key: record[keyField],
+              date: this.getPeriodStart(id, interval),
+              record,
+            });
+          }
+        }
+      }
+
+      for (const [periodKey, { chainId, key, date, record }] of rebuilds) {
+        if (!merged.has(periodKey)) {
+          await rebuild(chainId, key, date, record);
+        }
+      }
+      migrated += records.length;
+    }
+  }
+
+  /**
+   * End of a period bucketed in the server's local time, as records were before UTC
+   * periods. Local days follow the calendar, so they are 23 or 25 hours long across
+   * DST changes.
+   */
+  private getNextLocalPeriod(date: Date, interval: TimeInterval): Date {
+    if (interval !== TimeInterval.DAY) {
+      return this.getNextPeriod(date, interval);
+    }
+
+    const next = new Date(date);
+    next.setDate(next.getDate() + 1);
+    return next;
+  }
+
+  /**
+   * Whether a token's or pool's swaps in a time range exist and all carry the prices
+   * and USD amounts candles are rebuilt from
+   */
+  private async hasPricedSwaps(
+    keyField: CandleKeyField,
+    chainId: number,
+    key: string,
+    start: Date,
+    end: Date,
+  ): Promise<boolean> {
+    const query = {
+      chainId,
+      ...(keyField === 'tokenAddress'
+        ? { $or: [{ token0Address: key }, { token1Address: key }] }
+        : { poolAddress: key }),
+      blockTimestamp: { $gte: start, $lt: end },
+    };
+    const unpriced = { $or: SWAP_PRICE_FIELDS[keyField].map((field) => ({ [field]: { $exists: false } })) };
+
+    const [swap, unpricedSwap] = await Promise.all([
+      this.swapEventModel.exists(query),
+      this.swapEventModel.exists({ $and: [query, unpriced] }),
+    ]);
+    return !!swap && !unpricedSwap;
+  }
+
+  /**
+   * Add a local-time record to a UTC period: volumes and counts are summed, highs and
+   * lows widened, the open kept from the earliest record and the rest taken from the
+   * latest. Records are migrated oldest first.
+   */
+  private async mergeIntoUtcPeriod(
+    model: Model<any>,
+    interval: TimeInterval,
+    keyField: CandleKeyField,
+    record: any,
+    date: Date,
+  ) {
+    const fields = UTC_MERGE_FIELDS[keyField];
+    const values = (names: string[], convert: (value: any) => any = (value) => value) =>
+      Object.fromEntries(names
+        .filter((name) => record[name] !== undefined && record[name] !== null)
+        .map((name) => [name, convert(record[name])]));
+    const decimal = (value: any) => (typeof value === 'number' ? value : toDecimal128(value));
+
+    const update = {
+      $inc: values(fields.sum, decimal),
+      $max: values(fields.max, decimal),
+      $min: values(fields.min, decimal),
+      $set: { ...values(fields.last), periodId: this.getPeriodId(date, interval) },
+      $setOnInsert: { ...values(fields.first), status: this.getRebuiltStatus(date, interval) },
+    };
+
+    // MongoDB rejects empty operators, e.g. for records written before a field existed
+    await model.updateOne(
+      { chainId: record.chainId, [keyField]: record[keyField], date },
+      Object.fromEntries(Object.entries(update).filter(([, fieldValues]) => Object.keys(fieldValues).length > 0)),
+      { upsert: true },
+    );
+  }
+
+  /**
+   * Assign records written before multi-chain support to the default chain, then
+   * replace the single-chain unique indexes (e.g. tokens on `address` alone) with
+   * the chain-scoped ones of the schemas. Safe to rerun.
+   */
+  async migrateChainIds() {
+    const models: Model<any>[] = [
+      this.tokenModel,
+      ...Object.values(TimeInterval).map((interval) => this.getModelByInterval(interval) as Model<any>),
+      ...Object.values(TimeInterval).map((interval) => this.getPoolModelByInterval(interval) as Model<any>),
+    ];
+
+    const chainId = this.configService.defaultChainId;
+    for (const model of models) {
+      const result = await model.updateMany({ chainId: { $exists: false } }, { $set: { chainId } });
+      if (result.modifiedCount > 0) {
+        this.logger.log(`Assigned ${result.modifiedCount} ${model.modelName} records to chain ${chainId}`);
+      }
+      await model.syncIndexes();
+    }
+  }
+
+  /**
+   * Convert decimal fields stored as strings, before they were Decimal128, so they
+   * can be incremented and compared numerically. Converted documents no longer
+   * match, so this is safe to rerun.
+   */
+  async migrateToDecimal128() {
+    const models: Model<any>[] = [
+      this.tokenModel,
+      ...Object.values(TimeInterval).map((interval) => this.getModelByInterval(interval) as Model<any>),
+      ...Object.values(TimeInterval).map((interval) => this.getPoolModelByInterval(interval) as Model<any>),
+    ];
+
+    for (const model of models) {
+      const fields: string[] = [];
+      model.schema.eachPath((path, schemaType) => {
+        if (schemaType.instance === 'Decimal128') {
+          fields.push(path);
+        }
+      });
+
+      const result = await model.updateMany(
+        { $or: fields.map((field) => ({ [field]: { $type: 'string' } })) },
+        [
+          {
+            $set: Object.fromEntries(fields.map((field) => [
+              field,
+              { $cond: [{ $eq: [{ $type: `$${field}` }, 'string'] }, { $toDecimal: `$${field}` }, `$${field}`] },
+            ])),
+          },
+        ],
+        { updatePipeline: true },
+      );
+
+      if (result.modifiedCount > 0) {
+        this.logger.log(`Migrated ${result.modifiedCount} ${model.modelName} records to Decimal128`);
+      }
+    }
+  }
+
+  /**
+   * Finalize current minute records and create new ones
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { timeZone: 'UTC' })
+  async finalizeMinuteRecords() {
+    await this.finalizeRecords(TimeInterval.MINUTE);
+  }
+
+  /**
+   * Finalize current hour records and create new ones
+   */
+  @Cron(CronExpression.EVERY_HOUR, { timeZone: 'UTC' })
+  async finalizeHourRecords() {
+    await this.finalizeRecords(TimeInterval.HOUR);
+  }
+
+  /**
+   * Finalize current day records and create new ones
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT, { timeZone: 'UTC' })
+  async finalizeDayRecords() {
+    await this.finalizeRecords(TimeInterval.DAY);
+  }
+
+  /**
+   * Mark a chain as running (or done with) its historical sync. The finalization
+   * crons skip syncing chains, whose periods the backfill may still be filling.
+   */
+  setChainSyncing(chainId: number, isSyncing: boolean) {
+    if (isSyncing) {
+      this.syncingChains.add(chainId);
+    } else {
+      this.syncingChains.delete(chainId);
+    }
+  }
+
+  /**
+   * Sweep an interval: finalize every current record of a period that has ended,
+   * including ones left current by downtime, on chains that are not syncing
+   */
+  private async finalizeRecords(interval: TimeInterval) {
+    try {
+      const model = this.getModelByInterval(interval) as Model<any>;
+
+      const currentPeriodDate = this.roundTimestamp(new Date(), interval);
+      const previousPeriodDate = this.getPreviousPeriod(currentPeriodDate, interval);
+      const chainFilter = this.syncingChains.size > 0 ? { chainId: { $nin: [...this.syncingChains] } } : {};
+
+      const recordsToFinalize = await model.find({
+        ...chainFilter,
+        date: { $lt: currentPeriodDate },
+        status: RecordStatus.CURRENT,
+      }).exec();
+      const finalized = await this.closeRecords(interval, recordsToFinalize, currentPeriodDate);
+
+      this.logger.log(
+        `Finalized ${finalized} ${interval} records before ${currentPeriodDate.toISOString()}`,
+      );
+
+      await this.finalizeRolledUpCandles(interval, previousPeriodDate, chainFilter);
+      await this.finalizePoolRecords(interval, currentPeriodDate, chainFilter);
+    } catch (error) {
+      this.logger.error(`Error finalizing ${interval} records`, error);
+    }
+  }
+
+  /**
+   * Finalize the pool records of periods before `date` and emit them as finalized pool candles
+   */
+  private async finalizePoolRecords(interval: TimeInterval, date: Date, chainFilter: Record<string, any> = {}) {
+    const model = this.getPoolModelByInterval(interval) as Model<any>;
+
+    const recordsToFinalize = await model.find({
+      ...chainFilter,
+      date: { $lt: date },
+      status: RecordStatus.CURRENT,
+    }).exec();
+    const finalized = await this.closePoolRecords(interval, recordsToFinalize);
+
+    this.logger.log(
+      `Finalized ${finalized} ${interval} pool records before ${date.toISOString()}`,
+    );
+  }
+
+  /**
+   * Finalize a token's current records of periods before `date`, the period a
+   * newer swap landed in, so past periods close on event time during a backfill
+   */
+  private async finalizeEarlierRecords(chainId: number, tokenAddress: string, interval: TimeInterval, date: Date) {
+    const model = this.getModelByInterval(interval) as Model<any>;
+
+    const recordsToFinalize = await model.find({
+      chainId,
+      tokenAddress,
+      date: { $lt: date },
+      status: RecordStatus.CURRENT,
+    }).exec();
+    await this.closeRecords(interval, recordsToFinalize, date);
+  }
+
+  /**
+   * Pool counterpart of finalizeEarlierRecords
+   */
+  private async finalizeEarlierPoolRecords(chainId: number, poolId: string, interval: TimeInterval, date: Date) {
+    const model = this.getPoolModelByInterval(interval) as Model<any>;
+
+    const recordsToFinalize = await model.find({
+      chainId,
+      poolId,
+      date: { $lt: date },
+      status: RecordStatus.CURRENT,
+    }).exec();
+    await this.closePoolRecords(interval, recordsToFinalize);
+  }
+
+  /**
+   * Mark token records finalized and emit them, along with the rolled-up candles
+   * they complete that ended by `closedAt`. Rolled-up candles ending with the
+   * current wall-clock period are left to the cron, which emits them for every token.
+   */
+  private async closeRecords(interval: TimeInterval, records: any[], closedAt: Date): Promise<number> {
+    if (records.length === 0) {
+      return 0;
+    }
+
+    const model = this.getModelByInterval(interval) as Model<any>;
+    const result = await model.updateMany(
+      {
+        _id: { $in: records.map((record) => record._id) },
+        status: RecordStatus.CURRENT,
+      },
+      {
+        $set: { status: RecordStatus.FINALIZED },
+      },
+    );
+
+    // Emit WebSocket events for each finalized candle
+    for (const record of records) {
+      this.eventEmitter.emit('candle.finalized', {
+        chainId: record.chainId,
+        interval,
+        tokenAddress: record.tokenAddress,
+        date: record.date,
+        periodId: record.periodId,
+        volume: record.volume,
+        volumeUSD: record.volumeUSD,
+        untrackedVolumeUSD: record.untrackedVolumeUSD,
+        totalValueLocked: record.totalValueLocked,
+        totalValueLockedUSD: record.totalValueLockedUSD,
+        priceUSD: record.priceUSD,
+        feesUSD: record.feesUSD,
+        open: record.open,
+        high: record.high,
+        low: record.low,
+        close: record.close,
+        priceNative: record.priceNative,
+        openNative: record.openNative,
+        highNative: record.highNative,
+        lowNative: record.lowNative,
+        closeNative: record.closeNative,
+        txCount: record.txCount,
+      });
+    }
+
+    const currentPeriodDate = this.roundTimestamp(new Date(), interval);
+    const candles = new Map<string, { chainId: number; tokenAddress: string; resolution: string; start: Date; end: Date }>();
+    for (const record of records) {
+      for (const [resolution, { base, baseBuckets }] of Object.entries(CANDLE_RESOLUTIONS)) {
+        if (base !== interval || baseBuckets === 1) {
+          continue;
+        }
+
+        const start = this.getResolutionStart(record.date, resolution);
+        const end = this.getNextResolutionStart(start, resolution);
+        if (end <= closedAt && end < currentPeriodDate) {
+          candles.set(`${record.chainId}:${record.tokenAddress}:${resolution}:${start.getTime()}`, {
+            chainId: record.chainId,
+            tokenAddress: record.tokenAddress,
+            resolution,
+            start,
+            end,
+          });
+        }
+      }
+    }
+
+    for (const { chainId, tokenAddress, resolution, start, end } of candles.values()) {
+      const tokenRecords = await model
+        .find({ chainId, tokenAddress, date: { $gte: start, $lt: end } })
+        .sort({ date: 1 })
+        .exec();
+      this.emitRolledUpCandle(tokenRecords, resolution);
+    }
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Mark pool records finalized and emit them as finalized pool candles
+   */
+  private async closePoolRecords(interval: TimeInterval, records: any[]): Promise<number> {
+    if (records.length === 0) {
+      return 0;
+    }
+
+    const model = this.getPoolModelByInterval(interval) as Model<any>;
+    const result = await model.updateMany(
+      {
+        _id: { $in: records.map((record) => record._id) },
+        status: RecordStatus.CURRENT,
+      },
+      {
+        $set: { status: RecordStatus.FINALIZED },
+      },
+    );
+
+    for (const record of records) {
+      this.eventEmitter.emit('poolCandle.finalized', this.toPoolCandle(record, interval));
+    }
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * A pool record as sent to pool candle subscribers
+   */
+  private toPoolCandle(record: any, interval: TimeInterval): PoolCandle {
+    return {
+      chainId: record.chainId,
+      interval,
+      poolId: record.poolId,
+      date: record.date,
+      periodId: record.periodId,
+      token0Price: record.token0Price,
+      token1Price: record.token1Price,
+      token0Open: record.token0Open,
+      token0High: record.token0High,
+      token0Low: record.token0Low,
+      token0Close: record.token0Close,
+      token1Open: record.token1Open,
+      token1High: record.token1High,
+      token1Low: record.token1Low,
+      token1Close: record.token1Close,
+      volumeToken0: record.volumeToken0,
+      volumeToken1: record.volumeToken1,
+      volumeUSD: record.volumeUSD,
+      untrackedVolumeUSD: record.untrackedVolumeUSD,
+      feesUSD: record.feesUSD,
+      liquidity: record.liquidity,
+      sqrtPriceX96: record.sqrtPriceX96,
+      tick: record.tick,
+      totalValueLockedToken0: record.totalValueLockedToken0,
+      totalValueLockedToken1: record.totalValueLockedToken1,
+      totalValueLockedUSD: record.totalValueLockedUSD,
+      txCount: record.txCount,
+    };
+  }
+
+  /**
+   * Start of the candle of a resolution containing the date
+   */
+  private getResolutionStart(date: Date, resolution: string): Date {
+    const { base, baseBuckets } = CANDLE_RESOLUTIONS[resolution];
+    const periodId = this.getPeriodId(date, base);
+
+    switch (resolution) {
+      case '1w':
+        // Weeks start on Monday; day 0 (1970-01-01) was a Thursday
+        return this.getPeriodStart(periodId - ((periodId + 3) % 7), base);
+      case '1M':
+        return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+      default:
+        return this.getPeriodStart(Math.floor(periodId / baseBuckets) * baseBuckets, base);
+    }
+  }
+
+  /**
+   * Start of the candle of a resolution following the one starting at `start`
+   */
+  private getNextResolutionStart(start: Date, resolution: string): Date {
+    const { base, baseBuckets } = CANDLE_RESOLUTIONS[resolution];
+
+    if (resolution === '1M') {
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+    }
+    return new Date(start.getTime() + baseBuckets * PERIOD_SECONDS[base] * 1000);
+  }
+
+  /**
+   * Roll stored token records (oldest first) up into candles of a resolution:
+   * first open, highest high, lowest low, last close, summed volumes, fees and
+   * txCount, and the TVL and price of the last record
+   */
+  private rollUpCandles(records: any[], resolution: string) {
+    const groups = new Map<number, any[]>();
+    for (const record of records) {
+      const start = this.getResolutionStart(record.date, resolution).getTime();
+      if (!groups.has(start)) {
+        groups.set(start, []);
+      }
+      groups.get(start).push(record);
+    }
+
+    const now = new Date();
+    return [...groups.entries()].map(([start, group]) => {
+      const date = new Date(start);
+      const first = group[0];
+      const last = group[group.length - 1];
+      const values = (field: string) => group.map((record) => BigDecimal.from(record[field]));
+      const sum = (field: string) => values(field).reduce((total, value) => total.plus(value), ZERO_BD).toString();
+      const max = (field: string) => values(field).reduce(BigDecimal.max).toString();
+      const min = (field: string) => values(field).reduce(BigDecimal.min).toString();
+
+      // Final once the whole period is over and every record in it was finalized
+      const isFinalized = this.getNextResolutionStart(date, resolution) <= now &&
+        group.every((record) => record.status === RecordStatus.FINALIZED);
+
+      return {
+        chainId: first.chainId,
+        tokenAddress: first.tokenAddress,
+        date,
+        status: isFinalized ? RecordStatus.FINALIZED : RecordStatus.CURRENT,
+        volume: group.reduce((total, record) => total + decimalToBigInt(record.volume), ZERO_BI).toString(),
+        volumeUSD: sum('volumeUSD'),
+        untrackedVolumeUSD: sum('untrackedVolumeUSD'),
+        feesUSD: sum('feesUSD'),
+        totalValueLocked: last.totalValueLocked,
+        totalValueLockedUSD: last.totalValueLockedUSD,
+        priceUSD: last.priceUSD,
+        open: first.open,
+        high: max('high'),
+        low: min('low'),
+        close: last.close,
+        priceNative: last.priceNative,
+        openNative: first.openNative,
+        highNative: max('highNative'),
+        lowNative: min('lowNative'),
+        closeNative: last.closeNative,
+        txCount: group.reduce((total, record) => total + record.txCount, 0),
+      };
+    });
+  }
+
+  /**
+   * Turn candles (newest first) into a continuous series over the newest `limit`
+   * periods of [startTime, endTime], endTime defaulting to now. Empty periods get a
+   * flat candle at the previous close, seeded from the last record before the series;
+   * periods before the token's first candle stay empty.
+   */
+  private async fillCandles(
+    candles: any[],
+    chainId: number,
+    tokenAddress: string,
+    resolution: string,
+    startTime: Date | undefined,
+    endTime: Date | undefined,
+    limit: number,
+  ) {
+    const now = new Date();
+    const last = this.getResolutionStart(endTime && endTime < now ? endTime : now, resolution);
+    const earliest = startTime ? this.getResolutionStart(startTime, resolution) : undefined;
+
+    // Step back from the last period, the start of a period being the start of the one containing its previous instant
+    let first = last;
+    for (let i = 1; i < limit; i++) {
+      const previous = this.getResolutionStart(new Date(first.getTime() - 1), resolution);
+      if (earliest && previous < earliest) {
+        break;
+      }
+      first = previous;
+    }
+
+    let previousCandle = candles.find((candle) => candle.date < first);
+    if (!previousCandle) {
+      const model = this.getModelByInterval(CANDLE_RESOLUTIONS[resolution].base) as Model<any>;
+      [previousCandle] = await model
+        .find({ chainId, tokenAddress, date: { $lt: first } })
+        .sort({ date: -1 })
+        .limit(1)
+        .exec();
+    }
+
+    const candlesByDate = new Map<number, any>(candles.map((candle) => [candle.date.getTime(), candle]));
+    const series = [];
+    for (let date = first; date <= last; date = this.getNextResolutionStart(date, resolution)) {
+      const candle = candlesByDate.get(date.getTime()) ??
+        (previousCandle ? this.flatCandle(previousCandle, date, resolution, now) : undefined);
+      if (candle) {
+        series.push(candle);
+        previousCandle = candle;
+      }
+    }
+
+    return series.reverse();
+  }
+
+  /**
+   * Candle for a period without swaps: no volume, OHLC at the previous close
+   */
+  private flatCandle(previous: any, date: Date, resolution: string, now: Date) {
+    const { base, baseBuckets } = CANDLE_RESOLUTIONS[resolution];
+    return {
+      chainId: previous.chainId,
+      tokenAddress: previous.tokenAddress,
+      date,
+      // Only stored intervals have period IDs
+      periodId: baseBuckets === 1 ? this.getPeriodId(date, base) : undefined,
+      status: this.getNextResolutionStart(date, resolution) <= now ? RecordStatus.FINALIZED : RecordStatus.CURRENT,
+      volume: '0',
+      volumeUSD: ZERO_BD.toString(),
+      untrackedVolumeUSD: ZERO_BD.toString(),
+      feesUSD: ZERO_BD.toString(),
+      totalValueLocked: previous.totalValueLocked,
+      totalValueLockedUSD: previous.totalValueLockedUSD,
+      priceUSD: previous.priceUSD,
+      open: previous.close,
+      high: previous.close,
+      low: previous.close,
+      close: previous.close,
+      priceNative: previous.priceNative,
+      openNative: previous.closeNative,
+      highNative: previous.closeNative,
+      lowNative: previous.closeNative,
+      closeNative: previous.closeNative,
+      txCount: 0,
+    };
+  }
+
+  /**
+   * Emit finalized candles for every rolled-up resolution of the interval whose
+   * period ends with the stored period that was just finalized
+   */
+  private async finalizeRolledUpCandles(interval: TimeInterval, date: Date, chainFilter: Record<string, any> = {}) {
+    const model = this.getModelByInterval(interval) as Model<any>;
+    const periodEnd = this.getNextPeriod(date, interval).getTime();
+
+    for (const [resolution, { base, baseBuckets }] of Object.entries(CANDLE_RESOLUTIONS)) {
+      if (base !== interval || baseBuckets === 1) {
+        continue;
+      }
+
+      const start = this.getResolutionStart(date, resolution);
+      if (this.getNextResolutionStart(start, resolution).getTime() !== periodEnd) {
+        continue;
+      }
+
+      const records = await model
+        .find({ ...chainFilter, date: { $gte: start, $lt: new Date(periodEnd) } })
+        .sort({ date: 1 })
+        .exec();
+
+      const recordsByToken = new Map<string, any[]>();
+      for (const record of records) {
+        const tokenKey = `${record.chainId}:${record.tokenAddress}`;
+        if (!recordsByToken.has(tokenKey)) {
+          recordsByToken.set(tokenKey, []);
+        }
+        recordsByToken.get(tokenKey).push(record);
+      }
+
+      for (const tokenRecords of recordsByToken.values()) {
+        this.emitRolledUpCandle(tokenRecords, resolution);
+      }
+    }
+  }
+
+  /**
+   * A token's candle of a rolled-up resolution containing the date, as it stands,
+   * or null without records in its period
+   */
+  async getRolledUpCandle(chainId: number, tokenAddress: string, resolution: string, date: Date): Promise<TokenCandle | null> {
+    const model = this.getModelByInterval(CANDLE_RESOLUTIONS[resolution].base) as Model<any>;
+    const start = this.getResolutionStart(date, resolution);
+    const records = await model
+      .find({
+        chainId,
+        tokenAddress: tokenAddress.toLowerCase(),
+        date: { $gte: start, $lt: this.getNextResolutionStart(start, resolution) },
+      })
+      .sort({ date: 1 })
+      .exec();
+
+    if (records.length === 0) {
+      return null;
+    }
+
+    const [candle] = this.rollUpCandles(records, resolution);
+    return { ...candle, interval: resolution };
+  }
+
+  /**
+   * Emit a token's records (oldest first) of one rolled-up period as a finalized candle
+   */
+  private emitRolledUpCandle(records: any[], resolution: string) {
+    const [candle] = this.rollUpCandles(records, resolution);
+    const { status, ...fields } = candle;
+    this.eventEmitter.emit('candle.finalized', { ...fields, interval: resolution });
+  }
+
+  /**
+   * Get the previous period timestamp
+   */
+  private getPreviousPeriod(date: Date, interval: TimeInterval): Date {
+    return new Date(date.getTime() - PERIOD_SECONDS[interval] * 1000);
+  }
+
+  /**
+   * Get the start of the period following the given one
+   */
+  private getNextPeriod(date: Date, interval: TimeInterval): Date {
+    return new Date(date.getTime() + PERIOD_SECONDS[interval] * 1000);
+  }
+
+  /**
+   * Get token data for a resolution (see CANDLE_RESOLUTIONS). Resolutions that span
+   * several stored buckets are rolled up from them, newest first like stored ones.
+   * With `fill`, periods without swaps are returned as flat candles.
+   */
+  async getTokenData(
+    tokenAddress: string,
+    interval: string,
+    startTime?: Date,
+    endTime?: Date,
+    limit = 100,
+    chainId = this.configService.defaultChainId,
+    quote = PriceQuote.USD,
+    fill = false,
+  ): Promise<(TokenMinute | TokenHour | TokenDay)[]> {
+    const { base, baseBuckets } = CANDLE_RESOLUTIONS[interval];
+    const query: any = { chainId, tokenAddress };
+
+    if (startTime || endTime) {
+      query.date = {};
+      // Start at the beginning of the rolled-up candle containing startTime
+      if (startTime) query.date.$gte = baseBuckets > 1 ? this.getResolutionStart(startTime, interval) : startTime;
+      if (endTime) query.date.$lte = endTime;
+    }
+
+    const model = this.getModelByInterval(base) as Model<any>;
+
+    let records: any[];
+    if (baseBuckets === 1) {
+      records = await model
+        .find(query)
+        .sort({ date: -1 })
+        .limit(limit)
+        .exec();
+    } else {
+      // One extra candle's worth of buckets, as the oldest candle read may be incomplete
+      const baseLimit = (limit + 1) * baseBuckets;
+      const baseRecords = await model
+        .find(query)
+        .sort({ date: -1 })
+        .limit(baseLimit)
+        .exec();
+
+      const candles = this.rollUpCandles([...baseRecords].reverse(), interval);
+      if (baseRecords.length === baseLimit) {
+        candles.shift();
+      }
+      records = candles.reverse().slice(0, limit);
+    }
+
+    if (fill) {
+      records = await this.fillCandles(records, chainId, tokenAddress, interval, startTime, endTime, limit);
+    }
+
+    if (quote !== PriceQuote.NATIVE) {
+      return records;
+    }
+
+    // Native quote: OHLC in native units, the native fields stay alongside
+    return records.map((record) => {
+      const candle = typeof record.toObject === 'function' ? record.toObject() : record;
+      return {
+        ...candle,
+        open: candle.openNative,
+        high: candle.highNative,
+        low: candle.lowNative,
+        close: candle.closeNative,
+      };
+    });
+  }
+
+  /**
+   * Get pool data for a specific interval
+   */
+  async getPoolData(
+    poolId: string,
+    interval: TimeInterval,
+    startTime?: Date,
+    endTime?: Date,
+    limit = 100,
+    chainId = this.configService.defaultChainId,
+  ): Promise<(PoolMinute | PoolHour | PoolDay)[]> {
+    const query: any = { chainId, poolId: poolId.toLowerCase() };
+
+    if (startTime || endTime) {
+      query.date = {};
+      if (startTime) query.date.$gte = startTime;
+      if (endTime) query.date.$lte = endTime;
+    }
+
+    const model = this.getPoolModelByInterval(interval) as Model<any>;
 
     return model
       .find(query)
@@ -606,87 +2212,195 @@ export class AggregationService implements OnModuleInit {
       .exec();
   }
 
-/**
- * Search through graph to find derived Eth per token.
- * @todo update to be derived ETH (add stablecoin estimates)
- **/
-private async findNativePerToken(
-  token: Token,
-  wrappedNativeAddress: string,
-  stablecoinAddresses: string[],
-  minimumNativeLocked: bigint,
-): Promise<number> {
-  console.log("--------------------------------");
-  console.log('token.address', token.address);
-  if (token.address == wrappedNativeAddress || token.address == '0x0000000000000000000000000000000000000000') {
-    return 1
-  }
-  const whiteList = token.whitelistPools
-  // for now just take USD from pool with greatest TVL
-  // need to update this to actually detect best rate based on liquidity distribution
-  let largestLiquidityBTC = ZERO_BD
-  let priceSoFar = ZERO_BD
-
-  // hardcoded fix for incorrect rates
-  // if whitelist includes token - get the safe price
-  if (stablecoinAddresses.includes(token.address)) {
-    const btcPrice = await this.getNativePriceInUSD()
-    if (!btcPrice) {
-      return 1
-    }
-    priceSoFar = 1 / btcPrice
-  } else {
-    console.log('whitelist', whiteList);
-
-    for (let i = 0; i < whiteList.length; ++i) {
-      const poolAddress = whiteList[i]
-      const pool = await this.poolModel.findOne({ poolId: poolAddress })
-
-      if (pool) {
-        const poolLiquidity = BigInt(pool.liquidity || '0');
-        if (poolLiquidity > BigInt(0)) {
-          if (pool.currency0 == token.address) {
-            // whitelist token is token1
-            const token1 = await this.tokenModel.findOne({ address: pool.currency1 })
-            // get the derived ETH in pool
-            if (token1) {
-              // Use liquidity as a proxy for pool size
-              const tvlDecimal = this.toDecimal(pool.totalValueLockedToken1, token1.decimals);
-              const btcLocked = tvlDecimal * parseFloat(token1.derivedBTC)
-              console.log('token1', token1);
-              console.log('pool.totalValueLockedToken1', tvlDecimal);
-              console.log('token1.derivedBTC', token1.derivedBTC);
-              console.log('btcLocked', btcLocked);
-
-              if (btcLocked > largestLiquidityBTC && btcLocked > Number(minimumNativeLocked)) {
-                largestLiquidityBTC = btcLocked
-                // token1 per our token * Eth per token1
-                priceSoFar = parseFloat(pool.token1Price) * parseFloat(token1.derivedBTC)
-              }
-            }
+  /**
+   * Volume of each hooks contract's pools over a time range, summed from their candles
+   * of an interval. Vanilla pools are grouped under the zero address, so hooked pools
+   * can be compared against them. Sorted by USD volume, highest first.
+   */
+  async getVolumeByHook(
+    interval: TimeInterval = TimeInterval.DAY,
+    startTime?: Date,
+    endTime?: Date,
+    chainId = this.configService.defaultChainId,
+  ): Promise<HookVolume[]> {
+    const match: any = { chainId };
+
+    if (startTime || endTime) {
+      match.date = {};
+      if (startTime) match.date.$gte = startTime;
+      if (endTime) match.date.$lte = endTime;
+    }
+
+    const model = this.getPoolModelByInterval(interval) as Model<any>;
+
+    const results = await model.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: '$poolId',
+          volumeUSD: { $sum: '$volumeUSD' },
+          untrackedVolumeUSD: { $sum: '$untrackedVolumeUSD' },
+          feesUSD: { $sum: '$feesUSD' },
+          txCount: { $sum: '$txCount' },
+        },
+      },
+      { $lookup: { from: this.poolModel.collection.name, localField: '_id', foreignField: 'poolId', as: 'pool' } },
+      { $unwind: '$pool' },
+      { $match: { 'pool.chainId': chainId } },
+      {
+        $group: {
+          _id: '$pool.hooks',
+          pools: { $sum: 1 },
+          dynamicFeePools: { $sum: { $cond: [{ $eq: ['$pool.fee', DYNAMIC_FEE_FLAG] }, 1, 0] } },
+          volumeUSD: { $sum: '$volumeUSD' },
+          untrackedVolumeUSD: { $sum: '$untrackedVolumeUSD' },
+          feesUSD: { $sum: '$feesUSD' },
+          txCount: { $sum: '$txCount' },
+        },
+      },
+      { $sort: { volumeUSD: -1 } },
+    ]);
+
+    return results.map((result) => ({
+      ...this.hookRegistryService.describeHooks(chainId, result._id),
+      pools: result.pools,
+      dynamicFeePools: result.dynamicFeePools,
+      volumeUSD: decimal128ToString(result.volumeUSD) ?? '0',
+      untrackedVolumeUSD: decimal128ToString(result.untrackedVolumeUSD) ?? '0',
+      feesUSD: decimal128ToString(result.feesUSD) ?? '0',
+      txCount: result.txCount,
+    }));
+  }
+
+  /**
+   * Price a token in the native token by routing it through pools towards the wrapped
+   * native token. Paths follow the tokens' whitelist pools, so every token after the
+   * first is whitelisted, and are at most `priceMaxHops` pools long. A path only counts
+   * when each of its pools holds `minimumNativeLocked` of native value on the side the
+   * path moves to; its liquidity is the smallest of these. The price is the average of
+   * the paths' prices weighted by their liquidity, and `pricePath` the most liquid path.
+   * Returns null when no path qualifies.
+   */
+  private async findNativePerToken(
+    token: TokenDocument,
+    chain: ChainConfig,
+  ): Promise<{ derivedBTC: BigDecimal; pricePath: string[] } | null> {
+    if (token.address === chain.wrappedNativeAddress || token.address === ethers.ZeroAddress) {
+      return { derivedBTC: ONE_BD, pricePath: [] };
+    }
+
+    // Stablecoins are pinned to the USD reference price
+    if (chain.stablecoinAddresses.includes(token.address)) {
+      const nativePriceUSD = await this.getNativePriceInUSD(token.chainId);
+      return { derivedBTC: nativePriceUSD.isZero() ? ONE_BD : ONE_BD.div(nativePriceUSD), pricePath: [] };
+    }
+
+    const tokens = new Map<string, TokenDocument | null>([[token.address, token]]);
+    const pools = new Map<string, PoolDocument | null>();
+    const getToken = async (address: string) => {
+      if (!tokens.has(address)) {
+        tokens.set(address, await this.tokenModel.findOne({ chainId: token.chainId, address }));
+      }
+      return tokens.get(address);
+    };
+    const getPools = async (poolIds: string[]) => {
+      const missing = poolIds.filter((poolId) => !pools.has(poolId));
+      if (missing.length > 0) {
+        const found = await this.poolModel.find({ chainId: token.chainId, poolId: { $in: missing } }).exec();
+        missing.forEach((poolId) => pools.set(poolId, found.find((pool) => pool.poolId === poolId) || null));
+      }
+      return poolIds.map((poolId) => pools.get(poolId)).filter(Boolean);
+    };
+
+    // Breadth-first over paths: one more pool per round
+    type PriceHop = { pool: PoolDocument; from: string; to: string };
+    let frontier: { address: string; hops: PriceHop[] }[] = [{ address: token.address, hops: [] }];
+    const candidates: { price: BigDecimal; liquidity: BigDecimal; pricePath: string[] }[] = [];
+
+    for (let round = 0; round < this.configService.priceMaxHops && frontier.length > 0; round++) {
+      const next: typeof frontier = [];
+
+      for (const { address, hops } of frontier) {
+        const current = await getToken(address);
+        if (!current) {
+          continue;
+        }
+
+        const visited = new Set([token.address, ...hops.map((hop) => hop.to)]);
+        for (const pool of await getPools(current.whitelistPools)) {
+          if (BigInt(pool.liquidity || '0') === ZERO_BI) {
+            continue;
+          }
+
+          const to = pool.currency0 === address ? pool.currency1 : pool.currency0;
+          if (visited.has(to)) {
+            continue;
           }
-          if (pool.currency1 == token.address) {
-            const token0 = await this.tokenModel.findOne({ address: pool.currency0 })
-            // get the derived ETH in pool
-            if (token0) {
-              // Use liquidity as a proxy for pool size
-              const tvlDecimal = this.toDecimal(pool.totalValueLockedToken0, token0.decimals);
-              const btcLocked = tvlDecimal * parseFloat(token0.derivedBTC)
-              console.log('token0', token0);
-              console.log('pool.totalValueLockedToken0', tvlDecimal);
-              console.log('token0.derivedBTC', token0.derivedBTC);
-              console.log('btcLocked', btcLocked);
-              if (btcLocked > largestLiquidityBTC && btcLocked > Number(minimumNativeLocked)) {
-                largestLiquidityBTC = btcLocked
-                // token0 per our token * ETH per token0
-                priceSoFar = parseFloat(pool.token0Price) * parseFloat(token0.derivedBTC)
-              }
+
+          const path = [...hops, { pool, from: address, to }];
+          if (to === chain.wrappedNativeAddress) {
+            const candidate = await this.pricePath(path, getToken, chain.minimumNativeLocked);
+            if (candidate) {
+              candidates.push(candidate);
             }
+          } else {
+            next.push({ address: to, hops: path });
           }
         }
       }
+
+      frontier = next;
+    }
+
+    const totalLiquidity = candidates.reduce((total, candidate) => total.plus(candidate.liquidity), ZERO_BD);
+    if (totalLiquidity.isZero()) {
+      return null;
+    }
+
+    const derivedBTC = candidates
+      .reduce((total, candidate) => total.plus(candidate.price.times(candidate.liquidity)), ZERO_BD)
+      .div(totalLiquidity);
+    const mostLiquid = candidates.reduce((best, candidate) => (candidate.liquidity.gt(best.liquidity) ? candidate : best));
+
+    return { derivedBTC, pricePath: mostLiquid.pricePath };
+  }
+
+  /**
+   * Price and liquidity of a path ending in the wrapped native token, walked back from
+   * the native end so every pool's native liquidity is valued at the price of the
+   * token it leads to. Null when a pool falls short of the minimum.
+   */
+  private async pricePath(
+    path: { pool: PoolDocument; from: string; to: string }[],
+    getToken: (address: string) => Promise<TokenDocument | null>,
+    minimumNativeLocked: number,
+  ): Promise<{ price: BigDecimal; liquidity: BigDecimal; pricePath: string[] } | null> {
+    let price = ONE_BD;
+    let liquidity: BigDecimal | null = null;
+
+    for (const { pool, from, to } of [...path].reverse()) {
+      const toToken = await getToken(to);
+      if (!toToken) {
+        return null;
+      }
+
+      const isToken0 = pool.currency0 === to;
+      const locked = BigDecimal.fromRaw(
+        (isToken0 ? pool.totalValueLockedToken0 : pool.totalValueLockedToken1) || '0',
+        toToken.decimals,
+      );
+      const nativeLocked = locked.times(price);
+      if (nativeLocked.lt(minimumNativeLocked) || nativeLocked.isZero()) {
+        return null;
+      }
+      liquidity = liquidity ? BigDecimal.min(liquidity, nativeLocked) : nativeLocked;
+
+      // token1Price is token1 per token0 and token0Price its inverse
+      price = price.times(BigDecimal.from(pool.currency0 === from ? pool.token1Price : pool.token0Price));
     }
+
+    return price.gt(ZERO_BD)
+      ? { price, liquidity, pricePath: path.map((hop) => hop.pool.poolId) }
+      : null;
   }
-  return priceSoFar
-}
 }
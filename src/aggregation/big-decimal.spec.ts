@@ -0,0 +1,68 @@
+import { BigDecimal } from './big-decimal';
+
+describe('BigDecimal', () => {
+  const bd = (value: string | number | bigint) => BigDecimal.from(value);
+
+  describe('from', () => {
+    it('should parse plain and exponent notation', () => {
+      expect(bd('-12.500').toString()).toBe('-12.5');
+      expect(bd('1.2E-7').toString()).toBe('0.00000012');
+      expect(bd('1.5e+3').toString()).toBe('1500');
+      expect(bd(0.000001).toString()).toBe('0.000001');
+      expect(bd(BigInt('123456789012345678901234567890')).toString()).toBe('123456789012345678901234567890');
+    });
+
+    it('should treat missing and invalid values as zero', () => {
+      expect(BigDecimal.from(undefined).isZero()).toBe(true);
+      expect(bd('').isZero()).toBe(true);
+      expect(bd('abc').isZero()).toBe(true);
+      expect(bd(NaN).isZero()).toBe(true);
+      expect(bd(Infinity).isZero()).toBe(true);
+    });
+
+    it('should scale raw token amounts by their decimals', () => {
+      expect(BigDecimal.fromRaw('1234567890123456789', 18).toString()).toBe('1.234567890123456789');
+      expect(BigDecimal.fromRaw(BigInt(-5), 6).toString()).toBe('-0.000005');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should keep prices floats would round away', () => {
+      const priceUSD = bd('0.000000000000123456789').times(bd('3456.78'));
+
+      expect(priceUSD.toString()).toBe('0.00000000042676295907942');
+      expect(bd('0.1').plus('0.2').toString()).toBe('0.3');
+    });
+
+    it('should round quotients to 40 significant digits', () => {
+      expect(bd(1).div(3).toString()).toBe(`0.${'3'.repeat(40)}`);
+      expect(bd(2).div(3).toString()).toBe(`0.${'6'.repeat(39)}7`);
+      expect(bd(-1).div(8).toString()).toBe('-0.125');
+    });
+
+    it('should return zero when dividing by zero', () => {
+      expect(bd(5).div(0).isZero()).toBe(true);
+    });
+
+    it('should compare values of different scales', () => {
+      expect(bd('0.00000001').gt('0.000000009')).toBe(true);
+      expect(bd('2.50').eq('2.5')).toBe(true);
+      expect(BigDecimal.max(bd('-1'), bd('-2')).toString()).toBe('-1');
+      expect(BigDecimal.min(bd('1e-30'), bd(0)).toString()).toBe('0');
+    });
+  });
+
+  describe('formatting', () => {
+    it('should round to fixed decimals half away from zero', () => {
+      expect(bd('2.345').toFixed(2)).toBe('2.35');
+      expect(bd('-2.345').toFixed(2)).toBe('-2.35');
+      expect(bd(0).toFixed(6)).toBe('0.000000');
+      expect(bd('1500').toFixed(0)).toBe('1500');
+    });
+
+    it('should truncate to an integer', () => {
+      expect(bd('1.9e3').toBigInt()).toBe(BigInt(1900));
+      expect(bd('-7.9').toBigInt()).toBe(BigInt(-7));
+    });
+  });
+});
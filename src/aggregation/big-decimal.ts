@@ -0,0 +1,237 @@
+// Significant digits kept by rounded operations, more than the 34 a Decimal128 stores
+const PRECISION = 40;
+
+// Decimal strings, with an optional fraction and exponent (e.g. '-12.5', '1.2E-7')
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+export type BigDecimalValue = BigDecimal | string | number | bigint;
+
+const TEN = BigInt(10);
+
+function pow10(exponent: number): bigint {
+  return TEN ** BigInt(exponent);
+}
+
+function digitCount(value: bigint): number {
+  return (value < 0 ? -value : value).toString().length;
+}
+
+/**
+ * Arbitrary-precision decimal, `coefficient` × 10^`exponent`, for prices and amounts
+ * that floats cannot carry (tiny prices, 18-decimal amounts, squared sqrt prices).
+ * Results are rounded to 40 significant digits, so sums of stored values are exact.
+ * Values are immutable and kept without trailing zeros.
+ */
+export class BigDecimal {
+  static readonly ZERO = new BigDecimal(BigInt(0), 0);
+  static readonly ONE = new BigDecimal(BigInt(1), 0);
+
+  private constructor(
+    readonly coefficient: bigint,
+    readonly exponent: number,
+  ) {}
+
+  /**
+   * Decimal of a string, number or integer. Like `parseFloat(value) || 0`, missing,
+   * unparsable and non-finite values are zero.
+   */
+  static from(value: BigDecimalValue | null | undefined): BigDecimal {
+    if (value instanceof BigDecimal) {
+      return value;
+    }
+    if (typeof value === 'bigint') {
+      return BigDecimal.create(value, 0);
+    }
+    if (value === null || value === undefined || (typeof value === 'number' && !Number.isFinite(value))) {
+      return BigDecimal.ZERO;
+    }
+
+    const match = DECIMAL_PATTERN.exec(value.toString().trim());
+    if (!match || (!match[2] && !match[3])) {
+      return BigDecimal.ZERO;
+    }
+
+    const [, sign, whole, fraction = '', exponent = '0'] = match;
+    const coefficient = BigInt(`${sign}${whole}${fraction}` || '0');
+    return BigDecimal.create(coefficient, parseInt(exponent, 10) - fraction.length);
+  }
+
+  /**
+   * Decimal amount of a raw token amount with the token's decimals
+   */
+  static fromRaw(amount: bigint | string, decimals: number): BigDecimal {
+    return BigDecimal.create(BigInt(amount), -decimals);
+  }
+
+  static max(a: BigDecimal, b: BigDecimal): BigDecimal {
+    return a.gte(b) ? a : b;
+  }
+
+  static min(a: BigDecimal, b: BigDecimal): BigDecimal {
+    return a.lte(b) ? a : b;
+  }
+
+  /**
+   * Decimal rounded half away from zero to PRECISION significant digits, without trailing zeros
+   */
+  private static create(coefficient: bigint, exponent: number): BigDecimal {
+    if (coefficient === BigInt(0)) {
+      return new BigDecimal(coefficient, 0);
+    }
+
+    const excess = digitCount(coefficient) - PRECISION;
+    if (excess > 0) {
+      coefficient = BigDecimal.roundDiv(coefficient, pow10(excess));
+      exponent += excess;
+    }
+    while (coefficient % TEN === BigInt(0)) {
+      coefficient /= TEN;
+      exponent++;
+    }
+    return new BigDecimal(coefficient, exponent);
+  }
+
+  /**
+   * Integer quotient rounded half away from zero
+   */
+  private static roundDiv(numerator: bigint, denominator: bigint): bigint {
+    const quotient = numerator / denominator;
+    const remainder = numerator % denominator;
+    const doubled = (remainder < 0 ? -remainder : remainder) * BigInt(2);
+    if (doubled < (denominator < 0 ? -denominator : denominator)) {
+      return quotient;
+    }
+    return (numerator < 0) !== (denominator < 0) ? quotient - BigInt(1) : quotient + BigInt(1);
+  }
+
+  plus(other: BigDecimalValue): BigDecimal {
+    const b = BigDecimal.from(other);
+    if (b.isZero()) {
+      return this;
+    }
+    if (this.isZero()) {
+      return b;
+    }
+
+    const exponent = Math.min(this.exponent, b.exponent);
+    return BigDecimal.create(
+      this.coefficient * pow10(this.exponent - exponent) + b.coefficient * pow10(b.exponent - exponent),
+      exponent,
+    );
+  }
+
+  minus(other: BigDecimalValue): BigDecimal {
+    return this.plus(BigDecimal.from(other).neg());
+  }
+
+  times(other: BigDecimalValue): BigDecimal {
+    const b = BigDecimal.from(other);
+    return BigDecimal.create(this.coefficient * b.coefficient, this.exponent + b.exponent);
+  }
+
+  /**
+   * Quotient rounded to PRECISION significant digits; zero when dividing by zero
+   */
+  div(other: BigDecimalValue): BigDecimal {
+    const b = BigDecimal.from(other);
+    if (b.isZero() || this.isZero()) {
+      return BigDecimal.ZERO;
+    }
+
+    // Scale the numerator so the quotient has a digit to spare for rounding
+    const shift = Math.max(0, PRECISION + 1 + digitCount(b.coefficient) - digitCount(this.coefficient));
+    return BigDecimal.create(
+      BigDecimal.roundDiv(this.coefficient * pow10(shift), b.coefficient),
+      this.exponent - b.exponent - shift,
+    );
+  }
+
+  neg(): BigDecimal {
+    return new BigDecimal(-this.coefficient, this.exponent);
+  }
+
+  abs(): BigDecimal {
+    return this.coefficient < 0 ? this.neg() : this;
+  }
+
+  isZero(): boolean {
+    return this.coefficient === BigInt(0);
+  }
+
+  /**
+   * -1, 0 or 1 as this is less than, equal to or greater than `other`
+   */
+  cmp(other: BigDecimalValue): number {
+    const difference = this.minus(other).coefficient;
+    return difference > 0 ? 1 : difference < 0 ? -1 : 0;
+  }
+
+  eq(other: BigDecimalValue): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  gt(other: BigDecimalValue): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: BigDecimalValue): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  lt(other: BigDecimalValue): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: BigDecimalValue): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  /**
+   * Integer part, truncated toward zero
+   */
+  toBigInt(): bigint {
+    return this.exponent >= 0
+      ? this.coefficient * pow10(this.exponent)
+      : this.coefficient / pow10(-this.exponent);
+  }
+
+  /**
+   * Value rounded half away from zero to `decimals` decimal places, in plain notation
+   */
+  toFixed(decimals: number): string {
+    const shift = -decimals - this.exponent;
+    const scaled = shift > 0
+      ? BigDecimal.roundDiv(this.coefficient, pow10(shift))
+      : this.coefficient * pow10(-shift);
+    return BigDecimal.plain(scaled, decimals);
+  }
+
+  /**
+   * Full-precision value in plain notation (no exponent), as stored in string fields
+   */
+  toString(): string {
+    return this.exponent >= 0
+      ? (this.coefficient * pow10(this.exponent)).toString()
+      : BigDecimal.plain(this.coefficient, -this.exponent);
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * `scaled` / 10^`decimals` in plain notation with exactly `decimals` decimal places
+   */
+  private static plain(scaled: bigint, decimals: number): string {
+    const sign = scaled < 0 ? '-' : '';
+    const digits = (scaled < 0 ? -scaled : scaled).toString().padStart(decimals + 1, '0');
+    if (decimals === 0) {
+      return `${sign}${digits}`;
+    }
+    return `${sign}${digits.slice(0, -decimals)}.${digits.slice(-decimals)}`;
+  }
+}
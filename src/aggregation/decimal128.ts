@@ -0,0 +1,32 @@
+import { Types } from 'mongoose';
+import { BigDecimal } from './big-decimal';
+
+/**
+ * Decimal128 value of a decimal string or number. Values with more than the 34
+ * significant digits Decimal128 holds are rounded instead of rejected.
+ */
+export function toDecimal128(value: string | number | bigint | BigDecimal): Types.Decimal128 {
+  return Types.Decimal128.fromStringWithRounding(value.toString());
+}
+
+/**
+ * Schema getter returning Decimal128 fields as decimal strings, as they were stored
+ * before. Plain notation, so tiny prices don't come out as e.g. '1.5E-9'.
+ */
+export function decimal128ToString(value?: Types.Decimal128): string | undefined {
+  return value ? BigDecimal.from(value.toString()).toString() : undefined;
+}
+
+/**
+ * Integer value of a decimal string, including the exponent notation Decimal128
+ * uses for rounded values (e.g. '1.234E+40'). Any fraction is truncated.
+ */
+export function decimalToBigInt(value: string): bigint {
+  return BigDecimal.from(value).toBigInt();
+}
+
+// Schema options serializing Decimal128 fields through their getters
+export const DECIMAL128_SCHEMA_OPTIONS = {
+  toJSON: { getters: true, virtuals: false },
+  toObject: { getters: true, virtuals: false },
+};
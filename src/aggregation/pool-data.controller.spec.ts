@@ -0,0 +1,63 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PoolDataController } from './pool-data.controller';
+import { AggregationService, TimeInterval } from './aggregation.service';
+
+describe('PoolDataController', () => {
+  let controller: PoolDataController;
+  let mockAggregationService: any;
+
+  beforeEach(async () => {
+    mockAggregationService = {
+      getPoolData: jest.fn().mockResolvedValue([]),
+      getVolumeByHook: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PoolDataController],
+      providers: [{ provide: AggregationService, useValue: mockAggregationService }],
+    }).compile();
+
+    controller = module.get<PoolDataController>(PoolDataController);
+  });
+
+  describe('getPoolData', () => {
+    it('should query pool candles of a stored interval', async () => {
+      await controller.getPoolData('0xpool', TimeInterval.HOUR, '2024-01-01', undefined, '10', '8453');
+
+      expect(mockAggregationService.getPoolData).toHaveBeenCalledWith(
+        '0xpool',
+        TimeInterval.HOUR,
+        new Date('2024-01-01'),
+        undefined,
+        10,
+        8453,
+      );
+    });
+
+    it('should reject an unsupported interval with 400', async () => {
+      await expect(controller.getPoolData('0xpool', '5m' as TimeInterval)).rejects.toThrow(BadRequestException);
+      await expect(controller.getPoolData('0xpool', undefined)).rejects.toThrow(BadRequestException);
+      expect(mockAggregationService.getPoolData).not.toHaveBeenCalled();
+    });
+
+    it('should reject a missing poolId with 400', async () => {
+      await expect(controller.getPoolData(undefined, TimeInterval.HOUR)).rejects.toThrow(BadRequestException);
+      await expect(controller.getPoolData('', TimeInterval.HOUR)).rejects.toThrow(BadRequestException);
+      expect(mockAggregationService.getPoolData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getVolumeByHook', () => {
+    it('should leave the default interval to the service', async () => {
+      await controller.getVolumeByHook(undefined, undefined, undefined, '1');
+
+      expect(mockAggregationService.getVolumeByHook).toHaveBeenCalledWith(undefined, undefined, undefined, 1);
+    });
+
+    it('should reject an unsupported interval with 400', async () => {
+      await expect(controller.getVolumeByHook('week' as TimeInterval)).rejects.toThrow(BadRequestException);
+      expect(mockAggregationService.getVolumeByHook).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { BadRequestException, Controller, Get, Query } from '@nestjs/common';
+import { AggregationService, TimeInterval } from './aggregation.service';
+import { PoolMinute } from './schemas/pool-minute.schema';
+import { PoolHour } from './schemas/pool-hour.schema';
+import { PoolDay } from './schemas/pool-day.schema';
+import { HookVolume } from '../hooks/interfaces/hook-info.interface';
+
+@Controller('pool-data')
+export class PoolDataController {
+  constructor(private readonly aggregationService: AggregationService) {}
+
+  @Get()
+  async getPoolData(
+    @Query('poolId') poolId: string,
+    @Query('interval') interval: TimeInterval,
+    @Query('startTime') startTime?: string,
+    @Query('endTime') endTime?: string,
+    @Query('limit') limit?: string,
+    @Query('chainId') chainId?: string,
+  ): Promise<(PoolMinute | PoolHour | PoolDay)[]> {
+    if (!poolId) {
+      throw new BadRequestException('poolId is required');
+    }
+    this.validateInterval(interval);
+
+    const startDate = startTime ? new Date(startTime) : undefined;
+    const endDate = endTime ? new Date(endTime) : undefined;
+    const limitNum = limit ? parseInt(limit, 10) : 100;
+    const chainIdNum = chainId ? parseInt(chainId, 10) : undefined;
+
+    return this.aggregationService.getPoolData(
+      poolId,
+      interval,
+      startDate,
+      endDate,
+      limitNum,
+      chainIdNum,
+    );
+  }
+
+  @Get('hooks')
+  async getVolumeByHook(
+    @Query('interval') interval?: TimeInterval,
+    @Query('startTime') startTime?: string,
+    @Query('endTime') endTime?: string,
+    @Query('chainId') chainId?: string,
+  ): Promise<HookVolume[]> {
+    if (interval !== undefined) {
+      this.validateInterval(interval);
+    }
+
+    const startDate = startTime ? new Date(startTime) : undefined;
+    const endDate = endTime ? new Date(endTime) : undefined;
+    const chainIdNum = chainId ? parseInt(chainId, 10) : undefined;
+
+    return this.aggregationService.getVolumeByHook(
+      interval,
+      startDate,
+      endDate,
+      chainIdNum,
+    );
+  }
+
+  // Pool candles are only stored per minute, hour and day
+  private validateInterval(interval: string) {
+    if (!Object.values(TimeInterval).includes(interval as TimeInterval)) {
+      throw new BadRequestException(
+        `Unsupported interval ${interval}, expected one of ${Object.values(TimeInterval).join(', ')}`,
+      );
+    }
+  }
+}
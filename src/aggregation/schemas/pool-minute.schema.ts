@@ -0,0 +1,109 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes } from 'mongoose';
+import { DECIMAL128_SCHEMA_OPTIONS, decimal128ToString } from '../decimal128';
+
+export type PoolMinuteDocument = PoolMinute & Document;
+
+export enum RecordStatus {
+  CURRENT = 'current', // Currently being updated in real-time
+  FINALIZED = 'finalized', // Period ended, record is final
+}
+
+@Schema({ timestamps: true, ...DECIMAL128_SCHEMA_OPTIONS })
+export class PoolMinute {
+  @Prop({ required: true, index: true })
+  chainId: number;
+
+  @Prop({ required: true, index: true, set: (val: string) => val.toLowerCase() })
+  poolId: string;
+
+  @Prop({ required: true, index: true })
+  date: Date;
+
+  // UTC period index from the unix epoch (date = periodId * period length)
+  @Prop({ index: true })
+  periodId: number;
+
+  @Prop({ required: true, default: RecordStatus.CURRENT, index: true })
+  status: RecordStatus;
+
+  // Prices at end of period (token0 in token1 and token1 in token0)
+  @Prop({ required: true, default: '0' })
+  token0Price: string;
+
+  @Prop({ required: true, default: '0' })
+  token1Price: string;
+
+  // OHLC of token0Price
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
+  token0Open: string;
+
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
+  token0High: string;
+
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
+  token0Low: string;
+
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
+  token0Close: string;
+
+  // OHLC of token1Price
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
+  token1Open: string;
+
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
+  token1High: string;
+
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
+  token1Low: string;
+
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
+  token1Close: string;
+
+  // Volume in token units
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
+  volumeToken0: string;
+
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
+  volumeToken1: string;
+
+  // Volume in derived USD
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
+  volumeUSD: string;
+
+  // Volume in USD even when neither token is whitelisted
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
+  untrackedVolumeUSD: string;
+
+  // Fees in USD
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
+  feesUSD: string;
+
+  // Pool state at end of period
+  @Prop({ required: true, default: '0' })
+  liquidity: string;
+
+  @Prop({ required: true, default: '0' })
+  sqrtPriceX96: string;
+
+  @Prop({ required: true, default: 0 })
+  tick: number;
+
+  @Prop({ required: true, default: '0' })
+  totalValueLockedToken0: string;
+
+  @Prop({ required: true, default: '0' })
+  totalValueLockedToken1: string;
+
+  @Prop({ required: true, default: '0' })
+  totalValueLockedUSD: string;
+
+  // Transaction count
+  @Prop({ required: true, default: 0 })
+  txCount: number;
+}
+
+export const PoolMinuteSchema = SchemaFactory.createForClass(PoolMinute);
+
+// Unique index for chain + pool + date
+PoolMinuteSchema.index({ chainId: 1, poolId: 1, date: 1 }, { unique: true });
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document } from 'mongoose';
+import { Document, SchemaTypes } from 'mongoose';
+import { DECIMAL128_SCHEMA_OPTIONS, decimal128ToString } from '../decimal128';
 
 export type TokenHourDocument = TokenHour & Document;
 
@@ -8,58 +9,81 @@ export enum RecordStatus {
   FINALIZED = 'finalized', // Period ended, record is final
 }
 
-@Schema({ timestamps: true })
+@Schema({ timestamps: true, ...DECIMAL128_SCHEMA_OPTIONS })
 export class TokenHour {
+  @Prop({ required: true, index: true })
+  chainId: number;
+
   @Prop({ required: true, index: true, set: (val: string) => val.toLowerCase() })
   tokenAddress: string;
 
   @Prop({ required: true, index: true })
   date: Date;
 
+  // UTC period index from the unix epoch (date = periodId * period length)
+  @Prop({ index: true })
+  periodId: number;
+
   @Prop({ required: true, default: RecordStatus.CURRENT, index: true })
   status: RecordStatus;
 
   // Volume in token units
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   volume: string;
 
   // Volume in derived USD
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   volumeUSD: string;
 
   // Volume in USD even on pools with less reliable USD values
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   untrackedVolumeUSD: string;
 
   // Liquidity across all pools in token units
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   totalValueLocked: string;
 
   // Liquidity across all pools in derived USD
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   totalValueLockedUSD: string;
 
   // Price at end of period in USD
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   priceUSD: string;
 
   // Fees in USD
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   feesUSD: string;
 
   // OHLC prices in USD
-  @Prop({ default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
   open: string;
 
-  @Prop({ default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
   high: string;
 
-  @Prop({ default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
   low: string;
 
-  @Prop({ default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
   close: string;
 
+  // Price at end of period and OHLC prices in the chain's native token
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
+  priceNative: string;
+
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
+  openNative: string;
+
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
+  highNative: string;
+
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
+  lowNative: string;
+
+  @Prop({ type: SchemaTypes.Decimal128, default: '0', get: decimal128ToString })
+  closeNative: string;
+
   // Transaction count
   @Prop({ required: true, default: 0 })
   txCount: number;
@@ -67,5 +91,5 @@ export class TokenHour {
 
 export const TokenHourSchema = SchemaFactory.createForClass(TokenHour);
 
-// Unique index for token + date
-TokenHourSchema.index({ tokenAddress: 1, date: 1 }, { unique: true });
+// Unique index for chain + token + date
+TokenHourSchema.index({ chainId: 1, tokenAddress: 1, date: 1 }, { unique: true });
@@ -1,11 +1,15 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document } from 'mongoose';
+import { Document, SchemaTypes } from 'mongoose';
+import { DECIMAL128_SCHEMA_OPTIONS, decimal128ToString } from '../decimal128';
 
 export type TokenDocument = Token & Document;
 
-@Schema({ timestamps: true })
+@Schema({ timestamps: true, ...DECIMAL128_SCHEMA_OPTIONS })
 export class Token {
-  @Prop({ required: true, unique: true, set: (val: string) => val.toLowerCase() })
+  @Prop({ required: true, index: true })
+  chainId: number;
+
+  @Prop({ required: true, set: (val: string) => val.toLowerCase() })
   address: string;
 
   @Prop()
@@ -18,33 +22,37 @@ export class Token {
   decimals: number;
 
   // Cumulative volume in token units
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   volume: string;
 
   // Cumulative volume in USD
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   volumeUSD: string;
 
   // Cumulative untracked volume in USD
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   untrackedVolumeUSD: string;
 
   // Cumulative fees in USD
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   feesUSD: string;
 
   // Total value locked in token units
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   totalValueLocked: string;
 
   // Total value locked in USD
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   totalValueLockedUSD: string;
 
   // Token price derived in BTC
-  @Prop({ required: true, default: '0' })
+  @Prop({ type: SchemaTypes.Decimal128, required: true, default: '0', get: decimal128ToString })
   derivedBTC: string;
 
+  // Pools, from this token to the wrapped native token, of the most liquid path priced into derivedBTC
+  @Prop({ default: [], set: (val: string[]) => val.map(v => v.toLowerCase()) })
+  pricePath: string[];
+
   // Transaction count
   @Prop({ required: true, default: 0 })
   txCount: number;
@@ -55,3 +63,6 @@ export class Token {
 }
 
 export const TokenSchema = SchemaFactory.createForClass(Token);
+
+// Token addresses are unique per chain
+TokenSchema.index({ chainId: 1, address: 1 }, { unique: true });
@@ -6,6 +6,7 @@ import { ConfigModule } from './config/config.module';
 import { ConfigService } from './config/config.service';
 import { SwapEventsModule } from './swap-events/swap-events.module';
 import { AggregationModule } from './aggregation/aggregation.module';
+import { UdfModule } from './udf/udf.module';
 
 @Module({
   imports: [
@@ -21,6 +22,7 @@ import { AggregationModule } from './aggregation/aggregation.module';
     EventEmitterModule.forRoot(),
     SwapEventsModule,
     AggregationModule,
+    UdfModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,24 @@
+/**
+ * One indexed PoolManager deployment
+ */
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  // RPC endpoints for the provider pool, healthiest first
+  rpcUrls: string[];
+  poolManagerAddress: string;
+  // Block to start syncing from (usually the PoolManager deployment block)
+  startingBlock: number;
+  wrappedNativeAddress: string;
+  // Stablecoin-wrapped native pool used as the USD price reference
+  stablecoinWrappedNativePoolId: string;
+  stablecoinIsToken0: boolean;
+  stablecoinAddresses: string[];
+  whitelistTokens: string[];
+  // Native liquidity every pool of a price path must hold, in whole native units
+  minimumNativeLocked: number;
+  // Names of known hooks contracts, keyed by lowercase address
+  hookLabels: Record<string, string>;
+  // Fixture replayed for this chain when EVENT_SOURCE=file
+  eventSourceFile?: string;
+}
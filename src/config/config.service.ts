@@ -1,7 +1,11 @@
 import { Injectable } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { ChainConfig } from './chain-config.interface';
 
 @Injectable()
 export class ConfigService {
+  private chainRegistry: ChainConfig[] | null = null;
+
   get mongoUri(): string {
     return process.env.MONGODB_URI || 'mongodb://localhost:27017/uniswap-v4';
   }
@@ -10,10 +14,42 @@ export class ConfigService {
     return process.env.ETH_RPC_URL || 'https://eth-mainnet.alchemyapi.io/v2/YOUR_API_KEY';
   }
 
+  // Endpoints for the provider pool, healthiest first; defaults to ETH_RPC_URL alone
+  get ethRpcUrls(): string[] {
+    const urls = process.env.ETH_RPC_URLS || '';
+    return urls ? urls.split(',').map(url => url.trim()).filter(Boolean) : [this.ethRpcUrl];
+  }
+
+  get eventSource(): 'rpc' | 'file' {
+    return process.env.EVENT_SOURCE === 'file' ? 'file' : 'rpc';
+  }
+
+  get eventSourceFile(): string {
+    return process.env.EVENT_SOURCE_FILE || '';
+  }
+
+  get eventSourceLiveFromBlock(): number | undefined {
+    return process.env.EVENT_SOURCE_LIVE_FROM_BLOCK
+      ? parseInt(process.env.EVENT_SOURCE_LIVE_FROM_BLOCK, 10)
+      : undefined;
+  }
+
+  get eventSourceReplayIntervalMs(): number {
+    return parseInt(process.env.EVENT_SOURCE_REPLAY_INTERVAL_MS || '0', 10);
+  }
+
+  get rpcStallTimeoutMs(): number {
+    return parseInt(process.env.RPC_STALL_TIMEOUT_MS || '60000', 10);
+  }
+
   get uniswapV4PoolManagerAddress(): string {
     return process.env.UNISWAP_V4_POOL_MANAGER_ADDRESS || '';
   }
 
+  get candleUpdateThrottleMs(): number {
+    return parseInt(process.env.CANDLE_UPDATE_THROTTLE_MS || '1000', 10);
+  }
+
   get port(): number {
     return parseInt(process.env.PORT || '3000', 10);
   }
@@ -26,6 +62,14 @@ export class ConfigService {
     return parseInt(process.env.SYNC_BATCH_SIZE || '1000', 10);
   }
 
+  get reorgDepth(): number {
+    return parseInt(process.env.REORG_DEPTH || '64', 10);
+  }
+
+  get confirmationDepth(): number {
+    return parseInt(process.env.CONFIRMATION_DEPTH || '0', 10);
+  }
+
   get stablecoinWrappedNativePoolId(): string {
     return process.env.STABLECOIN_WRAPPED_NATIVE_POOL_ID || '';
   }
@@ -43,7 +87,102 @@ export class ConfigService {
     return tokens ? tokens.split(',').map(addr => addr.trim()) : [];
   }
 
+  get minimumNativeLocked(): number {
+    return parseFloat(process.env.MINIMUM_NATIVE_LOCKED || '1');
+  }
+
+  // Most pools a token's price may be routed through on its way to the wrapped native token
+  get priceMaxHops(): number {
+    return parseInt(process.env.PRICE_MAX_HOPS || '3', 10);
+  }
+
+  // Names of known hooks contracts, from comma-separated address=label pairs
+  get hookLabels(): Record<string, string> {
+    const labels: Record<string, string> = {};
+    for (const pair of (process.env.HOOK_LABELS || '').split(',')) {
+      const [address, label] = pair.split('=').map(part => part.trim());
+      if (address && label) {
+        labels[address.toLowerCase()] = label;
+      }
+    }
+    return labels;
+  }
+
   get stablecoinAddresses(): string[] {
     return process.env.STABLECOIN_ADDRESSES ? process.env.STABLECOIN_ADDRESSES.split(',').map(addr => addr.trim()) : [];
   }
+
+  /**
+   * Chains to index. Read from the JSON file at CHAINS_CONFIG (an array of chain
+   * entries); without it, a single chain is built from the variables above.
+   */
+  get chains(): ChainConfig[] {
+    if (!this.chainRegistry) {
+      this.chainRegistry = process.env.CHAINS_CONFIG
+        ? this.loadChainRegistry(process.env.CHAINS_CONFIG)
+        : [
+            {
+              chainId: parseInt(process.env.CHAIN_ID || '1', 10),
+              name: process.env.CHAIN_NAME || 'ethereum',
+              rpcUrls: this.ethRpcUrls,
+              poolManagerAddress: this.uniswapV4PoolManagerAddress,
+              startingBlock: this.startingBlock,
+              wrappedNativeAddress: this.wrappedNativeAddress.toLowerCase(),
+              stablecoinWrappedNativePoolId: this.stablecoinWrappedNativePoolId.toLowerCase(),
+              stablecoinIsToken0: this.stablecoinIsToken0,
+              stablecoinAddresses: this.stablecoinAddresses.map(addr => addr.toLowerCase()),
+              whitelistTokens: this.whitelistTokens.map(addr => addr.toLowerCase()),
+              minimumNativeLocked: this.minimumNativeLocked,
+              hookLabels: this.hookLabels,
+              eventSourceFile: this.eventSourceFile || undefined,
+            },
+          ];
+    }
+
+    return this.chainRegistry;
+  }
+
+  // Chain used when a request or subscription does not name one
+  get defaultChainId(): number {
+    return this.chains[0].chainId;
+  }
+
+  getChain(chainId: number): ChainConfig | undefined {
+    return this.chains.find(chain => chain.chainId === chainId);
+  }
+
+  private loadChainRegistry(filePath: string): ChainConfig[] {
+    const entries = JSON.parse(readFileSync(filePath, 'utf8'));
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new Error(`${filePath} must contain a non-empty array of chains`);
+    }
+
+    const lowercase = (addresses: string[] = []) => addresses.map(addr => addr.toLowerCase());
+
+    return entries.map((entry) => {
+      if (!entry.chainId || !entry.poolManagerAddress) {
+        throw new Error(`Every chain in ${filePath} needs a chainId and a poolManagerAddress`);
+      }
+
+      return {
+        chainId: Number(entry.chainId),
+        name: entry.name || String(entry.chainId),
+        rpcUrls: entry.rpcUrls || (entry.rpcUrl ? [entry.rpcUrl] : []),
+        poolManagerAddress: entry.poolManagerAddress,
+        startingBlock: Number(entry.startingBlock || 0),
+        wrappedNativeAddress: (entry.wrappedNativeAddress || '').toLowerCase(),
+        stablecoinWrappedNativePoolId: (entry.stablecoinWrappedNativePoolId || '').toLowerCase(),
+        stablecoinIsToken0: entry.stablecoinIsToken0 === true,
+        stablecoinAddresses: lowercase(entry.stablecoinAddresses),
+        whitelistTokens: lowercase(entry.whitelistTokens),
+        minimumNativeLocked: Number(entry.minimumNativeLocked ?? this.minimumNativeLocked),
+        hookLabels: entry.hookLabels ? this.lowercaseKeys(entry.hookLabels) : this.hookLabels,
+        eventSourceFile: entry.eventSourceFile,
+      };
+    });
+  }
+
+  private lowercaseKeys(labels: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(labels).map(([address, label]) => [address.toLowerCase(), label]));
+  }
 }
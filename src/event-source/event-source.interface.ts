@@ -0,0 +1,48 @@
+import { ethers } from 'ethers';
+
+// Injection token for the configured EventSource of every chain, keyed by chainId
+export const EVENT_SOURCES = 'EVENT_SOURCES';
+
+export interface EventSourceBlock {
+  number: number;
+  hash: string;
+  parentHash?: string;
+  timestamp: number; // seconds since epoch
+}
+
+export interface LogFilter {
+  address: string;
+  topics: Array<string | string[]>;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+/**
+ * Where the indexer reads chain data from: blocks, PoolManager logs and
+ * read-only contract calls (ERC20 metadata)
+ */
+export interface EventSource {
+  // Runner for read-only contract calls
+  readonly runner: ethers.ContractRunner;
+
+  connect(): Promise<void>;
+
+  getBlockNumber(): Promise<number>;
+
+  getBlock(blockNumber: number): Promise<EventSourceBlock | null>;
+
+  getLogs(filter: LogFilter): Promise<ethers.Log[]>;
+
+  onLog(filter: LogFilter, listener: (log: ethers.Log) => void): void;
+
+  onBlock(listener: (blockNumber: number) => void): void;
+
+  onError(listener: (error: Error) => void): void;
+
+  // Called after the connection was re-established; events in between may have been missed
+  onReconnect(listener: () => void): void;
+
+  destroy(): Promise<void>;
+}
+
+export type EventSourcesByChain = Map<number, EventSource>;
@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '../config/config.module';
+import { ConfigService } from '../config/config.service';
+import { EVENT_SOURCES, EventSource, EventSourcesByChain } from './event-source.interface';
+import { RpcEventSource } from './rpc-event-source';
+import { FileEventSource } from './file-event-source';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: EVENT_SOURCES,
+      useFactory: async (configService: ConfigService): Promise<EventSourcesByChain> => {
+        const eventSources: EventSourcesByChain = new Map();
+
+        for (const chain of configService.chains) {
+          const eventSource: EventSource =
+            configService.eventSource === 'file'
+              ? new FileEventSource(chain.eventSourceFile, {
+                  liveFromBlock: configService.eventSourceLiveFromBlock,
+                  replayIntervalMs: configService.eventSourceReplayIntervalMs,
+                })
+              : new RpcEventSource(chain.rpcUrls, {
+                  stallTimeoutMs: configService.rpcStallTimeoutMs,
+                });
+
+          await eventSource.connect();
+          eventSources.set(chain.chainId, eventSource);
+        }
+
+        return eventSources;
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [EVENT_SOURCES],
+})
+export class EventSourceModule {}
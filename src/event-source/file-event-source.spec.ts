@@ -0,0 +1,146 @@
+import { ethers } from 'ethers';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileEventSource } from './file-event-source';
+
+const POOL_MANAGER_ADDRESS = '0x000000000004444c5dc75cb358380d2e3de08a90';
+const TOKEN_ADDRESS = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const POOL_ID = '0x' + '11'.repeat(32);
+
+const poolManagerInterface = new ethers.Interface([
+  'event Swap(bytes32 indexed poolId, address indexed sender, int128 amount0, int128 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint24 fee)',
+]);
+const swapTopic = ethers.id('Swap(bytes32,address,int128,int128,uint160,uint128,int24,uint24)');
+
+function swapLog(blockNumber: number, index: number) {
+  const { topics, data } = poolManagerInterface.encodeEventLog('Swap', [
+    POOL_ID,
+    '0x0000000000000000000000000000000000000001',
+    1000n,
+    -2000n,
+    2n ** 96n,
+    5000n,
+    0,
+    3000,
+  ]);
+
+  return {
+    type: 'log',
+    address: POOL_MANAGER_ADDRESS,
+    topics,
+    data,
+    blockNumber,
+    blockHash: ethers.id(`block-${blockNumber}`),
+    transactionHash: ethers.id(`tx-${blockNumber}-${index}`),
+    index,
+  };
+}
+
+describe('FileEventSource', () => {
+  let fixturePath: string;
+
+  beforeEach(async () => {
+    fixturePath = path.join(
+      await fs.mkdtemp(path.join(os.tmpdir(), 'event-source-')),
+      'fixture.ndjson',
+    );
+
+    const entries = [
+      { type: 'block', number: 10, hash: ethers.id('block-10'), timestamp: 1704067200 },
+      { type: 'block', number: 11, hash: ethers.id('block-11'), timestamp: 1704067212 },
+      { type: 'block', number: 12, hash: ethers.id('block-12'), timestamp: 1704067224 },
+      swapLog(10, 0),
+      swapLog(11, 1),
+      swapLog(11, 0),
+      swapLog(12, 0),
+      { type: 'token', address: TOKEN_ADDRESS, decimals: 6, symbol: 'USDC', name: 'USD Coin' },
+    ];
+
+    await fs.writeFile(fixturePath, entries.map((entry) => JSON.stringify(entry)).join('\n'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.dirname(fixturePath), { recursive: true, force: true });
+  });
+
+  it('should serve every recorded block as history by default', async () => {
+    const source = new FileEventSource(fixturePath, { replayIntervalMs: 0 });
+    await source.connect();
+
+    expect(await source.getBlockNumber()).toBe(12);
+    expect((await source.getBlock(11)).timestamp).toBe(1704067212);
+
+    const logs = await source.getLogs({
+      address: ethers.getAddress(POOL_MANAGER_ADDRESS),
+      topics: [[swapTopic]],
+      fromBlock: 11,
+      toBlock: 12,
+    });
+
+    expect(logs.map((log) => [log.blockNumber, log.index])).toEqual([[11, 0], [11, 1], [12, 0]]);
+    expect(poolManagerInterface.parseLog(logs[0]).args.amount1).toBe(-2000n);
+  });
+
+  it('should not return logs for other topics', async () => {
+    const source = new FileEventSource(fixturePath, { replayIntervalMs: 0 });
+    await source.connect();
+
+    const logs = await source.getLogs({
+      address: POOL_MANAGER_ADDRESS,
+      topics: [[ethers.id('Initialize(bytes32,address,address,uint24,int24,address,uint160,int24)')]],
+    });
+
+    expect(logs).toEqual([]);
+  });
+
+  it('should answer ERC20 metadata calls from the fixture', async () => {
+    const source = new FileEventSource(fixturePath, { replayIntervalMs: 0 });
+    await source.connect();
+
+    const token = new ethers.Contract(
+      TOKEN_ADDRESS,
+      ['function decimals() view returns (uint8)', 'function symbol() view returns (string)'],
+      source.runner,
+    );
+
+    expect(await token.decimals()).toBe(6n);
+    expect(await token.symbol()).toBe('USDC');
+  });
+
+  it('should reject logs without a block time', async () => {
+    await fs.appendFile(fixturePath, '\n' + JSON.stringify(swapLog(13, 0)));
+    const source = new FileEventSource(fixturePath, { replayIntervalMs: 0 });
+
+    await expect(source.connect()).rejects.toThrow(
+      /has neither a block entry nor a blockTimestamp for block 13/,
+    );
+  });
+
+  it('should replay blocks after liveFromBlock as live events', async () => {
+    const source = new FileEventSource(fixturePath, { liveFromBlock: 11, replayIntervalMs: 0 });
+    await source.connect();
+
+    expect(await source.getBlockNumber()).toBe(10);
+    expect(await source.getLogs({ address: POOL_MANAGER_ADDRESS, topics: [] })).toHaveLength(1);
+
+    const received: string[] = [];
+    const done = new Promise<void>((resolve) => {
+      source.onLog({ address: POOL_MANAGER_ADDRESS, topics: [[swapTopic]] }, (log) => {
+        received.push(`log ${log.blockNumber}:${log.index}`);
+      });
+      source.onBlock((blockNumber) => {
+        received.push(`block ${blockNumber}`);
+        if (blockNumber === 12) {
+          resolve();
+        }
+      });
+    });
+
+    await done;
+    await source.destroy();
+
+    expect(received).toEqual(['log 11:0', 'log 11:1', 'block 11', 'log 12:0', 'block 12']);
+    expect(await source.getBlockNumber()).toBe(12);
+  });
+});
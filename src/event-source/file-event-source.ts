@@ -0,0 +1,274 @@
+import { Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { promises as fs } from 'fs';
+import { EventSource, EventSourceBlock, LogFilter } from './event-source.interface';
+
+// ERC20 functions answered from the fixture's token metadata
+const ERC20_ABI = [
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+  'function name() view returns (string)',
+];
+
+interface FixtureLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp?: number;
+  transactionHash: string;
+  transactionIndex?: number;
+  index?: number;
+  logIndex?: number;
+}
+
+interface FixtureToken {
+  address: string;
+  decimals: number;
+  symbol?: string;
+  name?: string;
+}
+
+export interface FileEventSourceOptions {
+  // Blocks from this number on are replayed as live events instead of history
+  liveFromBlock?: number;
+  // Delay between replayed live blocks
+  replayIntervalMs: number;
+}
+
+/**
+ * Replays a recorded sequence of PoolManager logs from a JSON or NDJSON fixture.
+ *
+ * JSON fixtures are `{ blocks: [], logs: [], tokens: [] }`. NDJSON fixtures have one
+ * entry per line with a `type` of `block`, `log` or `token`. Blocks only need
+ * `number`, `hash` and `timestamp`; a log may carry `blockTimestamp` instead.
+ */
+export class FileEventSource implements EventSource {
+  private readonly logger = new Logger(FileEventSource.name);
+  private readonly erc20Interface = new ethers.Interface(ERC20_ABI);
+  private blocks: Map<number, EventSourceBlock> = new Map();
+  private blockNumbers: number[] = [];
+  private logs: ethers.Log[] = [];
+  private tokens: Map<string, FixtureToken> = new Map();
+  private head = 0;
+  private logListeners: Array<{ filter: LogFilter; listener: (log: ethers.Log) => void }> = [];
+  private blockListeners: Array<(blockNumber: number) => void> = [];
+  private errorListeners: Array<(error: Error) => void> = [];
+  private replayTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly options: FileEventSourceOptions,
+  ) {}
+
+  get runner(): ethers.ContractRunner {
+    return {
+      provider: null,
+      call: (tx) => this.call(tx),
+    };
+  }
+
+  async connect() {
+    const content = await fs.readFile(this.filePath, 'utf8');
+    const isNdjson = /\.(ndjson|jsonl)$/i.test(this.filePath);
+
+    if (isNdjson) {
+      content
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+        .forEach((line) => {
+          const { type, ...entry } = JSON.parse(line);
+          this.addEntry(type, entry);
+        });
+    } else {
+      const fixture = JSON.parse(content);
+      (fixture.blocks || []).forEach((block) => this.addEntry('block', block));
+      (fixture.logs || []).forEach((log) => this.addEntry('log', log));
+      (fixture.tokens || []).forEach((token) => this.addEntry('token', token));
+    }
+
+    // Events are stored with their block time, so every log needs one
+    const undated = this.logs.find((log) => !this.blocks.has(log.blockNumber));
+    if (undated) {
+      throw new Error(
+        `Log ${undated.transactionHash}:${undated.index} in ${this.filePath} has neither a block entry ` +
+          `nor a blockTimestamp for block ${undated.blockNumber}`,
+      );
+    }
+
+    this.logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    this.blockNumbers = [...this.blocks.keys()].sort((a, b) => a - b);
+
+    const lastBlock = this.blockNumbers[this.blockNumbers.length - 1] ?? 0;
+    const { liveFromBlock } = this.options;
+    this.head = liveFromBlock !== undefined ? Math.min(liveFromBlock - 1, lastBlock) : lastBlock;
+
+    this.logger.log(
+      `Loaded ${this.logs.length} logs in ${this.blocks.size} blocks from ${this.filePath} (head ${this.head})`,
+    );
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.head;
+  }
+
+  async getBlock(blockNumber: number): Promise<EventSourceBlock | null> {
+    return blockNumber <= this.head ? this.blocks.get(blockNumber) || null : null;
+  }
+
+  async getLogs(filter: LogFilter): Promise<ethers.Log[]> {
+    const fromBlock = filter.fromBlock ?? 0;
+    const toBlock = Math.min(filter.toBlock ?? this.head, this.head);
+
+    return this.logs.filter(
+      (log) =>
+        log.blockNumber >= fromBlock &&
+        log.blockNumber <= toBlock &&
+        this.matches(filter, log),
+    );
+  }
+
+  onLog(filter: LogFilter, listener: (log: ethers.Log) => void) {
+    this.logListeners.push({ filter, listener });
+    this.scheduleReplay();
+  }
+
+  onBlock(listener: (blockNumber: number) => void) {
+    this.blockListeners.push(listener);
+    this.scheduleReplay();
+  }
+
+  onError(listener: (error: Error) => void) {
+    this.errorListeners.push(listener);
+  }
+
+  onReconnect() {
+    // A fixture never loses its connection
+  }
+
+  async destroy() {
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = null;
+    }
+  }
+
+  private addEntry(type: string, entry: any) {
+    switch (type) {
+      case 'block':
+        this.blocks.set(Number(entry.number), {
+          number: Number(entry.number),
+          hash: entry.hash,
+          parentHash: entry.parentHash,
+          timestamp: Number(entry.timestamp),
+        });
+        break;
+      case 'log':
+        this.addLog(entry);
+        break;
+      case 'token':
+        this.tokens.set(entry.address.toLowerCase(), entry);
+        break;
+      default:
+        throw new Error(`Unknown fixture entry type: ${type}`);
+    }
+  }
+
+  private addLog(entry: FixtureLog) {
+    const blockNumber = Number(entry.blockNumber);
+
+    // Logs may carry their block timestamp instead of a separate block entry
+    if (!this.blocks.has(blockNumber) && entry.blockTimestamp !== undefined) {
+      this.blocks.set(blockNumber, {
+        number: blockNumber,
+        hash: entry.blockHash,
+        timestamp: Number(entry.blockTimestamp),
+      });
+    }
+
+    this.logs.push(
+      new ethers.Log(
+        {
+          address: entry.address,
+          topics: entry.topics,
+          data: entry.data,
+          blockNumber,
+          blockHash: entry.blockHash,
+          transactionHash: entry.transactionHash,
+          transactionIndex: entry.transactionIndex ?? 0,
+          index: entry.index ?? entry.logIndex ?? 0,
+          removed: false,
+        },
+        null,
+      ),
+    );
+  }
+
+  private matches(filter: LogFilter, log: ethers.Log): boolean {
+    if (filter.address && filter.address.toLowerCase() !== log.address.toLowerCase()) {
+      return false;
+    }
+
+    return filter.topics.every((topic, i) => {
+      if (topic === null || topic === undefined) {
+        return true;
+      }
+      const allowed = (Array.isArray(topic) ? topic : [topic]).map((t) => t.toLowerCase());
+      return log.topics[i] !== undefined && allowed.includes(log.topics[i].toLowerCase());
+    });
+  }
+
+  /**
+   * Answer ERC20 metadata calls from the fixture's token list
+   */
+  private async call(tx: ethers.TransactionRequest): Promise<string> {
+    const address = String(tx.to).toLowerCase();
+    const token = this.tokens.get(address);
+    if (!token) {
+      throw new Error(`No token metadata for ${address} in ${this.filePath}`);
+    }
+
+    const fragment = this.erc20Interface.getFunction(String(tx.data).slice(0, 10));
+    if (!fragment || token[fragment.name] === undefined) {
+      throw new Error(`Unsupported call to ${address} in ${this.filePath}`);
+    }
+
+    return this.erc20Interface.encodeFunctionResult(fragment, [token[fragment.name]]);
+  }
+
+  /**
+   * Start replaying the withheld blocks once someone is listening
+   */
+  private scheduleReplay() {
+    if (this.replayTimer || this.options.liveFromBlock === undefined) {
+      return;
+    }
+
+    this.replayTimer = setTimeout(() => this.replayNextBlock(), this.options.replayIntervalMs);
+  }
+
+  private replayNextBlock() {
+    const blockNumber = this.blockNumbers.find((n) => n > this.head);
+    if (blockNumber === undefined) {
+      this.logger.log('Fixture replay complete');
+      return;
+    }
+
+    this.head = blockNumber;
+
+    try {
+      for (const log of this.logs.filter((l) => l.blockNumber === blockNumber)) {
+        this.logListeners
+          .filter(({ filter }) => this.matches(filter, log))
+          .forEach(({ listener }) => listener(log));
+      }
+      this.blockListeners.forEach((listener) => listener(blockNumber));
+    } catch (error) {
+      this.errorListeners.forEach((listener) => listener(error));
+    }
+
+    this.replayTimer = setTimeout(() => this.replayNextBlock(), this.options.replayIntervalMs);
+  }
+}
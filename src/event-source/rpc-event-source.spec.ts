@@ -0,0 +1,175 @@
+import { ethers } from 'ethers';
+import { RpcEventSource } from './rpc-event-source';
+
+jest.mock('ethers', () => {
+  const actual = jest.requireActual('ethers');
+
+  class MockWebSocketProvider {
+    static instances: MockWebSocketProvider[] = [];
+    subscriptions: Array<{ event: any; listener: (...args: any[]) => void }> = [];
+    websocket: any = {};
+    destroy = jest.fn().mockResolvedValue(undefined);
+
+    constructor(public url: string) {
+      MockWebSocketProvider.instances.push(this);
+    }
+
+    on(event: any, listener: (...args: any[]) => void) {
+      this.subscriptions.push({ event, listener });
+    }
+
+    emit(event: any, ...args: any[]) {
+      this.subscriptions
+        .filter((subscription) => subscription.event === event)
+        .forEach(({ listener }) => listener(...args));
+    }
+  }
+
+  class MockJsonRpcProvider {
+    static instances: MockJsonRpcProvider[] = [];
+    getLogs = jest.fn();
+    destroy = jest.fn();
+
+    constructor(public url: string) {
+      MockJsonRpcProvider.instances.push(this);
+    }
+  }
+
+  return {
+    ...actual,
+    ethers: {
+      ...actual.ethers,
+      WebSocketProvider: MockWebSocketProvider,
+      JsonRpcProvider: MockJsonRpcProvider,
+    },
+  };
+});
+
+describe('RpcEventSource', () => {
+  const instances = () => (ethers.WebSocketProvider as any).instances;
+  const filter = { address: '0xpoolmanager', topics: [['0xswap']] };
+  let eventSource: RpcEventSource;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    instances().length = 0;
+    (ethers.JsonRpcProvider as any).instances.length = 0;
+    eventSource = new RpcEventSource(['https://rpc.example'], { stallTimeoutMs: 1000 });
+    await eventSource.connect();
+  });
+
+  afterEach(async () => {
+    await eventSource.destroy();
+    jest.useRealTimers();
+  });
+
+  it('should connect over WebSocket', () => {
+    expect(instances()).toHaveLength(1);
+    expect(instances()[0].url).toBe('wss://rpc.example');
+  });
+
+  it('should reconnect and re-subscribe when no block arrives within the stall window', () => {
+    const logListener = jest.fn();
+    const blockListener = jest.fn();
+    const reconnectListener = jest.fn();
+    eventSource.onLog(filter, logListener);
+    eventSource.onBlock(blockListener);
+    eventSource.onReconnect(reconnectListener);
+
+    // Blocks keep the connection alive
+    jest.advanceTimersByTime(800);
+    instances()[0].emit('block', 100);
+    jest.advanceTimersByTime(800);
+    expect(instances()).toHaveLength(1);
+    expect(blockListener).toHaveBeenCalledWith(100);
+
+    jest.advanceTimersByTime(200);
+    expect(instances()).toHaveLength(2);
+    expect(instances()[0].destroy).toHaveBeenCalled();
+    expect(reconnectListener).toHaveBeenCalledTimes(1);
+
+    const [stale, fresh] = instances();
+    stale.emit('block', 101);
+    fresh.emit('block', 102);
+    fresh.subscriptions
+      .find(({ event }) => typeof event === 'object')
+      .listener({ blockNumber: 102 });
+    expect(blockListener).not.toHaveBeenCalledWith(101);
+    expect(blockListener).toHaveBeenCalledWith(102);
+    expect(logListener).toHaveBeenCalledWith({ blockNumber: 102 });
+  });
+
+  it('should reconnect when the socket errors', () => {
+    const errorListener = jest.fn();
+    const reconnectListener = jest.fn();
+    eventSource.onError(errorListener);
+    eventSource.onReconnect(reconnectListener);
+
+    instances()[0].websocket.onerror(new Error('socket hang up'));
+
+    expect(errorListener).toHaveBeenCalledWith(expect.objectContaining({ message: 'socket hang up' }));
+    expect(instances()).toHaveLength(2);
+    expect(reconnectListener).toHaveBeenCalledTimes(1);
+
+    // Errors from the replaced socket are ignored
+    instances()[0].websocket.onerror(new Error('closed'));
+    expect(instances()).toHaveLength(2);
+  });
+
+  it('should split getLogs ranges the node rejects as too large', async () => {
+    const [requestProvider] = (ethers.JsonRpcProvider as any).instances;
+    requestProvider.getLogs.mockImplementation(async ({ fromBlock, toBlock }) => {
+      if (toBlock - fromBlock >= 30) {
+        throw new Error('query returned more than 10000 results');
+      }
+      return [{ blockNumber: fromBlock }];
+    });
+
+    const logs = await eventSource.getLogs({ ...filter, fromBlock: 1, toBlock: 100 });
+
+    const ranges = requestProvider.getLogs.mock.calls.map(([request]) => [request.fromBlock, request.toBlock]);
+    expect(ranges).toEqual([
+      [1, 100],
+      [1, 50],
+      [1, 25],
+      [26, 57],
+      [26, 41],
+      [42, 61],
+      [62, 86],
+      [87, 100],
+    ]);
+    expect(logs.map((log) => log.blockNumber)).toEqual([1, 26, 42, 62, 87]);
+  });
+
+  it('should shrink getLogs ranges the node rate limits and retry after the cooldown', async () => {
+    // No stall reconnects while the request waits out the endpoint cooldown
+    await eventSource.destroy();
+    eventSource = new RpcEventSource(['https://rpc.example'], { stallTimeoutMs: 600000 });
+    await eventSource.connect();
+
+    const requestProvider = (ethers.JsonRpcProvider as any).instances.at(-1);
+    requestProvider.getLogs.mockImplementation(async ({ fromBlock, toBlock }) => {
+      if (toBlock - fromBlock >= 30) {
+        throw new Error('429 Too Many Requests');
+      }
+      return [{ blockNumber: fromBlock }];
+    });
+
+    const promise = eventSource.getLogs({ ...filter, fromBlock: 1, toBlock: 100 });
+    await jest.advanceTimersByTimeAsync(10000);
+    const logs = await promise;
+
+    const ranges = requestProvider.getLogs.mock.calls.map(([request]) => [request.fromBlock, request.toBlock]);
+    expect(ranges).toEqual([
+      [1, 100],
+      [1, 50],
+      [1, 25],
+      [26, 57],
+      [26, 41],
+      [42, 61],
+      [62, 86],
+      [87, 100],
+    ]);
+    expect(logs.map((log) => log.blockNumber)).toEqual([1, 26, 42, 62, 87]);
+  });
+});
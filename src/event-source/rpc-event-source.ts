@@ -0,0 +1,230 @@
+import { Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { EventSource, EventSourceBlock, LogFilter } from './event-source.interface';
+import { RpcProviderPool, isRangeTooLargeError, isRateLimitError } from './rpc-provider-pool';
+
+export interface RpcEventSourceOptions {
+  // Reconnect when no new block arrives within this window
+  stallTimeoutMs: number;
+}
+
+/**
+ * Live chain data from one or more RPC nodes.
+ *
+ * Requests go through a provider pool that fails over between endpoints. Subscriptions
+ * use a WebSocket to the healthiest endpoint. That connection is supervised: when the
+ * socket errors or no new block arrives within `stallTimeoutMs`, the endpoint is marked
+ * unhealthy, a new provider is created (on another endpoint if one is healthier) and
+ * every subscription is re-attached. Reconnect listeners are notified so they can
+ * backfill what was missed meanwhile.
+ *
+ * `getLogs` ranges are split adaptively when a node rejects them as too large or rate
+ * limits them.
+ */
+export class RpcEventSource implements EventSource {
+  private readonly logger = new Logger(RpcEventSource.name);
+  private readonly pool: RpcProviderPool;
+  private provider: ethers.WebSocketProvider;
+  private providerUrl: string;
+  private logRangeLimit = Number.MAX_SAFE_INTEGER;
+  private logListeners: Array<{ filter: LogFilter; listener: (log: ethers.Log) => void }> = [];
+  private blockListeners: Array<(blockNumber: number) => void> = [];
+  private errorListeners: Array<(error: Error) => void> = [];
+  private reconnectListeners: Array<() => void> = [];
+  private watchdog: NodeJS.Timeout | null = null;
+  private isReconnecting = false;
+  private isDestroyed = false;
+
+  constructor(
+    rpcUrls: string[],
+    private readonly options: RpcEventSourceOptions,
+  ) {
+    this.pool = new RpcProviderPool(rpcUrls);
+  }
+
+  get runner(): ethers.ContractRunner {
+    return {
+      provider: null,
+      call: (tx) => this.pool.request((provider) => provider.call(tx)),
+    };
+  }
+
+  async connect() {
+    this.provider = this.createProvider();
+    this.armWatchdog();
+    this.logger.log('Ethereum provider initialized');
+  }
+
+  getBlockNumber(): Promise<number> {
+    return this.pool.request((provider) => provider.getBlockNumber());
+  }
+
+  getBlock(blockNumber: number): Promise<EventSourceBlock | null> {
+    return this.pool.request((provider) => provider.getBlock(blockNumber));
+  }
+
+  /**
+   * Fetch logs in chunks of at most `logRangeLimit` blocks. The limit is halved whenever
+   * a node rejects a range as too large or rate limits it, and grows back as requests
+   * succeed. The pool retries rate-limited ranges on other endpoints with the smaller limit.
+   */
+  async getLogs(filter: LogFilter): Promise<ethers.Log[]> {
+    if (filter.fromBlock === undefined || filter.toBlock === undefined) {
+      return this.pool.request((provider) => provider.getLogs(filter));
+    }
+
+    const logs: ethers.Log[] = [];
+    let fromBlock = filter.fromBlock;
+
+    while (fromBlock <= filter.toBlock) {
+      let toBlock = fromBlock;
+
+      try {
+        const chunk = await this.pool.request(async (provider) => {
+          toBlock = Math.min(fromBlock + this.logRangeLimit - 1, filter.toBlock);
+          try {
+            return await provider.getLogs({ ...filter, fromBlock, toBlock });
+          } catch (error) {
+            if (isRateLimitError(error) && toBlock > fromBlock) {
+              this.shrinkLogRange(fromBlock, toBlock, 'rate limited');
+            }
+            throw error;
+          }
+        });
+        logs.push(...chunk);
+        fromBlock = toBlock + 1;
+
+        if (this.logRangeLimit < Number.MAX_SAFE_INTEGER) {
+          this.logRangeLimit = Math.ceil(this.logRangeLimit * 1.25);
+        }
+      } catch (error) {
+        if (!isRangeTooLargeError(error) || toBlock === fromBlock) {
+          throw error;
+        }
+
+        this.shrinkLogRange(fromBlock, toBlock, 'too large');
+      }
+    }
+
+    return logs;
+  }
+
+  onLog(filter: LogFilter, listener: (log: ethers.Log) => void) {
+    this.logListeners.push({ filter, listener });
+    this.provider.on({ address: filter.address, topics: filter.topics }, listener);
+  }
+
+  onBlock(listener: (blockNumber: number) => void) {
+    this.blockListeners.push(listener);
+  }
+
+  onError(listener: (error: Error) => void) {
+    this.errorListeners.push(listener);
+  }
+
+  onReconnect(listener: () => void) {
+    this.reconnectListeners.push(listener);
+  }
+
+  async destroy() {
+    this.isDestroyed = true;
+    this.clearWatchdog();
+    await this.provider.destroy();
+    await this.pool.destroy();
+  }
+
+  private shrinkLogRange(fromBlock: number, toBlock: number, reason: string) {
+    this.logRangeLimit = Math.max(Math.floor((toBlock - fromBlock + 1) / 2), 1);
+    this.logger.warn(
+      `getLogs range ${fromBlock}-${toBlock} ${reason}, retrying in chunks of ${this.logRangeLimit} blocks`,
+    );
+  }
+
+  /**
+   * Create a provider and attach every subscription registered so far
+   */
+  private createProvider(): ethers.WebSocketProvider {
+    this.providerUrl = this.pool.bestUrl;
+
+    // Convert HTTP to WebSocket URL if needed
+    const wsUrl = this.providerUrl.replace('https://', 'wss://').replace('http://', 'ws://');
+    const provider = new ethers.WebSocketProvider(wsUrl);
+
+    this.logListeners.forEach(({ filter, listener }) => {
+      provider.on({ address: filter.address, topics: filter.topics }, listener);
+    });
+
+    // New blocks double as the connection heartbeat
+    provider.on('block', (blockNumber: number) => {
+      if (provider !== this.provider) {
+        return;
+      }
+      this.armWatchdog();
+      this.blockListeners.forEach((listener) => listener(blockNumber));
+    });
+
+    provider.on('error', (error: Error) => this.emitError(error));
+
+    // Socket errors (refused or dropped connection) are not surfaced by the provider itself
+    provider.websocket.onerror = (error: any) => {
+      if (provider !== this.provider) {
+        return;
+      }
+      this.emitError(error instanceof Error ? error : new Error(error?.message || 'WebSocket error'));
+      this.reconnect('WebSocket error');
+    };
+
+    return provider;
+  }
+
+  private emitError(error: Error) {
+    this.errorListeners.forEach((listener) => listener(error));
+  }
+
+  private armWatchdog() {
+    this.clearWatchdog();
+    this.watchdog = setTimeout(
+      () => this.reconnect(`No new block within ${this.options.stallTimeoutMs}ms`),
+      this.options.stallTimeoutMs,
+    );
+  }
+
+  private clearWatchdog() {
+    if (this.watchdog) {
+      clearTimeout(this.watchdog);
+      this.watchdog = null;
+    }
+  }
+
+  /**
+   * Replace the provider and tell listeners to catch up. A failed attempt is retried
+   * when the watchdog fires again.
+   */
+  private reconnect(reason: string) {
+    if (this.isReconnecting || this.isDestroyed) {
+      return;
+    }
+
+    this.isReconnecting = true;
+    this.logger.warn(`${reason}, reconnecting to the RPC node`);
+    this.pool.recordFailure(this.providerUrl);
+
+    try {
+      const staleProvider = this.provider;
+      this.provider = this.createProvider();
+
+      staleProvider.destroy().catch((error) => {
+        this.logger.debug(`Error closing stale provider: ${error.message}`);
+      });
+
+      this.logger.log(`Ethereum provider reconnected to ${this.providerUrl}`);
+      this.reconnectListeners.forEach((listener) => listener());
+    } catch (error) {
+      this.logger.error('Failed to reconnect to the RPC node', error);
+      this.emitError(error);
+    } finally {
+      this.isReconnecting = false;
+      this.armWatchdog();
+    }
+  }
+}
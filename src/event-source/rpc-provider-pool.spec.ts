@@ -0,0 +1,71 @@
+import { RpcProviderPool, isRangeTooLargeError, isRateLimitError } from './rpc-provider-pool';
+
+describe('RpcProviderPool', () => {
+  let providers: Record<string, any>;
+  let pool: RpcProviderPool;
+
+  beforeEach(() => {
+    providers = {};
+    pool = new RpcProviderPool(['https://a.example', 'https://b.example'], (url) => {
+      providers[url] = { getBlockNumber: jest.fn(), destroy: jest.fn() };
+      return providers[url];
+    });
+  });
+
+  it('should fail over to the next endpoint and rank the failed one lower', async () => {
+    providers['https://a.example'].getBlockNumber.mockRejectedValue(new Error('429 Too Many Requests'));
+    providers['https://b.example'].getBlockNumber.mockResolvedValue(100);
+
+    await expect(pool.request((provider) => provider.getBlockNumber())).resolves.toBe(100);
+    expect(pool.bestUrl).toBe('https://b.example');
+
+    const [a, b] = pool.getHealth();
+    expect(a.score).toBeLessThan(b.score);
+    expect(a.consecutiveFailures).toBe(1);
+    expect(a.cooldownUntil).toBeGreaterThan(Date.now());
+
+    // The healthy endpoint is tried first from now on
+    await pool.request((provider) => provider.getBlockNumber());
+    expect(providers['https://a.example'].getBlockNumber).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for endpoints cooling down instead of retrying them in the same round', async () => {
+    jest.useFakeTimers();
+    try {
+      providers['https://a.example'].getBlockNumber.mockRejectedValueOnce(new Error('connection refused'));
+      providers['https://b.example'].getBlockNumber.mockResolvedValue(100);
+      await pool.request((provider) => provider.getBlockNumber());
+
+      // b fails too while a is still cooling down
+      providers['https://a.example'].getBlockNumber.mockResolvedValue(101);
+      providers['https://b.example'].getBlockNumber.mockRejectedValue(new Error('connection refused'));
+      const promise = pool.request((provider) => provider.getBlockNumber());
+      await jest.advanceTimersByTimeAsync(0);
+      expect(providers['https://a.example'].getBlockNumber).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(promise).resolves.toBe(101);
+      expect(providers['https://a.example'].getBlockNumber).toHaveBeenCalledTimes(2);
+      expect(providers['https://b.example'].getBlockNumber).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should not fail over on errors caused by the request itself', async () => {
+    const error = new Error('query returned more than 10000 results');
+    providers['https://a.example'].getBlockNumber.mockRejectedValue(error);
+
+    await expect(pool.request((provider) => provider.getBlockNumber())).rejects.toBe(error);
+    expect(providers['https://b.example'].getBlockNumber).not.toHaveBeenCalled();
+    expect(pool.getHealth()[0].consecutiveFailures).toBe(0);
+  });
+
+  it('should classify node errors', () => {
+    expect(isRangeTooLargeError(new Error('Log response size exceeded'))).toBe(true);
+    expect(isRangeTooLargeError({ error: { message: 'exceed maximum block range: 50000' } })).toBe(true);
+    expect(isRangeTooLargeError(new Error('connection refused'))).toBe(false);
+    expect(isRateLimitError({ info: { error: { message: 'rate limit exceeded' } } })).toBe(true);
+    expect(isRateLimitError(new Error('connection refused'))).toBe(false);
+  });
+});
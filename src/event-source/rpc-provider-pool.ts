@@ -0,0 +1,191 @@
+import { Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+
+// Health score bounds and adjustments
+const MAX_SCORE = 100;
+const SUCCESS_REWARD = 5;
+const FAILURE_PENALTY = 25;
+
+// Failed endpoints are skipped for a while, longer after repeated failures
+const BASE_COOLDOWN_MS = 1000;
+const MAX_COOLDOWN_MS = 60000;
+
+// Rounds through all endpoints before a request gives up
+const MAX_ROUNDS = 5;
+
+export interface RpcEndpointHealth {
+  url: string;
+  score: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+}
+
+interface RpcEndpoint extends RpcEndpointHealth {
+  provider: ethers.Provider;
+}
+
+/**
+ * Error messages nodes use when a getLogs range or result set is too large
+ */
+export function isRangeTooLargeError(error: any): boolean {
+  return /more than \d+ results|too many results|block range|range (is )?too (large|wide)|response size|exceed(s|ed)? (the )?max(imum)? (block )?range|query timeout/i.test(
+    errorText(error),
+  );
+}
+
+export function isRateLimitError(error: any): boolean {
+  return /rate.?limit|too many requests|\b429\b|exceeded .*(capacity|quota|request)|compute units/i.test(
+    errorText(error),
+  );
+}
+
+function errorText(error: any): string {
+  return [
+    error?.message,
+    error?.shortMessage,
+    error?.error?.message,
+    error?.info?.error?.message,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function createRequestProvider(url: string): ethers.Provider {
+  return /^wss?:\/\//.test(url) ? new ethers.WebSocketProvider(url) : new ethers.JsonRpcProvider(url);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * A set of RPC endpoints for request traffic. Each endpoint carries a health score;
+ * requests go to the healthiest endpoint that is not cooling down and fail over to the
+ * next one on errors.
+ */
+export class RpcProviderPool {
+  private readonly logger = new Logger(RpcProviderPool.name);
+  private readonly endpoints: RpcEndpoint[];
+
+  constructor(
+    urls: string[],
+    createProvider: (url: string) => ethers.Provider = createRequestProvider,
+  ) {
+    if (urls.length === 0) {
+      throw new Error('At least one RPC endpoint is required');
+    }
+
+    this.endpoints = urls.map((url) => ({
+      url,
+      provider: createProvider(url),
+      score: MAX_SCORE,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+    }));
+  }
+
+  /**
+   * URL of the healthiest endpoint, used for the WebSocket subscription
+   */
+  get bestUrl(): string {
+    return this.rankedEndpoints()[0].url;
+  }
+
+  getHealth(): RpcEndpointHealth[] {
+    return this.endpoints.map(({ url, score, consecutiveFailures, cooldownUntil }) => ({
+      url,
+      score,
+      consecutiveFailures,
+      cooldownUntil,
+    }));
+  }
+
+  /**
+   * Run a request against the healthiest endpoint, failing over to the others.
+   * Endpoints cooling down are skipped; when all of them are, the request waits for
+   * the first one to come back. Errors caused by the request itself (reverts,
+   * too-large log ranges) are thrown right away since another endpoint would reject
+   * them as well.
+   */
+  async request<T>(send: (provider: ethers.Provider) => Promise<T>): Promise<T> {
+    let lastError: any;
+
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      await this.waitForAvailableEndpoint();
+
+      for (const endpoint of this.availableEndpoints()) {
+        try {
+          const result = await send(endpoint.provider);
+          this.recordSuccess(endpoint.url);
+          return result;
+        } catch (error) {
+          if (error?.code === 'CALL_EXCEPTION' || isRangeTooLargeError(error)) {
+            throw error;
+          }
+
+          this.recordFailure(endpoint.url, error);
+          lastError = error;
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  recordSuccess(url: string) {
+    const endpoint = this.findEndpoint(url);
+    endpoint.score = Math.min(endpoint.score + SUCCESS_REWARD, MAX_SCORE);
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+  }
+
+  recordFailure(url: string, error?: any) {
+    const endpoint = this.findEndpoint(url);
+    endpoint.score = Math.max(endpoint.score - FAILURE_PENALTY, 0);
+    endpoint.consecutiveFailures++;
+
+    const cooldownMs = Math.min(
+      BASE_COOLDOWN_MS * 2 ** (endpoint.consecutiveFailures - 1),
+      MAX_COOLDOWN_MS,
+    );
+    endpoint.cooldownUntil = Date.now() + cooldownMs;
+
+    const reason = isRateLimitError(error) ? 'rate limited' : 'failed';
+    this.logger.warn(
+      `RPC endpoint ${endpoint.url} ${reason} (score ${endpoint.score}, cooling down ${cooldownMs}ms)${
+        error?.message ? `: ${error.message}` : ''
+      }`,
+    );
+  }
+
+  async destroy() {
+    await Promise.all(this.endpoints.map(({ provider }) => provider.destroy()));
+  }
+
+  /**
+   * Available endpoints by score, then the ones cooling down by when they come back
+   */
+  private rankedEndpoints(): RpcEndpoint[] {
+    const coolingDown = this.endpoints
+      .filter((endpoint) => endpoint.cooldownUntil > Date.now())
+      .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+
+    return [...this.availableEndpoints(), ...coolingDown];
+  }
+
+  private availableEndpoints(): RpcEndpoint[] {
+    const now = Date.now();
+    return this.endpoints
+      .filter((endpoint) => endpoint.cooldownUntil <= now)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private async waitForAvailableEndpoint() {
+    const nextAvailable = Math.min(...this.endpoints.map((endpoint) => endpoint.cooldownUntil));
+    if (nextAvailable > Date.now()) {
+      await sleep(nextAvailable - Date.now());
+    }
+  }
+
+  private findEndpoint(url: string): RpcEndpoint {
+    return this.endpoints.find((endpoint) => endpoint.url === url);
+  }
+}
@@ -0,0 +1,63 @@
+export const ADDRESS_ZERO = '0x0000000000000000000000000000000000000000';
+
+// Pool fee marking a dynamic-fee pool, whose hook sets the fee of each swap
+export const DYNAMIC_FEE_FLAG = 0x800000;
+
+/**
+ * Callbacks a V4 hook can implement. The PoolManager only calls the ones whose flag
+ * bit is set in the low 14 bits of the hook's address.
+ */
+export enum HookPermission {
+  BEFORE_INITIALIZE = 'beforeInitialize',
+  AFTER_INITIALIZE = 'afterInitialize',
+  BEFORE_ADD_LIQUIDITY = 'beforeAddLiquidity',
+  AFTER_ADD_LIQUIDITY = 'afterAddLiquidity',
+  BEFORE_REMOVE_LIQUIDITY = 'beforeRemoveLiquidity',
+  AFTER_REMOVE_LIQUIDITY = 'afterRemoveLiquidity',
+  BEFORE_SWAP = 'beforeSwap',
+  AFTER_SWAP = 'afterSwap',
+  BEFORE_DONATE = 'beforeDonate',
+  AFTER_DONATE = 'afterDonate',
+  BEFORE_SWAP_RETURNS_DELTA = 'beforeSwapReturnDelta',
+  AFTER_SWAP_RETURNS_DELTA = 'afterSwapReturnDelta',
+  AFTER_ADD_LIQUIDITY_RETURNS_DELTA = 'afterAddLiquidityReturnDelta',
+  AFTER_REMOVE_LIQUIDITY_RETURNS_DELTA = 'afterRemoveLiquidityReturnDelta',
+}
+
+// Address bit of each permission, as in v4-core's Hooks library
+export const HOOK_PERMISSION_FLAGS: Record<HookPermission, number> = {
+  [HookPermission.BEFORE_INITIALIZE]: 1 << 13,
+  [HookPermission.AFTER_INITIALIZE]: 1 << 12,
+  [HookPermission.BEFORE_ADD_LIQUIDITY]: 1 << 11,
+  [HookPermission.AFTER_ADD_LIQUIDITY]: 1 << 10,
+  [HookPermission.BEFORE_REMOVE_LIQUIDITY]: 1 << 9,
+  [HookPermission.AFTER_REMOVE_LIQUIDITY]: 1 << 8,
+  [HookPermission.BEFORE_SWAP]: 1 << 7,
+  [HookPermission.AFTER_SWAP]: 1 << 6,
+  [HookPermission.BEFORE_DONATE]: 1 << 5,
+  [HookPermission.AFTER_DONATE]: 1 << 4,
+  [HookPermission.BEFORE_SWAP_RETURNS_DELTA]: 1 << 3,
+  [HookPermission.AFTER_SWAP_RETURNS_DELTA]: 1 << 2,
+  [HookPermission.AFTER_ADD_LIQUIDITY_RETURNS_DELTA]: 1 << 1,
+  [HookPermission.AFTER_REMOVE_LIQUIDITY_RETURNS_DELTA]: 1 << 0,
+};
+
+/**
+ * Permissions encoded in a hook address, in flag order (highest bit first).
+ * The zero address has none.
+ */
+export function decodeHookPermissions(hooks: string): HookPermission[] {
+  // The flags fit in the last four hex digits
+  const bits = parseInt(hooks.slice(-4), 16) || 0;
+
+  return (Object.keys(HOOK_PERMISSION_FLAGS) as HookPermission[])
+    .filter((permission) => (bits & HOOK_PERMISSION_FLAGS[permission]) !== 0);
+}
+
+export function hasHooks(hooks: string): boolean {
+  return !!hooks && hooks.toLowerCase() !== ADDRESS_ZERO;
+}
+
+export function isDynamicFee(fee: number): boolean {
+  return fee === DYNAMIC_FEE_FLAG;
+}
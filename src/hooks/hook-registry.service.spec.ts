@@ -0,0 +1,99 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HookRegistryService } from './hook-registry.service';
+import { ConfigService } from '../config/config.service';
+import { HookPermission, decodeHookPermissions, isDynamicFee } from './hook-permissions';
+
+describe('HookRegistryService', () => {
+  let service: HookRegistryService;
+  let mockConfigService: any;
+
+  // Flags 0x02c0: beforeRemoveLiquidity, beforeSwap, afterSwap
+  const limitOrderHook = '0x1234567890aBCdef1234567890abcdef123402C0';
+  const feeHook = '0xabcdefabcdefabcdefabcdefabcdefabcdef0080';
+
+  beforeEach(async () => {
+    mockConfigService = {
+      chains: [
+        { chainId: 1, hookLabels: { [limitOrderHook.toLowerCase()]: 'Limit Orders' } },
+        { chainId: 8453, hookLabels: { [feeHook]: 'Dynamic Fee', '0xabcdefabcdefabcdefabcdefabcdefabcdef1080': 'dynamic fee' } },
+      ],
+      getChain: jest.fn((chainId: number) =>
+        mockConfigService.chains.find((chain: any) => chain.chainId === chainId)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HookRegistryService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<HookRegistryService>(HookRegistryService);
+  });
+
+  describe('decodeHookPermissions', () => {
+    it('should decode the flag bits of the address', () => {
+      expect(decodeHookPermissions(limitOrderHook)).toEqual([
+        HookPermission.BEFORE_REMOVE_LIQUIDITY,
+        HookPermission.BEFORE_SWAP,
+        HookPermission.AFTER_SWAP,
+      ]);
+      expect(decodeHookPermissions('0x0000000000000000000000000000000000003fff')).toHaveLength(14);
+    });
+
+    it('should ignore address bits above the flags', () => {
+      expect(decodeHookPermissions('0xffffffffffffffffffffffffffffffffffffc000')).toEqual([]);
+      expect(decodeHookPermissions('0x0000000000000000000000000000000000000000')).toEqual([]);
+    });
+  });
+
+  it('should detect the dynamic fee flag', () => {
+    expect(isDynamicFee(0x800000)).toBe(true);
+    expect(isDynamicFee(3000)).toBe(false);
+  });
+
+  describe('getHookInfo', () => {
+    it('should describe a labelled hook', () => {
+      expect(service.getHookInfo(1, limitOrderHook, 0x800000)).toEqual({
+        address: limitOrderHook.toLowerCase(),
+        label: 'Limit Orders',
+        hasHooks: true,
+        permissions: ['beforeRemoveLiquidity', 'beforeSwap', 'afterSwap'],
+        isDynamicFee: true,
+      });
+    });
+
+    it('should only use the labels of the pool chain', () => {
+      expect(service.getHookInfo(8453, limitOrderHook, 500).label).toBeNull();
+      expect(service.getHookInfo(137, limitOrderHook, 500).label).toBeNull();
+    });
+
+    it('should describe vanilla pools', () => {
+      expect(service.getHookInfo(1, '0x0000000000000000000000000000000000000000', 3000)).toEqual({
+        address: '0x0000000000000000000000000000000000000000',
+        label: null,
+        hasHooks: false,
+        permissions: [],
+        isDynamicFee: false,
+      });
+    });
+  });
+
+  describe('resolveHooks', () => {
+    it('should pass addresses through lowercased', () => {
+      expect(service.resolveHooks(limitOrderHook)).toEqual([limitOrderHook.toLowerCase()]);
+    });
+
+    it('should resolve a label case-insensitively', () => {
+      expect(service.resolveHooks('DYNAMIC FEE', 8453)).toEqual([
+        feeHook,
+        '0xabcdefabcdefabcdefabcdefabcdefabcdef1080',
+      ]);
+      expect(service.resolveHooks('dynamic fee', 1)).toEqual([]);
+    });
+
+    it('should search every chain without a chain ID', () => {
+      expect(service.resolveHooks('limit orders')).toEqual([limitOrderHook.toLowerCase()]);
+    });
+  });
+});
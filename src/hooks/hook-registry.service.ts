@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '../config/config.service';
+import { HookDescription, HookInfo } from './interfaces/hook-info.interface';
+import { decodeHookPermissions, hasHooks, isDynamicFee } from './hook-permissions';
+
+const ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/i;
+
+/**
+ * Describes hooks contracts: the labels configured per chain (HOOK_LABELS or a chain's
+ * `hookLabels`) and the permissions and fee mode encoded in the pool key.
+ */
+@Injectable()
+export class HookRegistryService {
+  constructor(private configService: ConfigService) {}
+
+  getLabel(chainId: number, hooks: string): string | null {
+    return this.configService.getChain(chainId)?.hookLabels[hooks.toLowerCase()] ?? null;
+  }
+
+  describeHooks(chainId: number, hooks: string): HookDescription {
+    return {
+      address: hooks.toLowerCase(),
+      label: this.getLabel(chainId, hooks),
+      hasHooks: hasHooks(hooks),
+      permissions: decodeHookPermissions(hooks),
+    };
+  }
+
+  // The pool's fee tells whether its hook sets the fee of each swap
+  getHookInfo(chainId: number, hooks: string, fee: number): HookInfo {
+    return { ...this.describeHooks(chainId, hooks), isDynamicFee: isDynamicFee(fee) };
+  }
+
+  /**
+   * Hooks addresses matching an address or a label (case-insensitive) on a chain,
+   * or on every chain when none is given
+   */
+  resolveHooks(hooksOrLabel: string, chainId?: number): string[] {
+    if (ADDRESS_PATTERN.test(hooksOrLabel)) {
+      return [hooksOrLabel.toLowerCase()];
+    }
+
+    const label = hooksOrLabel.toLowerCase();
+    const chains = chainId
+      ? [this.configService.getChain(chainId)].filter(Boolean)
+      : this.configService.chains;
+
+    return chains.flatMap((chain) => Object.entries(chain.hookLabels)
+      .filter(([, hookLabel]) => hookLabel.toLowerCase() === label)
+      .map(([address]) => address));
+  }
+}
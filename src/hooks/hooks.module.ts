@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { HookRegistryService } from './hook-registry.service';
+import { ConfigModule } from '../config/config.module';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [HookRegistryService],
+  exports: [HookRegistryService],
+})
+export class HooksModule {}
@@ -0,0 +1,35 @@
+import { HookPermission } from '../hook-permissions';
+
+/**
+ * A hooks contract: its configured label and the callbacks its address enables
+ */
+export interface HookDescription {
+  address: string;
+  // Name from the chain's hook labels, null for unregistered hooks
+  label: string | null;
+  // False for vanilla pools (hooks is the zero address)
+  hasHooks: boolean;
+  // Callbacks decoded from the address bits
+  permissions: HookPermission[];
+}
+
+/**
+ * What a pool's hooks contract does, as attached to pool responses
+ */
+export interface HookInfo extends HookDescription {
+  // Fee set per swap by the hook instead of a static fee tier
+  isDynamicFee: boolean;
+}
+
+/**
+ * Volume of every pool sharing a hooks contract over a time range
+ */
+export interface HookVolume extends HookDescription {
+  // Pools of the hook with candles in the range
+  pools: number;
+  dynamicFeePools: number;
+  volumeUSD: string;
+  untrackedVolumeUSD: string;
+  feesUSD: string;
+  txCount: number;
+}
@@ -0,0 +1,74 @@
+import {
+  computeActiveLiquidityCurve,
+  computeLiquidityDepth,
+  crossTicks,
+  isTickInRange,
+} from './liquidityDistribution';
+import { SqrtPriceMath } from './sqrtPriceMath';
+import { TickMath } from './tickMath';
+
+describe('liquidityDistribution', () => {
+  const Q96 = 2n ** 96n;
+  const L = 10n ** 18n;
+
+  // Two positions: [-120, 120) with L and [0, 60) with 2L
+  const ticks = [
+    { tickIdx: -120, liquidityNet: L },
+    { tickIdx: 0, liquidityNet: 2n * L },
+    { tickIdx: 60, liquidityNet: -2n * L },
+    { tickIdx: 120, liquidityNet: -L },
+  ];
+
+  it('should compute the active liquidity of each tick spacing around the current tick', () => {
+    const curve = computeActiveLiquidityCurve(ticks, 10, 60, 3);
+
+    expect(curve.map((point) => [point.tickIdx, point.liquidityActive])).toEqual([
+      [-180, 0n],
+      [-120, L],
+      [-60, L],
+      [0, 3n * L],
+      [60, L],
+      [120, 0n],
+      [180, 0n],
+    ]);
+  });
+
+  it('should walk the ticks to find the depth at a price impact', () => {
+    // 10% up crosses tick 60 and tick 120 (1.0001^120 < 1.1), so only the range [0, 120) holds liquidity
+    const depth = computeLiquidityDepth(ticks, 0, Q96, 0.1);
+
+    const sqrt60 = TickMath.getSqrtRatioAtTick(60);
+    const sqrt120 = TickMath.getSqrtRatioAtTick(120);
+    const expected0Out =
+      SqrtPriceMath.getAmount0Delta(Q96, sqrt60, 3n * L, false) +
+      SqrtPriceMath.getAmount0Delta(sqrt60, sqrt120, L, false);
+    expect(depth.amount0Out).toBe(expected0Out);
+
+    // 10% down crosses tick 0 (removing 2L) and tick -120 (removing L)
+    const sqrtMinus120 = TickMath.getSqrtRatioAtTick(-120);
+    expect(depth.amount1Out).toBe(SqrtPriceMath.getAmount1Delta(sqrtMinus120, Q96, L, false));
+  });
+
+  it('should stop at the target price inside a range', () => {
+    const depth = computeLiquidityDepth(ticks, 0, Q96, 0.001);
+
+    // Price moves 0.1% within [0, 60): amount1 = 3L * (sqrt(1.001) - 1)
+    const expected = Number(3n * L) * (Math.sqrt(1.001) - 1);
+    expect(Number(depth.amount1In) / expected).toBeCloseTo(1, 6);
+  });
+
+  it('should add liquidityNet when crossing ticks upwards and subtract it downwards', () => {
+    // From inside [-120, 0) with L active
+    expect(crossTicks(L, ticks, -10, 0)).toBe(3n * L);
+    expect(crossTicks(L, ticks, -10, 130)).toBe(0n);
+    expect(crossTicks(3n * L, ticks, 0, -1)).toBe(L);
+    expect(crossTicks(L, ticks, -10, -100)).toBe(L);
+  });
+
+  it('should treat the upper tick of a range as exclusive', () => {
+    expect(isTickInRange(0, 0, 60)).toBe(true);
+    expect(isTickInRange(59, 0, 60)).toBe(true);
+    expect(isTickInRange(60, 0, 60)).toBe(false);
+    expect(isTickInRange(-1, 0, 60)).toBe(false);
+  });
+});
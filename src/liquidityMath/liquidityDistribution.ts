@@ -0,0 +1,170 @@
+import { ZERO_BI } from './constants';
+import { SqrtPriceMath } from './sqrtPriceMath';
+import { TickMath } from './tickMath';
+
+export interface InitializedTick {
+  tickIdx: number;
+  liquidityNet: bigint;
+}
+
+export interface ActiveLiquidityPoint {
+  tickIdx: number;
+  liquidityActive: bigint;
+  liquidityNet: bigint;
+}
+
+export interface LiquidityDepth {
+  // Token amounts a swap moving the price up (token0 out, token1 in)
+  amount0Out: bigint;
+  amount1In: bigint;
+  // ...and down (token1 out, token0 in) by the given fraction
+  amount1Out: bigint;
+  amount0In: bigint;
+}
+
+/**
+ * Active liquidity of the range starting at each tick, `numSurroundingTicks` spacings
+ * on each side of the current tick. `ticks` must be sorted by tickIdx; the active
+ * liquidity at a tick is the sum of liquidityNet of every initialized tick at or below it.
+ */
+export function computeActiveLiquidityCurve(
+  ticks: InitializedTick[],
+  currentTick: number,
+  tickSpacing: number,
+  numSurroundingTicks: number,
+): ActiveLiquidityPoint[] {
+  const activeTickIdx = Math.floor(currentTick / tickSpacing) * tickSpacing;
+  const minTickIdx = Math.max(activeTickIdx - numSurroundingTicks * tickSpacing, TickMath.MIN_TICK);
+  const maxTickIdx = Math.min(activeTickIdx + numSurroundingTicks * tickSpacing, TickMath.MAX_TICK);
+
+  const netByTick = new Map(ticks.map((tick) => [tick.tickIdx, tick.liquidityNet]));
+  let liquidityActive = ticks
+    .filter((tick) => tick.tickIdx < minTickIdx)
+    .reduce((sum, tick) => sum + tick.liquidityNet, ZERO_BI);
+
+  const points: ActiveLiquidityPoint[] = [];
+  for (let tickIdx = minTickIdx; tickIdx <= maxTickIdx; tickIdx += tickSpacing) {
+    const liquidityNet = netByTick.get(tickIdx) ?? ZERO_BI;
+    liquidityActive += liquidityNet;
+    points.push({ tickIdx, liquidityActive, liquidityNet });
+  }
+
+  return points;
+}
+
+/**
+ * Whether a position over [tickLower, tickUpper) contributes to the active liquidity
+ * at `currentTick`, matching the PoolManager's check on modifyLiquidity.
+ */
+export function isTickInRange(currentTick: number, tickLower: number, tickUpper: number): boolean {
+  return currentTick >= tickLower && currentTick < tickUpper;
+}
+
+/**
+ * Active liquidity after the price moves from `fromTick` to `toTick`. Moving up crosses
+ * the ticks in (fromTick, toTick] and adds their liquidityNet; moving down crosses
+ * the ticks in (toTick, fromTick] and subtracts it.
+ */
+export function crossTicks(
+  liquidity: bigint,
+  ticks: InitializedTick[],
+  fromTick: number,
+  toTick: number,
+): bigint {
+  for (const tick of ticks) {
+    if (toTick > fromTick && tick.tickIdx > fromTick && tick.tickIdx <= toTick) {
+      liquidity += tick.liquidityNet;
+    } else if (toTick < fromTick && tick.tickIdx > toTick && tick.tickIdx <= fromTick) {
+      liquidity -= tick.liquidityNet;
+    }
+  }
+  return liquidity;
+}
+
+/**
+ * Cumulative token amounts swapped when moving the pool price by `priceImpact`
+ * (0.02 = 2%) in each direction, walking the initialized ticks from the current price.
+ */
+export function computeLiquidityDepth(
+  ticks: InitializedTick[],
+  currentTick: number,
+  sqrtPriceX96: bigint,
+  priceImpact: number,
+): LiquidityDepth {
+  const liquidityAtCurrentTick = ticks
+    .filter((tick) => tick.tickIdx <= currentTick)
+    .reduce((sum, tick) => sum + tick.liquidityNet, ZERO_BI);
+
+  // Price is the square of sqrtPrice, so a price move of x scales sqrtPrice by sqrt(1 + x)
+  const scaleSqrtPrice = (factor: number) => {
+    const target = BigInt(Math.floor(Number(sqrtPriceX96) * Math.sqrt(factor)));
+    return target < TickMath.MIN_SQRT_RATIO
+      ? TickMath.MIN_SQRT_RATIO
+      : target > TickMath.MAX_SQRT_RATIO
+        ? TickMath.MAX_SQRT_RATIO
+        : target;
+  };
+
+  const depth: LiquidityDepth = {
+    amount0Out: ZERO_BI,
+    amount1In: ZERO_BI,
+    amount1Out: ZERO_BI,
+    amount0In: ZERO_BI,
+  };
+
+  // Price up: cross ticks above the current one, adding their net liquidity
+  const upperTarget = scaleSqrtPrice(1 + priceImpact);
+  let liquidity = liquidityAtCurrentTick;
+  let sqrtPrice = sqrtPriceX96;
+  for (const tick of ticks.filter((tick) => tick.tickIdx > currentTick)) {
+    const sqrtPriceAtTick = TickMath.getSqrtRatioAtTick(tick.tickIdx);
+    const next = sqrtPriceAtTick < upperTarget ? sqrtPriceAtTick : upperTarget;
+    depth.amount0Out += amount0Delta(sqrtPrice, next, liquidity);
+    depth.amount1In += amount1Delta(sqrtPrice, next, liquidity);
+    sqrtPrice = next;
+    if (next === upperTarget) {
+      break;
+    }
+    liquidity += tick.liquidityNet;
+  }
+  if (sqrtPrice < upperTarget) {
+    depth.amount0Out += amount0Delta(sqrtPrice, upperTarget, liquidity);
+    depth.amount1In += amount1Delta(sqrtPrice, upperTarget, liquidity);
+  }
+
+  // Price down: cross ticks at or below the current one, removing their net liquidity
+  const lowerTarget = scaleSqrtPrice(Math.max(1 - priceImpact, 0));
+  liquidity = liquidityAtCurrentTick;
+  sqrtPrice = sqrtPriceX96;
+  for (const tick of ticks.filter((tick) => tick.tickIdx <= currentTick).reverse()) {
+    const sqrtPriceAtTick = TickMath.getSqrtRatioAtTick(tick.tickIdx);
+    const next = sqrtPriceAtTick > lowerTarget ? sqrtPriceAtTick : lowerTarget;
+    depth.amount1Out += amount1Delta(next, sqrtPrice, liquidity);
+    depth.amount0In += amount0Delta(next, sqrtPrice, liquidity);
+    sqrtPrice = next;
+    if (next === lowerTarget) {
+      break;
+    }
+    liquidity -= tick.liquidityNet;
+  }
+  if (sqrtPrice > lowerTarget) {
+    depth.amount1Out += amount1Delta(lowerTarget, sqrtPrice, liquidity);
+    depth.amount0In += amount0Delta(lowerTarget, sqrtPrice, liquidity);
+  }
+
+  return depth;
+}
+
+function amount0Delta(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint): bigint {
+  if (liquidity <= ZERO_BI || sqrtRatioAX96 === sqrtRatioBX96) {
+    return ZERO_BI;
+  }
+  return SqrtPriceMath.getAmount0Delta(sqrtRatioAX96, sqrtRatioBX96, liquidity, false);
+}
+
+function amount1Delta(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint): bigint {
+  if (liquidity <= ZERO_BI || sqrtRatioAX96 === sqrtRatioBX96) {
+    return ZERO_BI;
+  }
+  return SqrtPriceMath.getAmount1Delta(sqrtRatioAX96, sqrtRatioBX96, liquidity, false);
+}
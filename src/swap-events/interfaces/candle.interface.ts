@@ -0,0 +1,67 @@
+import { RecordStatus } from '../../aggregation/aggregation.service';
+
+/**
+ * Token candle sent over WebSocket, finalized (`candle`) or in progress (`candleUpdate`).
+ * Decimal fields are decimal strings.
+ */
+export interface TokenCandle {
+  chainId: number;
+  tokenAddress: string;
+  // Stored interval or rolled-up resolution, e.g. 'hour' or '4h'
+  interval: string;
+  date: Date;
+  // Only on stored intervals
+  periodId?: number;
+  // Only on in-progress candles
+  status?: RecordStatus;
+  volume: string;
+  volumeUSD: string;
+  untrackedVolumeUSD: string;
+  feesUSD: string;
+  totalValueLocked: string;
+  totalValueLockedUSD: string;
+  priceUSD: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  priceNative: string;
+  openNative: string;
+  highNative: string;
+  lowNative: string;
+  closeNative: string;
+  txCount: number;
+}
+
+/**
+ * Pool candle sent over WebSocket, finalized (`poolCandle`) or in progress (`poolCandleUpdate`)
+ */
+export interface PoolCandle {
+  chainId: number;
+  poolId: string;
+  interval: string;
+  date: Date;
+  periodId: number;
+  token0Price: string;
+  token1Price: string;
+  token0Open: string;
+  token0High: string;
+  token0Low: string;
+  token0Close: string;
+  token1Open: string;
+  token1High: string;
+  token1Low: string;
+  token1Close: string;
+  volumeToken0: string;
+  volumeToken1: string;
+  volumeUSD: string;
+  untrackedVolumeUSD: string;
+  feesUSD: string;
+  liquidity: string;
+  sqrtPriceX96: string;
+  tick: number;
+  totalValueLockedToken0: string;
+  totalValueLockedToken1: string;
+  totalValueLockedUSD: string;
+  txCount: number;
+}
@@ -0,0 +1,26 @@
+import { ethers } from 'ethers';
+import { ChainConfig } from '../../config/chain-config.interface';
+import { EventSource } from '../../event-source/event-source.interface';
+import { PendingSwap } from './pending-swap.interface';
+
+// Items processed by the live listener: new logs, new chain heads and reconnects
+export type QueueItem =
+  | { kind: 'log'; log: ethers.Log }
+  | { kind: 'head'; blockNumber: number }
+  | { kind: 'reconnect' };
+
+/**
+ * Indexing state of one chain. Every chain is synced and listened to independently.
+ */
+export interface ChainContext {
+  chain: ChainConfig;
+  eventSource: EventSource;
+  isSyncing: boolean;
+  latestBlockNumber: number;
+  ingestedThroughBlock: number; // blocks up to here were ingested through syncBatch
+  lastVerifiedBlockHash: string | null;
+  liveQueue: QueueItem[];
+  isProcessingLiveQueue: boolean;
+  processedLogKeys: Map<string, number>; // transactionHash:logIndex -> blockNumber
+  pendingSwaps: Map<string, PendingSwap>; // transactionHash:logIndex -> swap
+}
@@ -0,0 +1,20 @@
+/**
+ * Swap or liquidity event rolled back by a reorg
+ */
+export interface OrphanedEvent {
+  poolAddress: string;
+  transactionHash: string;
+  logIndex: number;
+  blockNumber: number;
+}
+
+/**
+ * Payload of the `chain.reorg` event, sent to clients as `reorg`. Everything indexed
+ * after `forkBlock` was rolled back.
+ */
+export interface ChainReorg {
+  chainId: number;
+  forkBlock: number;
+  orphanedSwaps: OrphanedEvent[];
+  orphanedLiquidityEvents: OrphanedEvent[];
+}
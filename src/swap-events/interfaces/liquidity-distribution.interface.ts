@@ -0,0 +1,32 @@
+/**
+ * Liquidity of a pool by tick, as returned for liquidity distribution and depth charts.
+ * Liquidity and token amounts are raw integers encoded as strings.
+ */
+export interface LiquidityDistribution {
+  chainId: number;
+  poolId: string;
+  token0: { address: string; decimals: number };
+  token1: { address: string; decimals: number };
+  tick: number;
+  tickSpacing: number;
+  sqrtPriceX96: string;
+  // Active liquidity at the current tick
+  liquidity: string;
+  // One entry per tick spacing around the current tick
+  ticks: Array<{
+    tickIdx: number;
+    liquidityActive: string;
+    liquidityNet: string;
+    // Price of token0 in token1 (and the inverse) at the tick
+    price0: string;
+    price1: string;
+  }>;
+  // Tokens swapped to move the price up (token0 out) or down (token1 out) by `percent`
+  depth: Array<{
+    percent: number;
+    amount0Out: string;
+    amount1In: string;
+    amount1Out: string;
+    amount0In: string;
+  }>;
+}
@@ -0,0 +1,23 @@
+/**
+ * A swap seen by the live listener that is not yet `confirmationDepth` blocks deep.
+ * Pending swaps are kept in memory only; they are persisted once confirmed.
+ */
+export interface PendingSwap {
+  chainId: number;
+  poolAddress: string;
+  token0Address?: string;
+  token1Address?: string;
+  transactionHash: string;
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp: Date;
+  sender: string;
+  amount0: string;
+  amount1: string;
+  sqrtPriceX96: string;
+  liquidity: string;
+  tick: number;
+  fee: number;
+  logIndex: number;
+  confirmations: number;
+}
@@ -0,0 +1,19 @@
+import { Pool } from '../schemas/pool.schema';
+import { HookInfo } from '../../hooks/interfaces/hook-info.interface';
+
+/**
+ * Pool as returned by the pool endpoints, with its hooks contract described
+ */
+export type PoolWithHook = Pool & { hook: HookInfo };
+
+/**
+ * Hook criteria of pool queries; unset fields don't filter
+ */
+export interface PoolHookFilter {
+  // Hooks address or configured label
+  hooks?: string;
+  hasHooks?: boolean;
+  // Permissions the hook must all have
+  permissions?: string[];
+  dynamicFee?: boolean;
+}
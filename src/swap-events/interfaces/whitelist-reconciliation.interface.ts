@@ -0,0 +1,12 @@
+/**
+ * Outcome of comparing a chain's configured whitelist with the one last applied
+ * to its tokens' whitelist pools.
+ */
+export interface WhitelistReconciliation {
+  chainId: number;
+  whitelistTokens: string[];
+  // False when the applied whitelist was already current and no run was forced
+  reconciled: boolean;
+  updatedTokens: number;
+  repricedTokens: number;
+}
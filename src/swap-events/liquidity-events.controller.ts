@@ -0,0 +1,32 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { SwapEventsService } from './swap-events.service';
+import { LiquidityEvent } from './schemas/liquidity-event.schema';
+
+@Controller('liquidity-events')
+export class LiquidityEventsController {
+  constructor(private readonly swapEventsService: SwapEventsService) {}
+
+  @Get()
+  async getLiquidityEvents(
+    @Query('poolAddress') poolAddress?: string,
+    @Query('owner') owner?: string,
+    @Query('startTime') startTime?: string,
+    @Query('endTime') endTime?: string,
+    @Query('limit') limit?: string,
+    @Query('chainId') chainId?: string,
+  ): Promise<LiquidityEvent[]> {
+    const startDate = startTime ? new Date(startTime) : undefined;
+    const endDate = endTime ? new Date(endTime) : undefined;
+    const limitNum = limit ? parseInt(limit, 10) : 100;
+    const chainIdNum = chainId ? parseInt(chainId, 10) : undefined;
+
+    return this.swapEventsService.getLiquidityEvents(
+      poolAddress,
+      owner,
+      startDate,
+      endDate,
+      limitNum,
+      chainIdNum,
+    );
+  }
+}
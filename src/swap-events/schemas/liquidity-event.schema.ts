@@ -0,0 +1,79 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type LiquidityEventDocument = LiquidityEvent & Document;
+
+export enum LiquidityEventType {
+  MINT = 'mint',
+  BURN = 'burn',
+}
+
+/**
+ * A ModifyLiquidity event: liquidity added to (mint) or removed from (burn) a
+ * position. Amounts are the token amounts the change moved at the pool's price.
+ */
+@Schema({ timestamps: true })
+export class LiquidityEvent {
+  @Prop({ required: true, index: true })
+  chainId: number;
+
+  @Prop({ required: true, index: true, set: (val: string) => val.toLowerCase() })
+  poolAddress: string;
+
+  @Prop({ required: true, set: (val: string) => val.toLowerCase() })
+  token0Address: string;
+
+  @Prop({ required: true, set: (val: string) => val.toLowerCase() })
+  token1Address: string;
+
+  @Prop({ required: true, enum: LiquidityEventType })
+  type: LiquidityEventType;
+
+  // Position owner (the address that called modifyLiquidity, usually a position manager)
+  @Prop({ required: true, index: true, set: (val: string) => val.toLowerCase() })
+  sender: string;
+
+  @Prop({ required: true })
+  tickLower: number;
+
+  @Prop({ required: true })
+  tickUpper: number;
+
+  @Prop({ required: true })
+  liquidityDelta: string;
+
+  @Prop({ required: true, set: (val: string) => val.toLowerCase() })
+  salt: string;
+
+  // Signed token deltas of the position, in raw token units
+  @Prop({ required: true })
+  amount0: string;
+
+  @Prop({ required: true })
+  amount1: string;
+
+  @Prop({ default: '0' })
+  amountUSD: string;
+
+  @Prop({ required: true, set: (val: string) => val.toLowerCase() })
+  transactionHash: string;
+
+  @Prop({ required: true, index: true })
+  blockNumber: number;
+
+  @Prop({ set: (val: string) => val?.toLowerCase() })
+  blockHash: string;
+
+  @Prop({ required: true, index: true })
+  blockTimestamp: Date;
+
+  @Prop({ required: true })
+  logIndex: number;
+}
+
+export const LiquidityEventSchema = SchemaFactory.createForClass(LiquidityEvent);
+
+// Create compound indexes for pool and owner queries
+LiquidityEventSchema.index({ chainId: 1, poolAddress: 1, blockTimestamp: -1 });
+LiquidityEventSchema.index({ chainId: 1, sender: 1, blockTimestamp: -1 });
+LiquidityEventSchema.index({ chainId: 1, transactionHash: 1, logIndex: 1 }, { unique: true });
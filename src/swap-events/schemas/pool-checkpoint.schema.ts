@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type PoolCheckpointDocument = PoolCheckpoint & Document;
+
+/**
+ * Pool state as it was before the first event of a block touched it.
+ * Used to restore pools when the block is orphaned by a chain reorganization.
+ */
+@Schema({ timestamps: true })
+export class PoolCheckpoint {
+  @Prop({ required: true, index: true })
+  chainId: number;
+
+  @Prop({ required: true, index: true, set: (val: string) => val.toLowerCase() })
+  poolId: string;
+
+  @Prop({ required: true, index: true })
+  blockNumber: number;
+
+  @Prop({ required: true })
+  sqrtPriceX96: string;
+
+  @Prop({ required: true })
+  tick: number;
+
+  @Prop({ default: '0' })
+  token0Price: string;
+
+  @Prop({ default: '0' })
+  token1Price: string;
+
+  @Prop({ default: '0' })
+  liquidity: string;
+
+  @Prop({ default: '0' })
+  totalValueLockedToken0: string;
+
+  @Prop({ default: '0' })
+  totalValueLockedToken1: string;
+}
+
+export const PoolCheckpointSchema = SchemaFactory.createForClass(PoolCheckpoint);
+
+// One checkpoint per pool per block
+PoolCheckpointSchema.index({ chainId: 1, poolId: 1, blockNumber: 1 }, { unique: true });
@@ -5,7 +5,10 @@ export type PoolDocument = Pool & Document;
 
 @Schema({ timestamps: true })
 export class Pool {
-  @Prop({ required: true, unique: true, index: true, set: (val: string) => val.toLowerCase() })
+  @Prop({ required: true, index: true })
+  chainId: number;
+
+  @Prop({ required: true, index: true, set: (val: string) => val.toLowerCase() })
   poolId: string; // bytes32 - pool ID hash
 
   @Prop({ required: true, index: true, set: (val: string) => val.toLowerCase() })
@@ -23,6 +26,10 @@ export class Pool {
   @Prop({ required: true, set: (val: string) => val.toLowerCase() })
   hooks: string; // hooks contract address
 
+  // Hook callbacks decoded from the hooks address bits
+  @Prop({ type: [String], default: undefined })
+  hookPermissions: string[];
+
   @Prop({ required: true })
   sqrtPriceX96: string; // uint160 - initial price
 
@@ -55,3 +62,9 @@ export class Pool {
 }
 
 export const PoolSchema = SchemaFactory.createForClass(Pool);
+
+// Pool IDs are unique per PoolManager deployment
+PoolSchema.index({ chainId: 1, poolId: 1 }, { unique: true });
+
+// Pools of a hook, and hooked vs vanilla comparisons
+PoolSchema.index({ chainId: 1, hooks: 1 });
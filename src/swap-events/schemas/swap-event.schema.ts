@@ -5,6 +5,9 @@ export type SwapEventDocument = SwapEvent & Document;
 
 @Schema({ timestamps: true })
 export class SwapEvent {
+  @Prop({ required: true, index: true })
+  chainId: number;
+
   @Prop({ required: true, index: true, set: (val: string) => val.toLowerCase() })
   poolAddress: string;
 
@@ -17,9 +20,12 @@ export class SwapEvent {
   @Prop({ required: true, set: (val: string) => val.toLowerCase() })
   transactionHash: string;
 
-  @Prop({ required: true })
+  @Prop({ required: true, index: true })
   blockNumber: number;
 
+  @Prop({ set: (val: string) => val?.toLowerCase() })
+  blockHash: string;
+
   @Prop({ required: true, index: true })
   blockTimestamp: Date;
 
@@ -50,12 +56,38 @@ export class SwapEvent {
   @Prop({ required: true })
   fee: number;
 
+  // Pool prices after the swap (token0 in token1 and token1 in token0)
+  @Prop()
+  token0Price: string;
+
+  @Prop()
+  token1Price: string;
+
+  // USD volume through whitelisted tokens, written by aggregation
   @Prop()
   amountUSD: string;
+
+  // USD volume at the derived prices of both tokens, whitelisted or not
+  @Prop()
+  untrackedAmountUSD: string;
+
+  @Prop()
+  feesUSD: string;
+
+  // Native token price in USD at the swap's block, written by aggregation
+  @Prop()
+  nativePriceUSD: string;
+
+  // Token prices in derived BTC at the time of the swap, written by aggregation
+  @Prop()
+  token0DerivedBTC: string;
+
+  @Prop()
+  token1DerivedBTC: string;
 }
 
 export const SwapEventSchema = SchemaFactory.createForClass(SwapEvent);
 
 // Create compound index for efficient queries
-SwapEventSchema.index({ poolAddress: 1, blockTimestamp: -1 });
-SwapEventSchema.index({ transactionHash: 1, logIndex: 1 }, { unique: true });
+SwapEventSchema.index({ chainId: 1, poolAddress: 1, blockTimestamp: -1 });
+SwapEventSchema.index({ chainId: 1, transactionHash: 1, logIndex: 1 }, { unique: true });
@@ -1,11 +1,19 @@
-import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Prop, Schema, SchemaFactory, raw } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 
 export type SyncStateDocument = SyncState & Document;
 
+export interface IndexedBlock {
+  blockNumber: number;
+  blockHash: string;
+}
+
 @Schema({ timestamps: true })
 export class SyncState {
-  @Prop({ required: true, unique: true })
+  @Prop({ required: true })
+  chainId: number;
+
+  @Prop({ required: true })
   poolManagerAddress: string;
 
   @Prop({ required: true })
@@ -19,6 +27,24 @@ export class SyncState {
 
   @Prop()
   lastSyncedAt: Date;
+
+  // Hashes of the most recently indexed blocks (oldest first), used to detect reorgs
+  @Prop({
+    type: [raw({ blockNumber: { type: Number }, blockHash: { type: String }, _id: false })],
+    default: [],
+  })
+  recentBlocks: IndexedBlock[];
+
+  // Swaps whose reported liquidity differed from the tracked active liquidity
+  @Prop({ default: 0 })
+  liquidityDivergences: number;
+
+  // Whitelist last applied to the tokens' whitelist pools, sorted
+  @Prop({ type: [String], default: [] })
+  whitelistTokens: string[];
 }
 
 export const SyncStateSchema = SchemaFactory.createForClass(SyncState);
+
+// One sync state per PoolManager deployment
+SyncStateSchema.index({ chainId: 1, poolManagerAddress: 1 }, { unique: true });
@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type TickDocument = Tick & Document;
+
+/**
+ * An initialized tick of a pool, maintained from ModifyLiquidity events.
+ * Ticks whose gross liquidity drops back to zero are removed.
+ */
+@Schema({ timestamps: true })
+export class Tick {
+  @Prop({ required: true, index: true })
+  chainId: number;
+
+  @Prop({ required: true, index: true, set: (val: string) => val.toLowerCase() })
+  poolId: string;
+
+  @Prop({ required: true })
+  tickIdx: number;
+
+  // Total liquidity of positions using this tick as a boundary
+  @Prop({ required: true, default: '0' })
+  liquidityGross: string;
+
+  // Liquidity added to the active liquidity when the price crosses this tick upwards
+  @Prop({ required: true, default: '0' })
+  liquidityNet: string;
+}
+
+export const TickSchema = SchemaFactory.createForClass(Tick);
+
+// One document per pool tick, also used for range scans
+TickSchema.index({ chainId: 1, poolId: 1, tickIdx: 1 }, { unique: true });
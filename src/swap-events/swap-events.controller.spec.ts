@@ -0,0 +1,59 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SwapEventsController } from './swap-events.controller';
+import { SwapEventsService } from './swap-events.service';
+
+describe('SwapEventsController', () => {
+  let controller: SwapEventsController;
+  let mockSwapEventsService: any;
+
+  beforeEach(async () => {
+    mockSwapEventsService = {
+      getAllPools: jest.fn().mockResolvedValue([]),
+      getPoolsByCurrency: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SwapEventsController],
+      providers: [{ provide: SwapEventsService, useValue: mockSwapEventsService }],
+    }).compile();
+
+    controller = module.get<SwapEventsController>(SwapEventsController);
+  });
+
+  describe('getPools', () => {
+    const getPools = (hooks?: string, hasHooks?: string, hookPermissions?: string, dynamicFee?: string) =>
+      controller.getPools(undefined, undefined, undefined, undefined, hooks, hasHooks, hookPermissions, dynamicFee);
+
+    it('should parse the hook filter', async () => {
+      await getPools('Limit Orders', 'true', 'beforeSwap, afterSwap', 'false');
+
+      expect(mockSwapEventsService.getAllPools).toHaveBeenCalledWith(100, undefined, {
+        hooks: 'Limit Orders',
+        hasHooks: true,
+        permissions: ['beforeSwap', 'afterSwap'],
+        dynamicFee: false,
+      });
+    });
+
+    it('should not filter on unset hook criteria', async () => {
+      await getPools();
+
+      expect(mockSwapEventsService.getAllPools).toHaveBeenCalledWith(100, undefined, {
+        hooks: undefined,
+        hasHooks: undefined,
+        permissions: undefined,
+        dynamicFee: undefined,
+      });
+    });
+
+    it('should reject malformed hook criteria with 400', async () => {
+      await expect(getPools(undefined, 'yes')).rejects.toThrow(BadRequestException);
+      await expect(getPools(undefined, undefined, undefined, '1')).rejects.toThrow(BadRequestException);
+      await expect(getPools(undefined, undefined, 'beforeSwap,onSwap')).rejects.toThrow(BadRequestException);
+      await expect(getPools('0x1234')).rejects.toThrow(BadRequestException);
+      await expect(getPools(' ')).rejects.toThrow(BadRequestException);
+      expect(mockSwapEventsService.getAllPools).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,8 +1,13 @@
-import { Controller, Get, Query, Param } from '@nestjs/common';
+import { BadRequestException, Controller, Get, Post, Query, Param } from '@nestjs/common';
+import { ethers } from 'ethers';
 import { SwapEventsService } from './swap-events.service';
 import { SwapEvent } from './schemas/swap-event.schema';
 import { SyncState } from './schemas/sync-state.schema';
-import { Pool } from './schemas/pool.schema';
+import { PendingSwap } from './interfaces/pending-swap.interface';
+import { LiquidityDistribution } from './interfaces/liquidity-distribution.interface';
+import { WhitelistReconciliation } from './interfaces/whitelist-reconciliation.interface';
+import { PoolHookFilter, PoolWithHook } from './interfaces/pool-hook.interface';
+import { HookPermission } from '../hooks/hook-permissions';
 
 @Controller('swap-events')
 export class SwapEventsController {
@@ -14,22 +19,42 @@ export class SwapEventsController {
     @Query('startTime') startTime?: string,
     @Query('endTime') endTime?: string,
     @Query('limit') limit?: string,
+    @Query('chainId') chainId?: string,
   ): Promise<SwapEvent[]> {
     const startDate = startTime ? new Date(startTime) : undefined;
     const endDate = endTime ? new Date(endTime) : undefined;
     const limitNum = limit ? parseInt(limit, 10) : 100;
+    const chainIdNum = chainId ? parseInt(chainId, 10) : undefined;
 
     return this.swapEventsService.getSwapEvents(
       poolAddress,
       startDate,
       endDate,
       limitNum,
+      chainIdNum,
     );
   }
 
+  @Get('pending')
+  getPendingSwaps(
+    @Query('poolAddress') poolAddress?: string,
+    @Query('chainId') chainId?: string,
+  ): PendingSwap[] {
+    const chainIdNum = chainId ? parseInt(chainId, 10) : undefined;
+    return this.swapEventsService.getPendingSwaps(poolAddress, chainIdNum);
+  }
+
   @Get('sync-state')
-  async getSyncState(): Promise<SyncState | null> {
-    return this.swapEventsService.getSyncState();
+  async getSyncState(@Query('chainId') chainId?: string): Promise<SyncState | null> {
+    const chainIdNum = chainId ? parseInt(chainId, 10) : undefined;
+    return this.swapEventsService.getSyncState(chainIdNum);
+  }
+
+  // Admin trigger: recompute whitelist pools and prices even if the whitelist is unchanged
+  @Post('whitelist/reconcile')
+  async reconcileWhitelist(@Query('chainId') chainId?: string): Promise<WhitelistReconciliation | null> {
+    const chainIdNum = chainId ? parseInt(chainId, 10) : undefined;
+    return this.swapEventsService.reconcileWhitelist(chainIdNum, true);
   }
 
   @Get('pools')
@@ -37,22 +62,99 @@ export class SwapEventsController {
     @Query('currency0') currency0?: string,
     @Query('currency1') currency1?: string,
     @Query('limit') limit?: string,
-  ): Promise<Pool[]> {
+    @Query('chainId') chainId?: string,
+    @Query('hooks') hooks?: string,
+    @Query('hasHooks') hasHooks?: string,
+    @Query('hookPermissions') hookPermissions?: string,
+    @Query('dynamicFee') dynamicFee?: string,
+  ): Promise<PoolWithHook[]> {
     const limitNum = limit ? parseInt(limit, 10) : 100;
+    const chainIdNum = chainId ? parseInt(chainId, 10) : undefined;
+    const hookFilter = this.parseHookFilter(hooks, hasHooks, hookPermissions, dynamicFee);
 
     if (currency0 || currency1) {
       return this.swapEventsService.getPoolsByCurrency(
         currency0,
         currency1,
         limitNum,
+        chainIdNum,
+        hookFilter,
       );
     }
 
-    return this.swapEventsService.getAllPools(limitNum);
+    return this.swapEventsService.getAllPools(limitNum, chainIdNum, hookFilter);
+  }
+
+  @Get('pools/:poolId/liquidity')
+  async getLiquidityDistribution(
+    @Param('poolId') poolId: string,
+    @Query('ticks') ticks?: string,
+    @Query('depth') depth?: string,
+    @Query('chainId') chainId?: string,
+  ): Promise<LiquidityDistribution | null> {
+    const numSurroundingTicks = ticks ? parseInt(ticks, 10) : 100;
+    const depthPercents = depth
+      ? depth.split(',').map((percent) => parseFloat(percent)).filter((percent) => percent > 0)
+      : undefined;
+    const chainIdNum = chainId ? parseInt(chainId, 10) : undefined;
+
+    return this.swapEventsService.getLiquidityDistribution(
+      poolId,
+      numSurroundingTicks,
+      depthPercents,
+      chainIdNum,
+    );
   }
 
   @Get('pools/:poolId')
-  async getPoolByPoolId(@Param('poolId') poolId: string): Promise<Pool | null> {
-    return this.swapEventsService.getPoolByPoolId(poolId);
+  async getPoolByPoolId(
+    @Param('poolId') poolId: string,
+    @Query('chainId') chainId?: string,
+  ): Promise<PoolWithHook | null> {
+    const chainIdNum = chainId ? parseInt(chainId, 10) : undefined;
+    return this.swapEventsService.getPoolByPoolId(poolId, chainIdNum);
+  }
+
+  /**
+   * Hook criteria of the pool queries; malformed values are rejected rather than
+   * silently matching nothing (or everything)
+   */
+  private parseHookFilter(
+    hooks?: string,
+    hasHooks?: string,
+    hookPermissions?: string,
+    dynamicFee?: string,
+  ): PoolHookFilter {
+    // Anything else is looked up as a hook label
+    if (hooks !== undefined && (hooks.trim() === '' || (hooks.startsWith('0x') && !ethers.isAddress(hooks)))) {
+      throw new BadRequestException(`Invalid hooks ${hooks}, expected a hooks address or label`);
+    }
+
+    const permissions = hookPermissions?.split(',').map((permission) => permission.trim());
+    const unknown = permissions?.filter(
+      (permission) => !Object.values(HookPermission).includes(permission as HookPermission),
+    );
+    if (unknown?.length > 0) {
+      throw new BadRequestException(
+        `Unknown hook permissions ${unknown.join(', ')}, expected any of ${Object.values(HookPermission).join(', ')}`,
+      );
+    }
+
+    return {
+      hooks,
+      hasHooks: this.parseBoolean('hasHooks', hasHooks),
+      permissions,
+      dynamicFee: this.parseBoolean('dynamicFee', dynamicFee),
+    };
+  }
+
+  private parseBoolean(name: string, value?: string): boolean | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (value !== 'true' && value !== 'false') {
+      throw new BadRequestException(`Invalid ${name} ${value}, expected true or false`);
+    }
+    return value === 'true';
   }
 }
@@ -1,11 +1,16 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SwapEventsGateway } from './swap-events.gateway';
 import { Server, Socket } from 'socket.io';
+import { ConfigService } from '../config/config.service';
+import { AggregationService, RecordStatus } from '../aggregation/aggregation.service';
+import { PoolCandle, TokenCandle } from './interfaces/candle.interface';
+import { ChainReorg } from './interfaces/chain-reorg.interface';
 
 describe('SwapEventsGateway', () => {
   let gateway: SwapEventsGateway;
   let mockServer: Partial<Server>;
   let mockClient: Partial<Socket>;
+  let mockAggregationService: any;
 
   beforeEach(async () => {
     mockServer = {
@@ -18,8 +23,16 @@ describe('SwapEventsGateway', () => {
       emit: jest.fn(),
     };
 
+    mockAggregationService = {
+      getRolledUpCandle: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [SwapEventsGateway],
+      providers: [
+        SwapEventsGateway,
+        { provide: ConfigService, useValue: { defaultChainId: 1, candleUpdateThrottleMs: 1000 } },
+        { provide: AggregationService, useValue: mockAggregationService },
+      ],
     }).compile();
 
     gateway = module.get<SwapEventsGateway>(SwapEventsGateway);
@@ -44,13 +57,13 @@ describe('SwapEventsGateway', () => {
 
       // Add client to subscriptions
       gateway['subscriptions'].set('all', new Set(['test-client-id']));
-      gateway['candleSubscriptions'].set('0xToken:minute', new Set(['test-client-id']));
+      gateway['candleSubscriptions'].set('1:0xtoken:minute', new Set(['test-client-id']));
 
       gateway.handleDisconnect(mockClient as Socket);
 
       expect(logSpy).toHaveBeenCalledWith('Client disconnected: test-client-id');
       expect(gateway['subscriptions'].get('all')?.has('test-client-id')).toBe(false);
-      expect(gateway['candleSubscriptions'].get('0xToken:minute')?.has('test-client-id')).toBe(false);
+      expect(gateway['candleSubscriptions'].get('1:0xtoken:minute')?.has('test-client-id')).toBe(false);
     });
   });
 
@@ -60,8 +73,8 @@ describe('SwapEventsGateway', () => {
 
       gateway.handleSubscribe(mockClient as Socket, { poolAddress: '0xPool1' });
 
-      expect(gateway['subscriptions'].get('0xPool1')?.has('test-client-id')).toBe(true);
-      expect(logSpy).toHaveBeenCalledWith('Client test-client-id subscribed to 0xPool1');
+      expect(gateway['subscriptions'].get('1:0xpool1')?.has('test-client-id')).toBe(true);
+      expect(logSpy).toHaveBeenCalledWith('Client test-client-id subscribed to 1:0xpool1');
       expect(mockClient.emit).toHaveBeenCalledWith('subscribed', { poolAddress: '0xPool1' });
     });
 
@@ -71,6 +84,13 @@ describe('SwapEventsGateway', () => {
       expect(gateway['subscriptions'].get('all')?.has('test-client-id')).toBe(true);
       expect(mockClient.emit).toHaveBeenCalledWith('subscribed', { poolAddress: 'all' });
     });
+
+    it('should key pool subscriptions by chain', () => {
+      gateway.handleSubscribe(mockClient as Socket, { chainId: 137, poolAddress: 'all' });
+
+      expect(gateway['subscriptions'].get('137:all')?.has('test-client-id')).toBe(true);
+      expect(mockClient.emit).toHaveBeenCalledWith('subscribed', { chainId: 137, poolAddress: 'all' });
+    });
   });
 
   describe('handleCandleSubscribe', () => {
@@ -83,7 +103,7 @@ describe('SwapEventsGateway', () => {
       });
 
       expect(
-        gateway['candleSubscriptions'].get('0xTokenAddress:minute')?.has('test-client-id'),
+        gateway['candleSubscriptions'].get('1:0xtokenaddress:minute')?.has('test-client-id'),
       ).toBe(true);
       expect(logSpy).toHaveBeenCalledWith(
         'Client test-client-id subscribed to candles: 0xTokenAddress (minute)',
@@ -100,7 +120,7 @@ describe('SwapEventsGateway', () => {
       const logSpy = jest.spyOn(gateway['logger'], 'log');
 
       // First subscribe
-      gateway['candleSubscriptions'].set('0xToken:hour', new Set(['test-client-id']));
+      gateway['candleSubscriptions'].set('1:0xtoken:hour', new Set(['test-client-id']));
 
       // Then unsubscribe
       gateway.handleCandleUnsubscribe(mockClient as Socket, {
@@ -108,7 +128,7 @@ describe('SwapEventsGateway', () => {
         interval: 'hour',
       });
 
-      expect(gateway['candleSubscriptions'].get('0xToken:hour')?.has('test-client-id')).toBe(false);
+      expect(gateway['candleSubscriptions'].get('1:0xtoken:hour')?.has('test-client-id')).toBe(false);
       expect(logSpy).toHaveBeenCalledWith(
         'Client test-client-id unsubscribed from candles: 0xToken (hour)',
       );
@@ -122,7 +142,8 @@ describe('SwapEventsGateway', () => {
   describe('handleSwapCreated', () => {
     it('should broadcast swap event to subscribed clients', () => {
       const mockSwapEvent = {
-        poolAddress: '0xPool1',
+        chainId: 1,
+        poolAddress: '0xpool1',
         transactionHash: '0xTx1',
         blockNumber: 100,
         blockTimestamp: new Date(),
@@ -140,7 +161,7 @@ describe('SwapEventsGateway', () => {
       };
 
       // Subscribe client to this pool
-      gateway['subscriptions'].set('0xPool1', new Set(['test-client-id']));
+      gateway['subscriptions'].set('1:0xpool1', new Set(['test-client-id']));
 
       gateway.handleSwapCreated(mockSwapEvent as any);
 
@@ -150,7 +171,8 @@ describe('SwapEventsGateway', () => {
 
     it('should broadcast swap event to clients subscribed to all pools', () => {
       const mockSwapEvent = {
-        poolAddress: '0xPool1',
+        chainId: 1,
+        poolAddress: '0xpool1',
         transactionHash: '0xTx1',
         blockNumber: 100,
         blockTimestamp: new Date(),
@@ -175,11 +197,99 @@ describe('SwapEventsGateway', () => {
       expect(mockServer.to).toHaveBeenCalledWith('test-client-id');
       expect(mockServer.emit).toHaveBeenCalledWith('swap', mockSwapEvent);
     });
+
+    it('should not broadcast swaps to subscribers of another chain', () => {
+      gateway['subscriptions'].set('137:all', new Set(['test-client-id']));
+      gateway['subscriptions'].set('137:0xpool1', new Set(['test-client-id']));
+
+      gateway.handleSwapCreated({ chainId: 1, poolAddress: '0xpool1', transactionHash: '0xTx1' } as any);
+
+      expect(mockServer.to).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleSwapPending', () => {
+    const mockPendingSwap = {
+      chainId: 1,
+      poolAddress: '0xpool1',
+      transactionHash: '0xTx1',
+      blockNumber: 100,
+      blockHash: '0xBlock100',
+      blockTimestamp: new Date(),
+      sender: '0xSender1',
+      amount0: '1000',
+      amount1: '-2000',
+      sqrtPriceX96: '1000000',
+      liquidity: '5000',
+      tick: 100,
+      fee: 3000,
+      logIndex: 0,
+      confirmations: 1,
+    };
+
+    it('should broadcast pending swaps separately from confirmed ones', () => {
+      gateway['subscriptions'].set('1:0xpool1', new Set(['test-client-id']));
+
+      gateway.handleSwapPending(mockPendingSwap);
+
+      expect(mockServer.to).toHaveBeenCalledWith('test-client-id');
+      expect(mockServer.emit).toHaveBeenCalledWith('swapPending', mockPendingSwap);
+      expect(mockServer.emit).not.toHaveBeenCalledWith('swap', expect.anything());
+    });
+
+    it('should broadcast dropped pending swaps to clients subscribed to all pools', () => {
+      gateway['subscriptions'].set('all', new Set(['test-client-id']));
+
+      gateway.handleSwapDropped(mockPendingSwap);
+
+      expect(mockServer.to).toHaveBeenCalledWith('test-client-id');
+      expect(mockServer.emit).toHaveBeenCalledWith('swapDropped', mockPendingSwap);
+    });
+  });
+
+  describe('liquidity subscriptions', () => {
+    const mockLiquidityEvent = {
+      chainId: 1,
+      poolAddress: '0xpool1',
+      type: 'mint',
+      sender: '0xowner',
+      tickLower: -60,
+      tickUpper: 60,
+      liquidityDelta: '1000',
+      amount0: '10',
+      amount1: '20',
+      amountUSD: '30.000000',
+      transactionHash: '0xTx1',
+      logIndex: 0,
+    };
+
+    it('should broadcast liquidity events only to liquidity subscribers of the pool', () => {
+      gateway.handleLiquiditySubscribe(mockClient as Socket, { poolAddress: '0xPool1' });
+      gateway['subscriptions'].set('1:0xpool1', new Set(['swap-client-id']));
+
+      gateway.handleLiquidityCreated(mockLiquidityEvent as any);
+
+      expect(mockClient.emit).toHaveBeenCalledWith('liquiditySubscribed', { poolAddress: '0xPool1' });
+      expect(mockServer.to).toHaveBeenCalledTimes(1);
+      expect(mockServer.to).toHaveBeenCalledWith('test-client-id');
+      expect(mockServer.emit).toHaveBeenCalledWith('liquidity', mockLiquidityEvent);
+    });
+
+    it('should stop broadcasting after unsubscribing', () => {
+      gateway.handleLiquiditySubscribe(mockClient as Socket, { poolAddress: 'all' });
+      gateway.handleLiquidityUnsubscribe(mockClient as Socket, { poolAddress: 'all' });
+
+      gateway.handleLiquidityCreated(mockLiquidityEvent as any);
+
+      expect(mockServer.to).not.toHaveBeenCalled();
+      expect(mockClient.emit).toHaveBeenCalledWith('liquidityUnsubscribed', { poolAddress: 'all' });
+    });
   });
 
   describe('handleCandleFinalized', () => {
     it('should broadcast finalized candle to subscribed clients', () => {
-      const mockCandle = {
+      const mockCandle: TokenCandle = {
+        chainId: 1,
         interval: 'minute',
         tokenAddress: '0xToken1',
         date: new Date(),
@@ -194,11 +304,16 @@ describe('SwapEventsGateway', () => {
         high: '3.000000',
         low: '1.500000',
         close: '2.500000',
+        priceNative: '0.001000',
+        openNative: '0.000800',
+        highNative: '0.001200',
+        lowNative: '0.000600',
+        closeNative: '0.001000',
         txCount: 42,
       };
 
       // Subscribe client to this token and interval
-      gateway['candleSubscriptions'].set('0xToken1:minute', new Set(['test-client-id']));
+      gateway['candleSubscriptions'].set('1:0xtoken1:minute', new Set(['test-client-id']));
 
       const logSpy = jest.spyOn(gateway['logger'], 'debug');
 
@@ -212,7 +327,8 @@ describe('SwapEventsGateway', () => {
     });
 
     it('should broadcast finalized candle to clients subscribed to all tokens', () => {
-      const mockCandle = {
+      const mockCandle: TokenCandle = {
+        chainId: 1,
         interval: 'hour',
         tokenAddress: '0xToken2',
         date: new Date(),
@@ -227,6 +343,11 @@ describe('SwapEventsGateway', () => {
         high: '3.000000',
         low: '1.500000',
         close: '2.500000',
+        priceNative: '0.001000',
+        openNative: '0.000800',
+        highNative: '0.001200',
+        lowNative: '0.000600',
+        closeNative: '0.001000',
         txCount: 42,
       };
 
@@ -240,7 +361,8 @@ describe('SwapEventsGateway', () => {
     });
 
     it('should not broadcast if no clients are subscribed', () => {
-      const mockCandle = {
+      const mockCandle: TokenCandle = {
+        chainId: 1,
         interval: 'day',
         tokenAddress: '0xToken3',
         date: new Date(),
@@ -255,6 +377,11 @@ describe('SwapEventsGateway', () => {
         high: '3.000000',
         low: '1.500000',
         close: '2.500000',
+        priceNative: '0.001000',
+        openNative: '0.000800',
+        highNative: '0.001200',
+        lowNative: '0.000600',
+        closeNative: '0.001000',
         txCount: 42,
       };
 
@@ -264,4 +391,209 @@ describe('SwapEventsGateway', () => {
       expect(mockServer.emit).not.toHaveBeenCalled();
     });
   });
+
+  describe('pool candles', () => {
+    it('should subscribe to pool candles by pool ID and interval', () => {
+      gateway.handlePoolCandleSubscribe(mockClient as Socket, { poolId: '0xPool1', interval: 'hour' });
+
+      expect(gateway['poolCandleSubscriptions'].get('1:0xpool1:hour')?.has('test-client-id')).toBe(true);
+      expect(mockClient.emit).toHaveBeenCalledWith('poolCandleSubscribed', {
+        chainId: undefined,
+        poolId: '0xPool1',
+        interval: 'hour',
+      });
+    });
+
+    it('should only send finalized pool candles to pool candle subscribers', () => {
+      const poolCandle = { chainId: 1, interval: 'hour', poolId: '0xpool1', token0Close: '2.5', txCount: 3 } as PoolCandle;
+      gateway['poolCandleSubscriptions'].set('1:0xpool1:hour', new Set(['pool-client']));
+      gateway['candleSubscriptions'].set('all:hour', new Set(['token-client']));
+
+      gateway.handlePoolCandleFinalized(poolCandle);
+
+      expect(mockServer.to).toHaveBeenCalledTimes(1);
+      expect(mockServer.to).toHaveBeenCalledWith('pool-client');
+      expect(mockServer.emit).toHaveBeenCalledWith('poolCandle', poolCandle);
+    });
+  });
+
+  describe('handleCandleUpdated', () => {
+    const update = (close: string, date = new Date('2024-01-01T12:00:00Z')) => ({
+      chainId: 1,
+      interval: 'minute',
+      tokenAddress: '0xtoken1',
+      date,
+      status: RecordStatus.CURRENT,
+      close,
+    }) as TokenCandle;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      gateway['candleSubscriptions'].set('1:0xtoken1:minute', new Set(['test-client-id']));
+    });
+
+    afterEach(() => {
+      gateway.onModuleDestroy();
+      jest.useRealTimers();
+    });
+
+    it('should send the first update at once and the latest one at the end of the window', () => {
+      gateway.handleCandleUpdated(update('1'));
+      gateway.handleCandleUpdated(update('2'));
+      gateway.handleCandleUpdated(update('3'));
+
+      expect(mockServer.emit).toHaveBeenCalledTimes(1);
+      expect(mockServer.emit).toHaveBeenCalledWith('candleUpdate', update('1'));
+
+      jest.advanceTimersByTime(1000);
+
+      expect(mockServer.emit).toHaveBeenCalledTimes(2);
+      expect(mockServer.emit).toHaveBeenLastCalledWith('candleUpdate', update('3'));
+
+      // Nothing held back: the window closes without sending
+      jest.advanceTimersByTime(1000);
+      expect(mockServer.emit).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throttle each candle separately', () => {
+      gateway['candleSubscriptions'].set('all:minute', new Set(['all-client']));
+
+      gateway.handleCandleUpdated(update('1'));
+      gateway.handleCandleUpdated({ ...update('5'), tokenAddress: '0xtoken2' });
+
+      expect(mockServer.emit).toHaveBeenCalledWith('candleUpdate', update('1'));
+      expect(mockServer.emit).toHaveBeenCalledWith('candleUpdate', { ...update('5'), tokenAddress: '0xtoken2' });
+    });
+
+    it('should drop a held-back update once its period is finalized', () => {
+      gateway.handleCandleUpdated(update('1'));
+      gateway.handleCandleUpdated(update('2'));
+      gateway.handleCandleFinalized({ ...update('2'), status: undefined });
+
+      jest.advanceTimersByTime(1000);
+
+      expect(mockServer.emit).toHaveBeenCalledTimes(2);
+      expect(mockServer.emit).toHaveBeenLastCalledWith('candle', expect.objectContaining({ close: '2' }));
+    });
+
+    it('should skip candles nobody subscribed to', () => {
+      gateway.handleCandleUpdated({ ...update('1'), interval: 'hour' });
+
+      expect(mockServer.emit).not.toHaveBeenCalled();
+      expect(gateway['candleUpdateTimers'].size).toBe(0);
+    });
+
+    it('should send the rolled-up candle of subscribed resolutions built on the interval', async () => {
+      const rolledUp = { chainId: 1, interval: '5m', tokenAddress: '0xtoken1', status: 'current', close: '2' };
+      mockAggregationService.getRolledUpCandle.mockResolvedValue(rolledUp);
+      gateway['candleSubscriptions'].set('1:0xtoken1:5m', new Set(['5m-client']));
+      gateway['candleSubscriptions'].set('1:0xtoken1:4h', new Set(['4h-client']));
+
+      gateway.handleCandleUpdated(update('1'));
+      gateway.handleCandleUpdated(update('2'));
+      await Promise.resolve();
+
+      expect(mockAggregationService.getRolledUpCandle).toHaveBeenCalledTimes(1);
+      expect(mockAggregationService.getRolledUpCandle).toHaveBeenCalledWith(1, '0xtoken1', '5m', update('1').date);
+      expect(mockServer.to).toHaveBeenCalledWith('5m-client');
+      expect(mockServer.to).not.toHaveBeenCalledWith('4h-client');
+      expect(mockServer.emit).toHaveBeenCalledWith('candleUpdate', rolledUp);
+
+      // The held-back update is rolled up again at the end of the window
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+
+      expect(mockAggregationService.getRolledUpCandle).toHaveBeenCalledTimes(2);
+      expect(mockServer.emit).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not send a rolled-up candle finalized in the meantime', async () => {
+      mockAggregationService.getRolledUpCandle.mockResolvedValue({ chainId: 1, interval: '15m', status: 'finalized' });
+      gateway['candleSubscriptions'].clear();
+      gateway['candleSubscriptions'].set('1:all:15m', new Set(['15m-client']));
+
+      gateway.handleCandleUpdated(update('1'));
+      await Promise.resolve();
+
+      expect(mockAggregationService.getRolledUpCandle).toHaveBeenCalledWith(1, '0xtoken1', '15m', update('1').date);
+      expect(mockServer.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handlePoolCandleUpdated', () => {
+    const update = (token0Close: string, date = new Date('2024-01-01T12:00:00Z')) => ({
+      chainId: 1,
+      interval: 'hour',
+      poolId: '0xpool1',
+      date,
+      token0Close,
+    }) as PoolCandle;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      gateway['poolCandleSubscriptions'].set('1:0xpool1:hour', new Set(['pool-client']));
+    });
+
+    afterEach(() => {
+      gateway.onModuleDestroy();
+      jest.useRealTimers();
+    });
+
+    it('should throttle live pool candles apart from token candles', () => {
+      gateway['candleSubscriptions'].set('1:0xpool1:hour', new Set(['token-client']));
+
+      gateway.handlePoolCandleUpdated(update('1'));
+      gateway.handlePoolCandleUpdated(update('2'));
+
+      expect(mockServer.to).toHaveBeenCalledTimes(1);
+      expect(mockServer.to).toHaveBeenCalledWith('pool-client');
+      expect(mockServer.emit).toHaveBeenCalledWith('poolCandleUpdate', update('1'));
+
+      jest.advanceTimersByTime(1000);
+
+      expect(mockServer.emit).toHaveBeenLastCalledWith('poolCandleUpdate', update('2'));
+    });
+
+    it('should drop a held-back pool update once its period is finalized', () => {
+      gateway.handlePoolCandleUpdated(update('1'));
+      gateway.handlePoolCandleUpdated(update('2'));
+      gateway.handlePoolCandleFinalized(update('2'));
+
+      jest.advanceTimersByTime(1000);
+
+      expect(mockServer.emit).toHaveBeenCalledTimes(2);
+      expect(mockServer.emit).toHaveBeenLastCalledWith('poolCandle', update('2'));
+    });
+
+    it('should skip pool candles nobody subscribed to', () => {
+      gateway.handlePoolCandleUpdated({ ...update('1'), interval: 'minute' });
+
+      expect(mockServer.emit).not.toHaveBeenCalled();
+      expect(gateway['candleUpdateTimers'].size).toBe(0);
+    });
+  });
+
+  describe('handleChainReorg', () => {
+    it('should notify every swap subscriber on the chain once about the reorg', () => {
+      const reorg: ChainReorg = {
+        chainId: 1,
+        forkBlock: 100,
+        orphanedSwaps: [
+          { poolAddress: '0xPool1', transactionHash: '0xTx1', logIndex: 0, blockNumber: 101 },
+        ],
+        orphanedLiquidityEvents: [],
+      };
+
+      gateway['subscriptions'].set('1:0xpool1', new Set(['test-client-id']));
+      gateway['subscriptions'].set('all', new Set(['test-client-id', 'other-client-id']));
+      gateway['subscriptions'].set('137:all', new Set(['polygon-client-id']));
+
+      gateway.handleChainReorg(reorg);
+
+      expect(mockServer.to).toHaveBeenCalledTimes(2);
+      expect(mockServer.to).toHaveBeenCalledWith('test-client-id');
+      expect(mockServer.to).toHaveBeenCalledWith('other-client-id');
+      expect(mockServer.emit).toHaveBeenCalledWith('reorg', reorg);
+    });
+  });
 });
@@ -6,9 +6,21 @@ import {
   OnGatewayDisconnect,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { Logger } from '@nestjs/common';
+import { Inject, Logger, OnModuleDestroy, forwardRef } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { SwapEvent } from './schemas/swap-event.schema';
+import { PendingSwap } from './interfaces/pending-swap.interface';
+import { LiquidityEvent } from './schemas/liquidity-event.schema';
+import { PoolCandle, TokenCandle } from './interfaces/candle.interface';
+import { ChainReorg } from './interfaces/chain-reorg.interface';
+import { ConfigService } from '../config/config.service';
+import { AggregationService, CANDLE_RESOLUTIONS, RecordStatus } from '../aggregation/aggregation.service';
+
+// Latest in-progress candle held back until the end of its throttle window
+interface PendingCandleUpdate<T> {
+  candle: T;
+  send: (candle: T) => void;
+}
 
 @WebSocketGateway({
   cors: {
@@ -16,14 +28,32 @@ import { SwapEvent } from './schemas/swap-event.schema';
   },
 })
 export class SwapEventsGateway
-  implements OnGatewayConnection, OnGatewayDisconnect
+  implements OnGatewayConnection, OnGatewayDisconnect, OnModuleDestroy
 {
   @WebSocketServer()
   server: Server;
 
   private readonly logger = new Logger(SwapEventsGateway.name);
-  private subscriptions: Map<string, Set<string>> = new Map();
-  private candleSubscriptions: Map<string, Set<string>> = new Map(); // tokenAddress:interval -> clientIds
+  private subscriptions: Map<string, Set<string>> = new Map(); // chainId:poolAddress -> clientIds
+  private candleSubscriptions: Map<string, Set<string>> = new Map(); // chainId:tokenAddress:interval -> clientIds
+  private poolCandleSubscriptions: Map<string, Set<string>> = new Map(); // chainId:poolId:interval -> clientIds
+  private liquiditySubscriptions: Map<string, Set<string>> = new Map(); // chainId:poolAddress -> clientIds
+  // Live candle updates are throttled per candle: open windows and the latest update held back in each,
+  // keyed like token candle subscriptions and prefixed with 'pool:' for pool candles
+  private candleUpdateTimers: Map<string, NodeJS.Timeout> = new Map(); // key -> timer
+  private pendingCandleUpdates: Map<string, PendingCandleUpdate<TokenCandle | PoolCandle>> = new Map(); // key -> update
+
+  constructor(
+    private configService: ConfigService,
+    @Inject(forwardRef(() => AggregationService))
+    private aggregationService: AggregationService,
+  ) {}
+
+  onModuleDestroy() {
+    this.candleUpdateTimers.forEach((timer) => clearTimeout(timer));
+    this.candleUpdateTimers.clear();
+    this.pendingCandleUpdates.clear();
+  }
 
   handleConnection(client: Socket) {
     this.logger.log(`Client connected: ${client.id}`);
@@ -39,41 +69,50 @@ export class SwapEventsGateway
     this.candleSubscriptions.forEach((clients) => {
       clients.delete(client.id);
     });
+    this.poolCandleSubscriptions.forEach((clients) => {
+      clients.delete(client.id);
+    });
+    // Clean up liquidity subscriptions
+    this.liquiditySubscriptions.forEach((clients) => {
+      clients.delete(client.id);
+    });
   }
 
   @SubscribeMessage('subscribe')
-  handleSubscribe(client: Socket, payload: { poolAddress?: string }) {
+  handleSubscribe(client: Socket, payload: { chainId?: number; poolAddress?: string }) {
     const poolAddress = payload.poolAddress || 'all';
+    const subscriptionKey = this.poolSubscriptionKey(payload.chainId, poolAddress);
 
-    if (!this.subscriptions.has(poolAddress)) {
-      this.subscriptions.set(poolAddress, new Set());
+    if (!this.subscriptions.has(subscriptionKey)) {
+      this.subscriptions.set(subscriptionKey, new Set());
     }
 
-    this.subscriptions.get(poolAddress).add(client.id);
+    this.subscriptions.get(subscriptionKey).add(client.id);
 
-    this.logger.log(`Client ${client.id} subscribed to ${poolAddress}`);
-    client.emit('subscribed', { poolAddress });
+    this.logger.log(`Client ${client.id} subscribed to ${subscriptionKey}`);
+    client.emit('subscribed', { chainId: payload.chainId, poolAddress });
   }
 
   @SubscribeMessage('unsubscribe')
-  handleUnsubscribe(client: Socket, payload: { poolAddress?: string }) {
+  handleUnsubscribe(client: Socket, payload: { chainId?: number; poolAddress?: string }) {
     const poolAddress = payload.poolAddress || 'all';
+    const subscriptionKey = this.poolSubscriptionKey(payload.chainId, poolAddress);
 
-    if (this.subscriptions.has(poolAddress)) {
-      this.subscriptions.get(poolAddress).delete(client.id);
-      this.logger.log(`Client ${client.id} unsubscribed from ${poolAddress}`);
+    if (this.subscriptions.has(subscriptionKey)) {
+      this.subscriptions.get(subscriptionKey).delete(client.id);
+      this.logger.log(`Client ${client.id} unsubscribed from ${subscriptionKey}`);
     }
 
-    client.emit('unsubscribed', { poolAddress });
+    client.emit('unsubscribed', { chainId: payload.chainId, poolAddress });
   }
 
   @SubscribeMessage('subscribeCandle')
   handleCandleSubscribe(
     client: Socket,
-    payload: { tokenAddress: string; interval: string },
+    payload: { chainId?: number; tokenAddress: string; interval: string },
   ) {
     const { tokenAddress, interval } = payload;
-    const subscriptionKey = `${tokenAddress}:${interval}`;
+    const subscriptionKey = this.candleSubscriptionKey(payload.chainId, tokenAddress, interval);
 
     if (!this.candleSubscriptions.has(subscriptionKey)) {
       this.candleSubscriptions.set(subscriptionKey, new Set());
@@ -84,16 +123,16 @@ export class SwapEventsGateway
     this.logger.log(
       `Client ${client.id} subscribed to candles: ${tokenAddress} (${interval})`,
     );
-    client.emit('candleSubscribed', { tokenAddress, interval });
+    client.emit('candleSubscribed', { chainId: payload.chainId, tokenAddress, interval });
   }
 
   @SubscribeMessage('unsubscribeCandle')
   handleCandleUnsubscribe(
     client: Socket,
-    payload: { tokenAddress: string; interval: string },
+    payload: { chainId?: number; tokenAddress: string; interval: string },
   ) {
     const { tokenAddress, interval } = payload;
-    const subscriptionKey = `${tokenAddress}:${interval}`;
+    const subscriptionKey = this.candleSubscriptionKey(payload.chainId, tokenAddress, interval);
 
     if (this.candleSubscriptions.has(subscriptionKey)) {
       this.candleSubscriptions.get(subscriptionKey).delete(client.id);
@@ -102,54 +141,327 @@ export class SwapEventsGateway
       );
     }
 
-    client.emit('candleUnsubscribed', { tokenAddress, interval });
+    client.emit('candleUnsubscribed', { chainId: payload.chainId, tokenAddress, interval });
+  }
+
+  @SubscribeMessage('subscribePoolCandle')
+  handlePoolCandleSubscribe(
+    client: Socket,
+    payload: { chainId?: number; poolId: string; interval: string },
+  ) {
+    const { poolId, interval } = payload;
+    const subscriptionKey = this.candleSubscriptionKey(payload.chainId, poolId, interval);
+
+    if (!this.poolCandleSubscriptions.has(subscriptionKey)) {
+      this.poolCandleSubscriptions.set(subscriptionKey, new Set());
+    }
+
+    this.poolCandleSubscriptions.get(subscriptionKey).add(client.id);
+
+    this.logger.log(`Client ${client.id} subscribed to pool candles: ${poolId} (${interval})`);
+    client.emit('poolCandleSubscribed', { chainId: payload.chainId, poolId, interval });
+  }
+
+  @SubscribeMessage('unsubscribePoolCandle')
+  handlePoolCandleUnsubscribe(
+    client: Socket,
+    payload: { chainId?: number; poolId: string; interval: string },
+  ) {
+    const { poolId, interval } = payload;
+    const subscriptionKey = this.candleSubscriptionKey(payload.chainId, poolId, interval);
+
+    if (this.poolCandleSubscriptions.has(subscriptionKey)) {
+      this.poolCandleSubscriptions.get(subscriptionKey).delete(client.id);
+      this.logger.log(`Client ${client.id} unsubscribed from pool candles: ${poolId} (${interval})`);
+    }
+
+    client.emit('poolCandleUnsubscribed', { chainId: payload.chainId, poolId, interval });
+  }
+
+  @SubscribeMessage('subscribeLiquidity')
+  handleLiquiditySubscribe(client: Socket, payload: { chainId?: number; poolAddress?: string }) {
+    const poolAddress = payload.poolAddress || 'all';
+    const subscriptionKey = this.poolSubscriptionKey(payload.chainId, poolAddress);
+
+    if (!this.liquiditySubscriptions.has(subscriptionKey)) {
+      this.liquiditySubscriptions.set(subscriptionKey, new Set());
+    }
+
+    this.liquiditySubscriptions.get(subscriptionKey).add(client.id);
+
+    this.logger.log(`Client ${client.id} subscribed to liquidity: ${subscriptionKey}`);
+    client.emit('liquiditySubscribed', { chainId: payload.chainId, poolAddress });
+  }
+
+  @SubscribeMessage('unsubscribeLiquidity')
+  handleLiquidityUnsubscribe(client: Socket, payload: { chainId?: number; poolAddress?: string }) {
+    const poolAddress = payload.poolAddress || 'all';
+    const subscriptionKey = this.poolSubscriptionKey(payload.chainId, poolAddress);
+
+    if (this.liquiditySubscriptions.has(subscriptionKey)) {
+      this.liquiditySubscriptions.get(subscriptionKey).delete(client.id);
+      this.logger.log(`Client ${client.id} unsubscribed from liquidity: ${subscriptionKey}`);
+    }
+
+    client.emit('liquidityUnsubscribed', { chainId: payload.chainId, poolAddress });
   }
 
   @OnEvent('swap.created')
   handleSwapCreated(swapEvent: SwapEvent) {
-    // Send to clients subscribed to this specific pool
-    if (this.subscriptions.has(swapEvent.poolAddress)) {
-      const clients = this.subscriptions.get(swapEvent.poolAddress);
-      clients.forEach((clientId) => {
-        this.server.to(clientId).emit('swap', swapEvent);
+    this.broadcastToPoolSubscribers(swapEvent.chainId, swapEvent.poolAddress, 'swap', swapEvent);
+    this.logger.debug(`Swap event broadcast: ${swapEvent.transactionHash}`);
+  }
+
+  @OnEvent('swap.pending')
+  handleSwapPending(pendingSwap: PendingSwap) {
+    this.broadcastToPoolSubscribers(pendingSwap.chainId, pendingSwap.poolAddress, 'swapPending', pendingSwap);
+    this.logger.debug(`Pending swap broadcast: ${pendingSwap.transactionHash}`);
+  }
+
+  @OnEvent('swap.dropped')
+  handleSwapDropped(pendingSwap: PendingSwap) {
+    this.broadcastToPoolSubscribers(pendingSwap.chainId, pendingSwap.poolAddress, 'swapDropped', pendingSwap);
+    this.logger.debug(`Dropped swap broadcast: ${pendingSwap.transactionHash}`);
+  }
+
+  @OnEvent('liquidity.created')
+  handleLiquidityCreated(liquidityEvent: LiquidityEvent) {
+    this.broadcastToSubscribers(
+      this.liquiditySubscriptions,
+      liquidityEvent.chainId,
+      liquidityEvent.poolAddress,
+      'liquidity',
+      liquidityEvent,
+    );
+    this.logger.debug(`Liquidity event broadcast: ${liquidityEvent.type} ${liquidityEvent.transactionHash}`);
+  }
+
+  @OnEvent('chain.reorg')
+  handleChainReorg(reorg: ChainReorg) {
+    // Every swap and liquidity subscriber on the chain is told, so clients can drop orphaned events and refetch candles
+    const clientIds = new Set<string>();
+    [this.subscriptions, this.liquiditySubscriptions].forEach((subscriptions) => {
+      subscriptions.forEach((clients, subscriptionKey) => {
+        if (subscriptionKey === 'all' || subscriptionKey.startsWith(`${reorg.chainId}:`)) {
+          clients.forEach((clientId) => clientIds.add(clientId));
+        }
       });
+    });
+
+    clientIds.forEach((clientId) => {
+      this.server.to(clientId).emit('reorg', reorg);
+    });
+
+    this.logger.warn(
+      `Reorg broadcast: chain ${reorg.chainId} fork at block ${reorg.forkBlock} - ${clientIds.size} clients`,
+    );
+  }
+
+  @OnEvent('candle.finalized')
+  handleCandleFinalized(candle: TokenCandle) {
+    // A held-back update of the closed period must not follow its final state
+    this.dropPendingCandleUpdate(this.candleSubscriptionKey(candle.chainId, candle.tokenAddress, candle.interval), candle);
+
+    this.broadcastCandle(this.candleSubscriptions, candle.chainId, candle.tokenAddress, candle.interval, 'candle', candle);
+  }
+
+  @OnEvent('poolCandle.finalized')
+  handlePoolCandleFinalized(candle: PoolCandle) {
+    this.dropPendingCandleUpdate(`pool:${this.candleSubscriptionKey(candle.chainId, candle.poolId, candle.interval)}`, candle);
+
+    this.broadcastCandle(this.poolCandleSubscriptions, candle.chainId, candle.poolId, candle.interval, 'poolCandle', candle);
+  }
+
+  /**
+   * Send the in-progress candle of a stored interval, and of every subscribed resolution
+   * rolled up from it, at most once per throttle window per candle
+   */
+  @OnEvent('candle.updated')
+  handleCandleUpdated(candle: TokenCandle) {
+    const { chainId, tokenAddress } = candle;
+
+    if (this.hasCandleSubscribers(this.candleSubscriptions, chainId, tokenAddress, candle.interval)) {
+      this.throttleCandleUpdate(this.candleSubscriptionKey(chainId, tokenAddress, candle.interval), candle, (latest) =>
+        this.broadcastCandle(this.candleSubscriptions, chainId, tokenAddress, latest.interval, 'candleUpdate', latest),
+      );
     }
 
-    // Send to clients subscribed to all pools
-    if (this.subscriptions.has('all')) {
-      const clients = this.subscriptions.get('all');
-      clients.forEach((clientId) => {
-        this.server.to(clientId).emit('swap', swapEvent);
-      });
+    for (const [resolution, { base, baseBuckets }] of Object.entries(CANDLE_RESOLUTIONS)) {
+      if (base !== candle.interval || baseBuckets === 1 ||
+        !this.hasCandleSubscribers(this.candleSubscriptions, chainId, tokenAddress, resolution)) {
+        continue;
+      }
+
+      // Rolled up from the stored records only when sent, so at most once per window
+      this.throttleCandleUpdate(this.candleSubscriptionKey(chainId, tokenAddress, resolution), candle, (latest) =>
+        this.broadcastRolledUpCandle(chainId, tokenAddress, resolution, latest.date),
+      );
     }
+  }
 
-    this.logger.debug(`Swap event broadcast: ${swapEvent.transactionHash}`);
+  @OnEvent('poolCandle.updated')
+  handlePoolCandleUpdated(candle: PoolCandle) {
+    const { chainId, poolId, interval } = candle;
+    if (!this.hasCandleSubscribers(this.poolCandleSubscriptions, chainId, poolId, interval)) {
+      return;
+    }
+
+    this.throttleCandleUpdate(`pool:${this.candleSubscriptionKey(chainId, poolId, interval)}`, candle, (latest) =>
+      this.broadcastCandle(this.poolCandleSubscriptions, chainId, poolId, interval, 'poolCandleUpdate', latest),
+    );
   }
 
-  @OnEvent('candle.finalized')
-  handleCandleFinalized(candle: any) {
-    const { interval, tokenAddress } = candle;
-    const subscriptionKey = `${tokenAddress}:${interval}`;
+  /**
+   * Send the first update of a candle at once and hold back the latest one
+   * until the end of its throttle window
+   */
+  private throttleCandleUpdate<T extends TokenCandle | PoolCandle>(key: string, candle: T, send: (candle: T) => void) {
+    if (this.candleUpdateTimers.has(key)) {
+      this.pendingCandleUpdates.set(key, { candle, send });
+      return;
+    }
 
-    // Send to clients subscribed to this specific token + interval
-    if (this.candleSubscriptions.has(subscriptionKey)) {
-      const clients = this.candleSubscriptions.get(subscriptionKey);
+    send(candle);
+    this.candleUpdateTimers.set(
+      key,
+      setTimeout(() => this.flushCandleUpdate(key), this.configService.candleUpdateThrottleMs),
+    );
+  }
+
+  private flushCandleUpdate(key: string) {
+    this.candleUpdateTimers.delete(key);
+
+    const pending = this.pendingCandleUpdates.get(key);
+    if (pending) {
+      this.pendingCandleUpdates.delete(key);
+      this.throttleCandleUpdate(key, pending.candle, pending.send);
+    }
+  }
+
+  private dropPendingCandleUpdate(key: string, finalized: TokenCandle | PoolCandle) {
+    const pending = this.pendingCandleUpdates.get(key);
+    if (pending && new Date(pending.candle.date) <= new Date(finalized.date)) {
+      this.pendingCandleUpdates.delete(key);
+    }
+  }
+
+  /**
+   * Send a token's current candle of a rolled-up resolution, unless its period
+   * was finalized in the meantime
+   */
+  private async broadcastRolledUpCandle(chainId: number, tokenAddress: string, resolution: string, date: Date) {
+    try {
+      const candle = await this.aggregationService.getRolledUpCandle(chainId, tokenAddress, resolution, date);
+      if (candle && candle.status !== RecordStatus.FINALIZED) {
+        this.broadcastCandle(this.candleSubscriptions, chainId, tokenAddress, resolution, 'candleUpdate', candle);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to roll up ${resolution} candle of ${tokenAddress}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Whether any client would receive a candle of the token or pool and interval
+   */
+  private hasCandleSubscribers(
+    subscriptions: Map<string, Set<string>>,
+    chainId: number,
+    address: string,
+    interval: string,
+  ): boolean {
+    return [
+      this.candleSubscriptionKey(chainId, address, interval),
+      this.candleSubscriptionKey(chainId, 'all', interval),
+      `all:${interval}`,
+    ].some((subscriptionKey) => subscriptions.get(subscriptionKey)?.size > 0);
+  }
+
+  /**
+   * Send a candle to clients subscribed to its token or pool and interval,
+   * and to 'all' subscriptions for the interval on the chain and across chains
+   */
+  private broadcastCandle(
+    subscriptions: Map<string, Set<string>>,
+    chainId: number,
+    address: string,
+    interval: string,
+    event: string,
+    candle: TokenCandle | PoolCandle,
+  ) {
+    const subscriptionKey = this.candleSubscriptionKey(chainId, address, interval);
+
+    // Send to clients subscribed to this specific token or pool + interval
+    if (subscriptions.has(subscriptionKey)) {
+      const clients = subscriptions.get(subscriptionKey);
       clients.forEach((clientId) => {
-        this.server.to(clientId).emit('candle', candle);
+        this.server.to(clientId).emit(event, candle);
       });
 
       this.logger.debug(
-        `Candle finalized broadcast: ${tokenAddress} (${interval}) - ${clients.size} clients`,
+        `${event.endsWith('Update') ? 'Candle update' : 'Candle finalized'} broadcast: ${address} (${interval}) - ${clients.size} clients`,
       );
     }
 
-    // Also send to 'all' subscription for this interval
-    const allKey = `all:${interval}`;
-    if (this.candleSubscriptions.has(allKey)) {
-      const clients = this.candleSubscriptions.get(allKey);
-      clients.forEach((clientId) => {
-        this.server.to(clientId).emit('candle', candle);
-      });
+    // Also send to 'all' subscriptions for this interval, on the chain and across chains
+    const allKeys = [this.candleSubscriptionKey(chainId, 'all', interval), `all:${interval}`];
+    allKeys.forEach((allKey) => {
+      if (subscriptions.has(allKey)) {
+        const clients = subscriptions.get(allKey);
+        clients.forEach((clientId) => {
+          this.server.to(clientId).emit(event, candle);
+        });
+      }
+    });
+  }
+
+  private broadcastToPoolSubscribers(chainId: number, poolAddress: string, event: string, payload: SwapEvent | PendingSwap) {
+    this.broadcastToSubscribers(this.subscriptions, chainId, poolAddress, event, payload);
+  }
+
+  /**
+   * Send an event to clients subscribed to the pool, to all pools on its chain and to all pools
+   */
+  private broadcastToSubscribers(
+    subscriptions: Map<string, Set<string>>,
+    chainId: number,
+    poolAddress: string,
+    event: string,
+    payload: SwapEvent | PendingSwap | LiquidityEvent,
+  ) {
+    const subscriptionKeys = [
+      this.poolSubscriptionKey(chainId, poolAddress),
+      this.poolSubscriptionKey(chainId, 'all'),
+      'all',
+    ];
+
+    subscriptionKeys.forEach((subscriptionKey) => {
+      if (subscriptions.has(subscriptionKey)) {
+        const clients = subscriptions.get(subscriptionKey);
+        clients.forEach((clientId) => {
+          this.server.to(clientId).emit(event, payload);
+        });
+      }
+    });
+  }
+
+  /**
+   * Pools are keyed by chain, defaulting to the default chain. Subscribing to 'all'
+   * without a chain covers every chain.
+   */
+  private poolSubscriptionKey(chainId: number | undefined, poolAddress: string): string {
+    if (poolAddress === 'all' && chainId === undefined) {
+      return 'all';
+    }
+    return `${chainId ?? this.configService.defaultChainId}:${poolAddress.toLowerCase()}`;
+  }
+
+  /**
+   * Candles are keyed by chain, token address or pool ID, and interval
+   */
+  private candleSubscriptionKey(chainId: number | undefined, address: string, interval: string): string {
+    if (address === 'all' && chainId === undefined) {
+      return `all:${interval}`;
     }
+    return `${chainId ?? this.configService.defaultChainId}:${address.toLowerCase()}:${interval}`;
   }
 }
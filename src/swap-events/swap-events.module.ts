@@ -2,13 +2,19 @@ import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { SwapEventsService } from './swap-events.service';
 import { SwapEventsController } from './swap-events.controller';
+import { LiquidityEventsController } from './liquidity-events.controller';
 import { SwapEventsGateway } from './swap-events.gateway';
 import { SwapEvent, SwapEventSchema } from './schemas/swap-event.schema';
 import { SyncState, SyncStateSchema } from './schemas/sync-state.schema';
 import { Pool, PoolSchema } from './schemas/pool.schema';
+import { PoolCheckpoint, PoolCheckpointSchema } from './schemas/pool-checkpoint.schema';
+import { LiquidityEvent, LiquidityEventSchema } from './schemas/liquidity-event.schema';
+import { Tick, TickSchema } from './schemas/tick.schema';
 import { Token, TokenSchema } from '../aggregation/schemas/token.schema';
 import { ConfigModule } from '../config/config.module';
 import { AggregationModule } from '../aggregation/aggregation.module';
+import { EventSourceModule } from '../event-source/event-source.module';
+import { HooksModule } from '../hooks/hooks.module';
 
 @Module({
   imports: [
@@ -16,12 +22,17 @@ import { AggregationModule } from '../aggregation/aggregation.module';
       { name: SwapEvent.name, schema: SwapEventSchema },
       { name: SyncState.name, schema: SyncStateSchema },
       { name: Pool.name, schema: PoolSchema },
+      { name: PoolCheckpoint.name, schema: PoolCheckpointSchema },
+      { name: LiquidityEvent.name, schema: LiquidityEventSchema },
+      { name: Tick.name, schema: TickSchema },
       { name: Token.name, schema: TokenSchema },
     ]),
     ConfigModule,
+    EventSourceModule,
+    HooksModule,
     forwardRef(() => AggregationModule),
   ],
-  controllers: [SwapEventsController],
+  controllers: [SwapEventsController, LiquidityEventsController],
   providers: [SwapEventsService, SwapEventsGateway],
   exports: [SwapEventsService],
 })
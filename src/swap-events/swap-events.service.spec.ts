@@ -1,12 +1,21 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ethers } from 'ethers';
 import { getModelToken } from '@nestjs/mongoose';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { SwapEventsService } from './swap-events.service';
 import { SwapEvent } from './schemas/swap-event.schema';
 import { SyncState } from './schemas/sync-state.schema';
 import { Pool } from './schemas/pool.schema';
+import { PoolCheckpoint } from './schemas/pool-checkpoint.schema';
+import { LiquidityEvent } from './schemas/liquidity-event.schema';
+import { Tick } from './schemas/tick.schema';
 import { Token } from '../aggregation/schemas/token.schema';
 import { ConfigService } from '../config/config.service';
+import { AggregationService } from '../aggregation/aggregation.service';
+import { BigDecimal } from '../aggregation/big-decimal';
+import { HookRegistryService } from '../hooks/hook-registry.service';
+import { EVENT_SOURCES } from '../event-source/event-source.interface';
+import { ChainContext } from './interfaces/chain-context.interface';
 
 describe('SwapEventsService', () => {
   let service: SwapEventsService;
@@ -14,6 +23,8 @@ describe('SwapEventsService', () => {
   let mockSyncStateModel: any;
   let mockPoolModel: any;
   let mockTokenModel: any;
+  let mockLiquidityEventModel: any;
+  let mockTickModel: any;
   let mockConfigService: any;
   let mockEventEmitter: any;
 
@@ -42,12 +53,39 @@ describe('SwapEventsService', () => {
       findOne: jest.fn(),
     };
 
+    mockLiquidityEventModel = {
+      create: jest.fn(),
+      exists: jest.fn(),
+      find: jest.fn().mockReturnValue({ sort: jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue([]) }) }),
+      deleteMany: jest.fn(),
+    };
+
+    mockTickModel = {
+      find: jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue([]) }),
+      findOne: jest.fn(),
+      updateOne: jest.fn(),
+      deleteOne: jest.fn(),
+    };
+
+    const chain = {
+      chainId: 1,
+      name: 'ethereum',
+      rpcUrls: ['https://eth-mainnet.alchemyapi.io/v2/test'],
+      poolManagerAddress: '0x0000000000000000000000000000000000000000',
+      startingBlock: 0,
+      whitelistTokens: [],
+      hookLabels: { '0x00000000000000000000000000000000000000c0': 'Swap hook' },
+    };
+
     mockConfigService = {
       ethRpcUrl: 'https://eth-mainnet.alchemyapi.io/v2/test',
       uniswapV4PoolManagerAddress: '0x0000000000000000000000000000000000000000',
       startingBlock: 0,
       syncBatchSize: 1000,
       whitelistTokens: [],
+      chains: [chain],
+      defaultChainId: 1,
+      getChain: (chainId: number) => (chainId === 1 ? chain : undefined),
     };
 
     mockEventEmitter = {
@@ -298,4 +336,732 @@ describe('SwapEventsService', () => {
       expect(service.getAllPools).toHaveBeenCalledWith(100);
     });
   });
+
+  describe('chain reorganization', () => {
+    let reorgService: SwapEventsService;
+    let mockPoolCheckpointModel: any;
+    let mockAggregationService: any;
+    let mockEventSource: any;
+    let ctx: ChainContext;
+    const orphanedSwaps = [
+      { poolAddress: '0xpool1', token0Address: '0xtoken0', token1Address: '0xtoken1', transactionHash: '0xtx2', logIndex: 1, blockNumber: 102 },
+    ];
+
+    beforeEach(async () => {
+      mockSwapEventModel.find.mockReturnValue({ exec: jest.fn().mockResolvedValue(orphanedSwaps) });
+      mockSwapEventModel.deleteMany = jest.fn();
+      mockPoolModel.updateOne = jest.fn();
+      mockPoolModel.deleteMany = jest.fn();
+      mockPoolModel.distinct = jest.fn().mockResolvedValue(['0xpool2']);
+      mockTokenModel.updateMany = jest.fn();
+      mockSyncStateModel.findOne.mockResolvedValue({
+        lastSyncedBlock: 102,
+        recentBlocks: [
+          { blockNumber: 100, blockHash: '0xa' },
+          { blockNumber: 101, blockHash: '0xb' },
+          { blockNumber: 102, blockHash: '0xc' },
+        ],
+      });
+
+      mockPoolCheckpointModel = {
+        find: jest.fn().mockReturnThis(),
+        sort: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([
+          { poolId: '0xpool1', blockNumber: 102, sqrtPriceX96: '1', tick: 1, liquidity: '10', totalValueLockedToken0: '5', totalValueLockedToken1: '6' },
+          { poolId: '0xpool1', blockNumber: 103, sqrtPriceX96: '2', tick: 2, liquidity: '20', totalValueLockedToken0: '7', totalValueLockedToken1: '8' },
+        ]),
+        deleteMany: jest.fn(),
+        updateOne: jest.fn(),
+      };
+
+      mockAggregationService = {
+        revertSwapEvents: jest.fn(),
+        refreshTokenTotalValueLocked: jest.fn(),
+      };
+
+      mockEventSource = {
+        getBlock: jest.fn(),
+      };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          SwapEventsService,
+          { provide: getModelToken(SwapEvent.name), useValue: mockSwapEventModel },
+          { provide: getModelToken(SyncState.name), useValue: mockSyncStateModel },
+          { provide: getModelToken(Pool.name), useValue: mockPoolModel },
+          { provide: getModelToken(PoolCheckpoint.name), useValue: mockPoolCheckpointModel },
+          { provide: getModelToken(Token.name), useValue: mockTokenModel },
+          { provide: getModelToken(LiquidityEvent.name), useValue: mockLiquidityEventModel },
+          { provide: getModelToken(Tick.name), useValue: mockTickModel },
+          { provide: ConfigService, useValue: { ...mockConfigService, reorgDepth: 64 } },
+          { provide: EventEmitter2, useValue: mockEventEmitter },
+          { provide: AggregationService, useValue: mockAggregationService },
+          HookRegistryService,
+          { provide: EVENT_SOURCES, useValue: new Map([[1, mockEventSource]]) },
+        ],
+      }).compile();
+
+      reorgService = module.get<SwapEventsService>(SwapEventsService);
+      ctx = reorgService['chains'].get(1);
+    });
+
+    it('should find no fork when the latest indexed block is still canonical', async () => {
+      mockEventSource.getBlock.mockResolvedValue({ hash: '0xC' });
+
+      await expect(reorgService['findForkBlock'](ctx)).resolves.toBeNull();
+      expect(mockEventSource.getBlock).toHaveBeenCalledWith(102);
+    });
+
+    it('should return the newest indexed block that is still canonical', async () => {
+      mockEventSource.getBlock.mockImplementation(async (blockNumber: number) => ({
+        hash: blockNumber === 100 ? '0xa' : '0xforked',
+      }));
+
+      await expect(reorgService['findForkBlock'](ctx)).resolves.toBe(100);
+    });
+
+    it('should roll back swaps, pools and candles after the fork block', async () => {
+      await reorgService.rollbackToBlock(ctx, 101);
+
+      expect(mockSwapEventModel.deleteMany).toHaveBeenCalledWith({ chainId: 1, blockNumber: { $gt: 101 } });
+      expect(mockPoolModel.updateOne).toHaveBeenCalledTimes(1);
+      expect(mockPoolModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, poolId: '0xpool1' },
+        {
+          $set: expect.objectContaining({
+            sqrtPriceX96: '1',
+            liquidity: '10',
+            totalValueLockedToken0: '5',
+            totalValueLockedToken1: '6',
+          }),
+        },
+      );
+      expect(mockPoolModel.deleteMany).toHaveBeenCalledWith({ chainId: 1, poolId: { $in: ['0xpool2'] } });
+      expect(mockAggregationService.revertSwapEvents).toHaveBeenCalledWith(orphanedSwaps);
+      expect(mockAggregationService.refreshTokenTotalValueLocked).toHaveBeenCalledWith(1, ['0xtoken0', '0xtoken1']);
+      expect(mockSyncStateModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, poolManagerAddress: mockConfigService.uniswapV4PoolManagerAddress },
+        {
+          $set: expect.objectContaining({
+            lastSyncedBlock: 101,
+            recentBlocks: [
+              { blockNumber: 100, blockHash: '0xa' },
+              { blockNumber: 101, blockHash: '0xb' },
+            ],
+          }),
+        },
+      );
+      expect(mockLiquidityEventModel.deleteMany).toHaveBeenCalledWith({ chainId: 1, blockNumber: { $gt: 101 } });
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith('chain.reorg', {
+        chainId: 1,
+        forkBlock: 101,
+        orphanedSwaps: [{ poolAddress: '0xpool1', transactionHash: '0xtx2', logIndex: 1, blockNumber: 102 }],
+        orphanedLiquidityEvents: [],
+      });
+    });
+  });
+
+  describe('confirmation depth', () => {
+    let depthService: SwapEventsService;
+    let ctx: ChainContext;
+
+    beforeEach(async () => {
+      mockSwapEventModel.exists = jest.fn();
+      mockSyncStateModel.findOne.mockResolvedValue({ lastSyncedBlock: 110 });
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          SwapEventsService,
+          { provide: getModelToken(SwapEvent.name), useValue: mockSwapEventModel },
+          { provide: getModelToken(SyncState.name), useValue: mockSyncStateModel },
+          { provide: getModelToken(Pool.name), useValue: mockPoolModel },
+          { provide: getModelToken(PoolCheckpoint.name), useValue: {} },
+          { provide: getModelToken(Token.name), useValue: mockTokenModel },
+          { provide: getModelToken(LiquidityEvent.name), useValue: mockLiquidityEventModel },
+          { provide: getModelToken(Tick.name), useValue: mockTickModel },
+          { provide: ConfigService, useValue: { ...mockConfigService, confirmationDepth: 2 } },
+          { provide: EventEmitter2, useValue: mockEventEmitter },
+          { provide: AggregationService, useValue: {} },
+          HookRegistryService,
+          { provide: EVENT_SOURCES, useValue: new Map([[1, {}]]) },
+        ],
+      }).compile();
+
+      depthService = module.get<SwapEventsService>(SwapEventsService);
+      depthService['syncBatch'] = jest.fn();
+      ctx = depthService['chains'].get(1);
+    });
+
+    const pendingSwap = (transactionHash: string, blockNumber: number) => ({
+      chainId: 1,
+      poolAddress: '0xpool1',
+      transactionHash,
+      blockNumber,
+      blockHash: `0xblock${blockNumber}`,
+      blockTimestamp: new Date(),
+      sender: '0xsender',
+      amount0: '1',
+      amount1: '-1',
+      sqrtPriceX96: '1',
+      liquidity: '1',
+      tick: 0,
+      fee: 3000,
+      logIndex: 0,
+      confirmations: 1,
+    });
+
+    it('should only ingest blocks that are deep enough', async () => {
+      await depthService['promoteConfirmedBlocks'](ctx, 114);
+
+      expect(depthService['syncBatch']).toHaveBeenCalledWith(ctx, 111, 112);
+      expect(mockSyncStateModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, poolManagerAddress: mockConfigService.uniswapV4PoolManagerAddress },
+        expect.objectContaining({ lastSyncedBlock: 112, currentBlock: 114 }),
+      );
+    });
+
+    it('should settle confirmed pending swaps and report orphaned ones as dropped', async () => {
+      ctx.pendingSwaps.set('0xconfirmed:0', pendingSwap('0xconfirmed', 111));
+      ctx.pendingSwaps.set('0xorphaned:0', pendingSwap('0xorphaned', 112));
+      ctx.pendingSwaps.set('0xrecent:0', pendingSwap('0xrecent', 113));
+      mockSwapEventModel.exists.mockImplementation(async ({ transactionHash }) =>
+        transactionHash === '0xconfirmed' ? { _id: '1' } : null,
+      );
+
+      await depthService['promoteConfirmedBlocks'](ctx, 114);
+
+      expect(depthService.getPendingSwaps().map((swap) => swap.transactionHash)).toEqual(['0xrecent']);
+      expect(depthService.getPendingSwaps()[0].confirmations).toBe(2);
+      expect(mockEventEmitter.emit).toHaveBeenCalledTimes(1);
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'swap.dropped',
+        expect.objectContaining({ transactionHash: '0xorphaned' }),
+      );
+    });
+  });
+
+  describe('liquidity events', () => {
+    let liquidityService: SwapEventsService;
+    let mockAggregationService: any;
+    let ctx: ChainContext;
+    const event = {
+      transactionHash: '0xTxLiquidity',
+      index: 3,
+      blockNumber: 120,
+      blockHash: '0xblock120',
+    };
+    const burn = {
+      poolId: '0xpool1',
+      sender: '0xOwner',
+      tickLower: -60,
+      tickUpper: 60,
+      liquidityDelta: -1000000n,
+      salt: ethers.ZeroHash,
+      event: event as any,
+    };
+
+    beforeEach(async () => {
+      mockPoolModel.findOne.mockResolvedValue({
+        poolId: '0xpool1',
+        currency0: '0xtoken0',
+        currency1: '0xtoken1',
+        tickSpacing: 60,
+        sqrtPriceX96: (2n ** 96n).toString(),
+        tick: 0,
+        liquidity: '5000000',
+        totalValueLockedToken0: '100000',
+        totalValueLockedToken1: '100000',
+      });
+      mockPoolModel.updateOne = jest.fn();
+      mockLiquidityEventModel.create.mockImplementation(async (doc) => doc);
+      mockAggregationService = {
+        getAmountUSD: jest.fn().mockResolvedValue(BigDecimal.from('12.5')),
+        processLiquidityEvent: jest.fn(),
+      };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          SwapEventsService,
+          { provide: getModelToken(SwapEvent.name), useValue: mockSwapEventModel },
+          { provide: getModelToken(SyncState.name), useValue: mockSyncStateModel },
+          { provide: getModelToken(Pool.name), useValue: mockPoolModel },
+          { provide: getModelToken(PoolCheckpoint.name), useValue: {} },
+          { provide: getModelToken(Token.name), useValue: mockTokenModel },
+          { provide: getModelToken(LiquidityEvent.name), useValue: mockLiquidityEventModel },
+          { provide: getModelToken(Tick.name), useValue: mockTickModel },
+          { provide: ConfigService, useValue: mockConfigService },
+          { provide: EventEmitter2, useValue: mockEventEmitter },
+          { provide: AggregationService, useValue: mockAggregationService },
+          HookRegistryService,
+          { provide: EVENT_SOURCES, useValue: new Map([[1, { getBlock: jest.fn().mockResolvedValue({ timestamp: 1700000000 }) }]]) },
+        ],
+      }).compile();
+
+      liquidityService = module.get<SwapEventsService>(SwapEventsService);
+      liquidityService['checkpointPool'] = jest.fn();
+      ctx = liquidityService['chains'].get(1);
+    });
+
+    it('should store removed liquidity as a burn with its token amounts and USD value', async () => {
+      await liquidityService['handleModifyLiquidityEvent'](ctx, burn);
+
+      const [stored] = mockLiquidityEventModel.create.mock.calls[0];
+      expect(stored).toEqual(
+        expect.objectContaining({
+          chainId: 1,
+          poolAddress: '0xpool1',
+          type: 'burn',
+          sender: '0xOwner',
+          tickLower: -60,
+          tickUpper: 60,
+          liquidityDelta: '-1000000',
+          amountUSD: '12.5',
+          transactionHash: '0xTxLiquidity',
+          logIndex: 3,
+          blockTimestamp: new Date(1700000000 * 1000),
+        }),
+      );
+      expect(BigInt(stored.amount0)).toBeLessThan(0n);
+      expect(BigInt(stored.amount1)).toBeLessThan(0n);
+      expect(mockAggregationService.getAmountUSD).toHaveBeenCalledWith(
+        1, '0xtoken0', stored.amount0, '0xtoken1', stored.amount1,
+      );
+      expect(mockAggregationService.processLiquidityEvent).toHaveBeenCalledWith(stored);
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith('liquidity.created', stored);
+    });
+
+    it('should fail before applying an event whose block the node does not return', async () => {
+      ctx.eventSource.getBlock = jest.fn().mockResolvedValue(null);
+
+      await expect(liquidityService['handleModifyLiquidityEvent'](ctx, burn))
+        .rejects.toThrow('Block 120 not found on chain 1');
+      expect(mockTickModel.updateOne).not.toHaveBeenCalled();
+      expect(mockPoolModel.updateOne).not.toHaveBeenCalled();
+      expect(mockLiquidityEventModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should update gross and net liquidity of the boundary ticks', async () => {
+      mockTickModel.findOne.mockImplementation(async ({ tickIdx }) =>
+        tickIdx === -60 ? { liquidityGross: '3000000', liquidityNet: '3000000' } : { liquidityGross: '1000000', liquidityNet: '-1000000' },
+      );
+
+      await liquidityService['handleModifyLiquidityEvent'](ctx, burn);
+
+      expect(mockTickModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, poolId: '0xpool1', tickIdx: -60 },
+        { $set: { liquidityGross: '2000000', liquidityNet: '2000000' } },
+        { upsert: true },
+      );
+      // The upper tick has no liquidity left and is removed
+      expect(mockTickModel.deleteOne).toHaveBeenCalledWith({ chainId: 1, poolId: '0xpool1', tickIdx: 60 });
+    });
+
+    it('should only change the active liquidity for positions containing the current tick', async () => {
+      await liquidityService['handleModifyLiquidityEvent'](ctx, burn);
+      // [60, 120) is above the current tick 0
+      await liquidityService['handleModifyLiquidityEvent'](ctx, { ...burn, tickLower: 60, tickUpper: 120 });
+
+      expect(mockPoolModel.updateOne).toHaveBeenNthCalledWith(
+        1,
+        { chainId: 1, poolId: '0xpool1' },
+        { $set: expect.objectContaining({ liquidity: '4000000' }) },
+      );
+      expect(mockPoolModel.updateOne).toHaveBeenNthCalledWith(
+        2,
+        { chainId: 1, poolId: '0xpool1' },
+        { $set: expect.objectContaining({ liquidity: '5000000' }) },
+      );
+    });
+
+    it('should move the pool balances by the negated swapper deltas', async () => {
+      mockSwapEventModel.exists = jest.fn().mockResolvedValue(null);
+      mockSwapEventModel.create.mockImplementation(async (doc) => doc);
+      mockTokenModel.findOne.mockResolvedValue({ decimals: 18 });
+      mockAggregationService.processSwapEvent = jest.fn();
+      liquidityService['reconcileSwapLiquidity'] = jest.fn();
+
+      // The swapper pays 1000 token0 into the pool and receives 400 token1
+      await liquidityService['handleSwapEvent'](ctx, {
+        poolId: '0xpool1',
+        sender: '0xSwapper',
+        amount0: -1000n,
+        amount1: 400n,
+        sqrtPriceX96: 2n ** 96n,
+        liquidity: 5000000n,
+        tick: 0,
+        fee: 3000,
+        event: event as any,
+      });
+
+      expect(mockPoolModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, poolId: '0xpool1' },
+        {
+          $set: expect.objectContaining({
+            totalValueLockedToken0: '101000',
+            totalValueLockedToken1: '99600',
+          }),
+        },
+      );
+    });
+
+    it('should count swaps whose liquidity diverges from the crossed ticks', async () => {
+      const pool = await mockPoolModel.findOne();
+      mockTickModel.find.mockReturnValue({
+        exec: jest.fn().mockResolvedValue([{ tickIdx: 60, liquidityNet: '-1000000' }]),
+      });
+
+      // Crossing tick 60 upwards leaves 4000000 active
+      await liquidityService['reconcileSwapLiquidity'](ctx, pool, 70, 4000000n, event as any);
+      expect(mockTickModel.find).toHaveBeenCalledWith({
+        chainId: 1,
+        poolId: '0xpool1',
+        tickIdx: { $gt: 0, $lte: 70 },
+      });
+      expect(mockSyncStateModel.updateOne).not.toHaveBeenCalled();
+
+      await liquidityService['reconcileSwapLiquidity'](ctx, pool, 70, 5000000n, event as any);
+      expect(mockSyncStateModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, poolManagerAddress: mockConfigService.uniswapV4PoolManagerAddress },
+        { $inc: { liquidityDivergences: 1 } },
+      );
+    });
+
+    it('should not touch ticks that do not match the pool tick spacing', async () => {
+      await liquidityService['handleModifyLiquidityEvent'](ctx, { ...burn, tickLower: -50 });
+
+      expect(mockTickModel.updateOne).not.toHaveBeenCalled();
+      expect(mockLiquidityEventModel.create).toHaveBeenCalled();
+    });
+
+    it('should skip liquidity events that were already stored', async () => {
+      mockLiquidityEventModel.exists.mockResolvedValue({ _id: '1' });
+
+      await liquidityService['handleModifyLiquidityEvent'](ctx, burn);
+
+      expect(mockPoolModel.updateOne).not.toHaveBeenCalled();
+      expect(mockLiquidityEventModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('whitelist reconciliation', () => {
+    let whitelistService: SwapEventsService;
+    let mockAggregationService: any;
+
+    beforeEach(async () => {
+      mockConfigService.chains[0].whitelistTokens = ['0xwhitelistb', '0xwhitelista'];
+      mockAggregationService = {
+        reconcileWhitelistPools: jest.fn().mockResolvedValue({ updatedTokens: 4, repricedTokens: 3 }),
+      };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          SwapEventsService,
+          { provide: getModelToken(SwapEvent.name), useValue: mockSwapEventModel },
+          { provide: getModelToken(SyncState.name), useValue: mockSyncStateModel },
+          { provide: getModelToken(Pool.name), useValue: mockPoolModel },
+          { provide: getModelToken(PoolCheckpoint.name), useValue: {} },
+          { provide: getModelToken(Token.name), useValue: mockTokenModel },
+          { provide: getModelToken(LiquidityEvent.name), useValue: mockLiquidityEventModel },
+          { provide: getModelToken(Tick.name), useValue: mockTickModel },
+          { provide: ConfigService, useValue: mockConfigService },
+          { provide: EventEmitter2, useValue: mockEventEmitter },
+          { provide: AggregationService, useValue: mockAggregationService },
+          HookRegistryService,
+          { provide: EVENT_SOURCES, useValue: new Map([[1, {}]]) },
+        ],
+      }).compile();
+
+      whitelistService = module.get<SwapEventsService>(SwapEventsService);
+    });
+
+    it('should recompute whitelist pools when the configured whitelist changed', async () => {
+      mockSyncStateModel.findOne.mockResolvedValue({ whitelistTokens: ['0xwhitelista'] });
+
+      const result = await whitelistService.reconcileWhitelist(1);
+
+      expect(result).toEqual({
+        chainId: 1,
+        whitelistTokens: ['0xwhitelista', '0xwhitelistb'],
+        reconciled: true,
+        updatedTokens: 4,
+        repricedTokens: 3,
+      });
+      expect(mockAggregationService.reconcileWhitelistPools).toHaveBeenCalledWith(1);
+      expect(mockSyncStateModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, poolManagerAddress: '0x0000000000000000000000000000000000000000' },
+        { $set: { whitelistTokens: ['0xwhitelista', '0xwhitelistb'] } },
+      );
+    });
+
+    it('should skip an unchanged whitelist unless forced', async () => {
+      mockSyncStateModel.findOne.mockResolvedValue({ whitelistTokens: ['0xwhitelista', '0xwhitelistb'] });
+
+      const skipped = await whitelistService.reconcileWhitelist(1);
+      expect(skipped.reconciled).toBe(false);
+      expect(mockAggregationService.reconcileWhitelistPools).not.toHaveBeenCalled();
+
+      const forced = await whitelistService.reconcileWhitelist(1, true);
+      expect(forced.reconciled).toBe(true);
+      expect(mockAggregationService.reconcileWhitelistPools).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null for an unknown chain', async () => {
+      expect(await whitelistService.reconcileWhitelist(137)).toBeNull();
+    });
+  });
+
+  describe('pool hooks', () => {
+    let hooksService: SwapEventsService;
+    const hooked = '0x00000000000000000000000000000000000000c0';
+    const hookedPool = {
+      chainId: 1,
+      poolId: '0xpool1',
+      fee: 0x800000,
+      hooks: hooked,
+      toObject() {
+        return { chainId: 1, poolId: '0xpool1', fee: 0x800000, hooks: hooked };
+      },
+    };
+
+    beforeEach(async () => {
+      mockPoolModel.find = jest.fn().mockReturnThis();
+      mockPoolModel.sort = jest.fn().mockReturnThis();
+      mockPoolModel.limit = jest.fn().mockReturnThis();
+      mockPoolModel.exec = jest.fn().mockResolvedValue([hookedPool]);
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          SwapEventsService,
+          { provide: getModelToken(SwapEvent.name), useValue: mockSwapEventModel },
+          { provide: getModelToken(SyncState.name), useValue: mockSyncStateModel },
+          { provide: getModelToken(Pool.name), useValue: mockPoolModel },
+          { provide: getModelToken(PoolCheckpoint.name), useValue: {} },
+          { provide: getModelToken(Token.name), useValue: mockTokenModel },
+          { provide: getModelToken(LiquidityEvent.name), useValue: mockLiquidityEventModel },
+          { provide: getModelToken(Tick.name), useValue: mockTickModel },
+          { provide: ConfigService, useValue: mockConfigService },
+          { provide: EventEmitter2, useValue: mockEventEmitter },
+          { provide: AggregationService, useValue: {} },
+          HookRegistryService,
+          { provide: EVENT_SOURCES, useValue: new Map([[1, {}]]) },
+        ],
+      }).compile();
+
+      hooksService = module.get<SwapEventsService>(SwapEventsService);
+    });
+
+    it('should describe the hook of every returned pool', async () => {
+      const [pool] = await hooksService.getAllPools(100, 1);
+
+      expect(pool.hook).toEqual({
+        address: hooked,
+        label: 'Swap hook',
+        hasHooks: true,
+        permissions: ['beforeSwap', 'afterSwap'],
+        isDynamicFee: true,
+      });
+      expect(mockPoolModel.find).toHaveBeenCalledWith({ chainId: 1 });
+    });
+
+    it('should filter pools by hook label, permissions and fee mode', async () => {
+      await hooksService.getAllPools(100, 1, {
+        hooks: 'swap HOOK',
+        hasHooks: true,
+        permissions: ['beforeSwap'],
+        dynamicFee: false,
+      });
+
+      expect(mockPoolModel.find).toHaveBeenCalledWith({
+        chainId: 1,
+        $and: [
+          { hooks: { $in: [hooked] } },
+          { hooks: { $ne: '0x0000000000000000000000000000000000000000' } },
+          { hookPermissions: { $all: ['beforeSwap'] } },
+          { fee: { $ne: 0x800000 } },
+        ],
+      });
+    });
+
+    it('should match no pool for an unknown hook label', async () => {
+      await hooksService.getPoolsByCurrency('0xtoken0', undefined, 100, 1, { hooks: 'unknown' });
+
+      expect(mockPoolModel.find).toHaveBeenCalledWith({
+        chainId: 1,
+        currency0: '0xtoken0',
+        $and: [{ hooks: { $in: [] } }],
+      });
+    });
+
+    it('should store the decoded permissions of pools indexed without them', async () => {
+      mockPoolModel.distinct = jest.fn().mockResolvedValue([hooked]);
+      mockPoolModel.updateMany = jest.fn().mockResolvedValue({ modifiedCount: 3 });
+
+      await hooksService.migrateHookPermissions();
+
+      expect(mockPoolModel.distinct).toHaveBeenCalledWith('hooks', { hookPermissions: { $exists: false } });
+      expect(mockPoolModel.updateMany).toHaveBeenCalledWith(
+        { hooks: hooked, hookPermissions: { $exists: false } },
+        { $set: { hookPermissions: ['beforeSwap', 'afterSwap'] } },
+      );
+    });
+
+    it('should assign records indexed before multi-chain support to the default chain', async () => {
+      const models = [mockPoolModel, mockSwapEventModel, mockSyncStateModel, hooksService['poolCheckpointModel'] as any];
+      for (const model of models) {
+        model.updateMany = jest.fn().mockResolvedValue({ modifiedCount: 0 });
+        model.syncIndexes = jest.fn().mockResolvedValue([]);
+      }
+
+      await hooksService.migrateChainIds();
+
+      for (const model of models) {
+        expect(model.updateMany).toHaveBeenCalledWith({ chainId: { $exists: false } }, { $set: { chainId: 1 } });
+        // Drops the unique indexes without chain ID
+        expect(model.syncIndexes).toHaveBeenCalled();
+      }
+    });
+  });
+
+  describe('live handoff', () => {
+    let handoffService: SwapEventsService;
+    let ctx: ChainContext;
+    let mockEventSource: any;
+    let mockAggregationService: any;
+    const swapInterface = new ethers.Interface([
+      'event Swap(bytes32 indexed poolId, address indexed sender, int128 amount0, int128 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint24 fee)',
+    ]);
+
+    const swapLog = (transactionHash: string, blockNumber: number) => {
+      const { topics, data } = swapInterface.encodeEventLog('Swap', [
+        ethers.ZeroHash, ethers.ZeroAddress, 1, -1, 1, 1, 0, 3000,
+      ]);
+      return new ethers.Log(
+        {
+          address: mockConfigService.uniswapV4PoolManagerAddress,
+          topics,
+          data,
+          blockNumber,
+          blockHash: `0xblock${blockNumber}`,
+          transactionHash,
+          transactionIndex: 0,
+          index: 0,
+          removed: false,
+        },
+        null,
+      );
+    };
+
+    beforeEach(async () => {
+      mockSyncStateModel.findOne.mockResolvedValue({ lastSyncedBlock: 110, isInitialSyncComplete: true });
+      mockEventSource = {
+        getBlockNumber: jest.fn(),
+      };
+      mockAggregationService = {
+        setChainSyncing: jest.fn(),
+      };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          SwapEventsService,
+          { provide: getModelToken(SwapEvent.name), useValue: mockSwapEventModel },
+          { provide: getModelToken(SyncState.name), useValue: mockSyncStateModel },
+          { provide: getModelToken(Pool.name), useValue: mockPoolModel },
+          { provide: getModelToken(PoolCheckpoint.name), useValue: {} },
+          { provide: getModelToken(Token.name), useValue: mockTokenModel },
+          { provide: getModelToken(LiquidityEvent.name), useValue: mockLiquidityEventModel },
+          { provide: getModelToken(Tick.name), useValue: mockTickModel },
+          { provide: ConfigService, useValue: { ...mockConfigService, confirmationDepth: 0, reorgDepth: 64 } },
+          { provide: EventEmitter2, useValue: mockEventEmitter },
+          { provide: AggregationService, useValue: mockAggregationService },
+          HookRegistryService,
+          { provide: EVENT_SOURCES, useValue: new Map([[1, mockEventSource]]) },
+        ],
+      }).compile();
+
+      handoffService = module.get<SwapEventsService>(SwapEventsService);
+      handoffService['syncBatch'] = jest.fn();
+      handoffService['findForkBlock'] = jest.fn().mockResolvedValue(null);
+      handoffService['handleNewHead'] = jest.fn();
+      handoffService['handleSwapEventFromLog'] = jest.fn();
+      handoffService['recordIndexedBlocks'] = jest.fn();
+      ctx = handoffService['chains'].get(1);
+    });
+
+    it('should keep syncing until the backfill has caught up with the moving head', async () => {
+      mockEventSource.getBlockNumber
+        .mockResolvedValueOnce(120)
+        .mockResolvedValueOnce(125)
+        .mockResolvedValueOnce(125);
+
+      await handoffService.syncHistoricalEvents(ctx);
+
+      expect(handoffService['syncBatch']).toHaveBeenCalledTimes(2);
+      expect(handoffService['syncBatch']).toHaveBeenNthCalledWith(1, ctx, 111, 120);
+      expect(handoffService['syncBatch']).toHaveBeenNthCalledWith(2, ctx, 121, 125);
+      expect(ctx.ingestedThroughBlock).toBe(125);
+      // The finalization crons leave the chain alone until the backfill is done
+      expect(mockAggregationService.setChainSyncing).toHaveBeenNthCalledWith(1, 1, true);
+      expect(mockAggregationService.setChainSyncing).toHaveBeenNthCalledWith(2, 1, false);
+    });
+
+    it('should buffer live logs during the sync and drain them without duplicates', async () => {
+      ctx.isSyncing = true;
+
+      handoffService['enqueueLiveItem'](ctx, { kind: 'log', log: swapLog('0xsynced', 120) });
+      handoffService['enqueueLiveItem'](ctx, { kind: 'log', log: swapLog('0xlive', 121) });
+      handoffService['enqueueLiveItem'](ctx, { kind: 'log', log: swapLog('0xlive', 121) });
+
+      expect(ctx.liveQueue).toHaveLength(3);
+      expect(handoffService['handleSwapEventFromLog']).not.toHaveBeenCalled();
+
+      ctx.isSyncing = false;
+      ctx.ingestedThroughBlock = 120;
+      await handoffService['processLiveQueue'](ctx);
+
+      expect(ctx.liveQueue).toHaveLength(0);
+      expect(handoffService['handleSwapEventFromLog']).toHaveBeenCalledTimes(1);
+      expect(handoffService['handleSwapEventFromLog']).toHaveBeenCalledWith(
+        ctx,
+        expect.objectContaining({ transactionHash: '0xlive', blockNumber: 121 }),
+      );
+    });
+
+    it('should backfill from the last synced block after a reconnect', async () => {
+      mockEventSource.getBlockNumber.mockResolvedValue(130);
+      ctx.ingestedThroughBlock = 110;
+
+      handoffService['enqueueLiveItem'](ctx, { kind: 'reconnect' });
+      await new Promise(setImmediate);
+
+      expect(handoffService['handleNewHead']).toHaveBeenCalledWith(ctx, 130);
+      expect(handoffService['syncBatch']).toHaveBeenCalledWith(ctx, 111, 130);
+      expect(mockSyncStateModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, poolManagerAddress: mockConfigService.uniswapV4PoolManagerAddress },
+        expect.objectContaining({ lastSyncedBlock: 130, currentBlock: 130 }),
+      );
+
+      // Live logs from the backfilled range are not applied a second time
+      handoffService['enqueueLiveItem'](ctx, { kind: 'log', log: swapLog('0xmissed', 125) });
+      await new Promise(setImmediate);
+      expect(handoffService['handleSwapEventFromLog']).not.toHaveBeenCalled();
+    });
+
+    it('should mark live blocks synced once the next head arrives', async () => {
+      ctx.ingestedThroughBlock = 110;
+
+      handoffService['enqueueLiveItem'](ctx, { kind: 'log', log: swapLog('0xlive', 121) });
+      handoffService['enqueueLiveItem'](ctx, { kind: 'head', blockNumber: 122 });
+      await new Promise(setImmediate);
+
+      expect(handoffService['handleSwapEventFromLog']).toHaveBeenCalledTimes(1);
+      expect(mockSyncStateModel.updateOne).toHaveBeenCalledTimes(1);
+      expect(mockSyncStateModel.updateOne).toHaveBeenCalledWith(
+        { chainId: 1, poolManagerAddress: mockConfigService.uniswapV4PoolManagerAddress },
+        {
+          $max: { lastSyncedBlock: 121 },
+          $set: { currentBlock: 122, lastSyncedAt: expect.any(Date) },
+        },
+      );
+    });
+  });
 });
@@ -3,14 +3,33 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { ethers } from 'ethers';
 import { SwapEvent, SwapEventDocument } from './schemas/swap-event.schema';
-import { SyncState, SyncStateDocument } from './schemas/sync-state.schema';
+import { SyncState, SyncStateDocument, IndexedBlock } from './schemas/sync-state.schema';
 import { Pool, PoolDocument } from './schemas/pool.schema';
+import { PendingSwap } from './interfaces/pending-swap.interface';
+import { ChainReorg } from './interfaces/chain-reorg.interface';
+import { WhitelistReconciliation } from './interfaces/whitelist-reconciliation.interface';
+import { ChainContext, QueueItem } from './interfaces/chain-context.interface';
+import { PoolCheckpoint, PoolCheckpointDocument } from './schemas/pool-checkpoint.schema';
+import { LiquidityEvent, LiquidityEventDocument, LiquidityEventType } from './schemas/liquidity-event.schema';
+import { Tick, TickDocument } from './schemas/tick.schema';
+import { LiquidityDistribution } from './interfaces/liquidity-distribution.interface';
+import { PoolHookFilter, PoolWithHook } from './interfaces/pool-hook.interface';
 import { Token, TokenDocument } from '../aggregation/schemas/token.schema';
 import { ConfigService } from '../config/config.service';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { AggregationService } from '../aggregation/aggregation.service';
+import { BigDecimal } from '../aggregation/big-decimal';
+import { HookRegistryService } from '../hooks/hook-registry.service';
+import { ADDRESS_ZERO, DYNAMIC_FEE_FLAG, decodeHookPermissions } from '../hooks/hook-permissions';
 import { TickMath } from '../liquidityMath/tickMath';
-import { getAmount0, getAmount1 } from 'src/liquidityMath/liquidityAmounts';
+import { getAmount0, getAmount1 } from '../liquidityMath/liquidityAmounts';
+import {
+  computeActiveLiquidityCurve,
+  computeLiquidityDepth,
+  crossTicks,
+  isTickInRange,
+} from '../liquidityMath/liquidityDistribution';
+import { EVENT_SOURCES, EventSourcesByChain } from '../event-source/event-source.interface';
 
 // Uniswap V4 Pool Manager ABI - Initialize, Swap, and ModifyLiquidity event signatures
 const POOL_MANAGER_ABI = [
@@ -19,29 +38,20 @@ const POOL_MANAGER_ABI = [
   'event ModifyLiquidity(bytes32 indexed id, address indexed sender, int24 tickLower, int24 tickUpper, int256 liquidityDelta, bytes32 salt)',
 ];
 
-/**
- * Helper function to calculate 10^decimals
- */
-function exponentToBigDecimal(decimals: number): number {
-  return Math.pow(10, decimals);
-}
-
-/**
- * Safe division helper
- */
-function safeDiv(numerator: number, denominator: number): number {
-  return denominator !== 0 ? numerator / denominator : 0;
-}
+// Event signatures (topic0 hashes)
+const INITIALIZE_SIGNATURE = ethers.id('Initialize(bytes32,address,address,uint24,int24,address,uint160,int24)');
+const SWAP_SIGNATURE = ethers.id('Swap(bytes32,address,int128,int128,uint160,uint128,int24,uint24)');
+const MODIFY_LIQUIDITY_SIGNATURE = ethers.id('ModifyLiquidity(bytes32,address,int24,int24,int256,bytes32)');
 
 /**
- * Convert sqrtPriceX96 to token prices with decimal adjustment
+ * Convert sqrtPriceX96 to token prices with decimal adjustment, at full precision
  * @param sqrtPriceX96 - square root price in X96 format
  * @param token0Decimals - decimals for token0
  * @param token1Decimals - decimals for token1
- * @returns token0Price (price of token0 in terms of token1) and token1Price (price of token1 in terms of token0)
+ * @returns token1Price (token1 per token0) and token0Price (token0 per token1) as decimal strings
  */
 function sqrtPriceX96ToTokenPrices(
-  sqrtPriceX96: string,
+  sqrtPriceX96: string | bigint,
   token0Decimals: number,
   token1Decimals: number,
 ): {
@@ -51,22 +61,13 @@ function sqrtPriceX96ToTokenPrices(
   const Q192 = BigInt(2) ** BigInt(192);
   const sqrtPrice = BigInt(sqrtPriceX96);
 
-  // num = sqrtPriceX96 * sqrtPriceX96
-  const num = sqrtPrice * sqrtPrice;
-
-  // Convert to number for decimal operations
-  const numDecimal = Number(num);
-  const denomDecimal = Number(Q192);
-
-  // price1 = (num / Q192) * (10^token0Decimals) / (10^token1Decimals)
-  // This gives us the price of token1 in terms of token0
-  const price1 = (numDecimal / denomDecimal) *
-                 exponentToBigDecimal(token0Decimals) /
-                 exponentToBigDecimal(token1Decimals);
+  // price1 = sqrtPriceX96^2 / Q192 * 10^token0Decimals / 10^token1Decimals, kept exact
+  // until the division
+  const price1 = BigDecimal.fromRaw(sqrtPrice * sqrtPrice * BigInt(10) ** BigInt(token0Decimals), token1Decimals)
+    .div(BigDecimal.from(Q192));
 
   // price0 = 1 / price1
-  // This gives us the price of token0 in terms of token1
-  const price0 = safeDiv(1, price1);
+  const price0 = BigDecimal.ONE.div(price1);
 
   return {
     token0Price: price0.toString(),
@@ -74,16 +75,18 @@ function sqrtPriceX96ToTokenPrices(
   };
 }
 
+// Upper bound for the tick window of liquidity distribution queries
+const MAX_SURROUNDING_TICKS = 1000;
+
 // ERC20 ABI for decimals
 const ERC20_ABI = ['function decimals() view returns (uint8)'];
 
 @Injectable()
 export class SwapEventsService implements OnModuleInit {
   private readonly logger = new Logger(SwapEventsService.name);
-  private provider: ethers.WebSocketProvider;
-  private contract: ethers.Contract;
-  private isSyncing = false;
-  private tokenDecimalsCache: Map<string, number> = new Map();
+  private readonly poolManagerInterface = new ethers.Interface(POOL_MANAGER_ABI);
+  private readonly chains: Map<number, ChainContext> = new Map();
+  private tokenDecimalsCache: Map<string, number> = new Map(); // chainId:tokenAddress -> decimals
 
   constructor(
     @InjectModel(SwapEvent.name)
@@ -92,76 +95,106 @@ export class SwapEventsService implements OnModuleInit {
     private syncStateModel: Model<SyncStateDocument>,
     @InjectModel(Pool.name)
     private poolModel: Model<PoolDocument>,
+    @InjectModel(PoolCheckpoint.name)
+    private poolCheckpointModel: Model<PoolCheckpointDocument>,
+    @InjectModel(LiquidityEvent.name)
+    private liquidityEventModel: Model<LiquidityEventDocument>,
+    @InjectModel(Tick.name)
+    private tickModel: Model<TickDocument>,
     @InjectModel(Token.name)
     private tokenModel: Model<TokenDocument>,
     private configService: ConfigService,
     private eventEmitter: EventEmitter2,
     @Inject(forwardRef(() => AggregationService))
     private aggregationService: AggregationService,
-  ) {}
-
-  async onModuleInit() {
-    await this.initializeProvider();
-    // Run sync in background to not block other services from initializing
-    this.syncHistoricalEvents().catch(err =>
-      this.logger.error('Error in historical sync', err)
-    );
-    await this.startListening();
+    private hookRegistryService: HookRegistryService,
+    @Inject(EVENT_SOURCES)
+    eventSources: EventSourcesByChain,
+  ) {
+    for (const chain of this.configService.chains) {
+      this.chains.set(chain.chainId, {
+        chain,
+        eventSource: eventSources.get(chain.chainId),
+        isSyncing: false,
+        latestBlockNumber: 0,
+        ingestedThroughBlock: 0,
+        lastVerifiedBlockHash: null,
+        liveQueue: [],
+        isProcessingLiveQueue: false,
+        processedLogKeys: new Map(),
+        pendingSwaps: new Map(),
+      });
+    }
   }
 
-  private async initializeProvider() {
-    try {
-      const rpcUrl = this.configService.ethRpcUrl;
-
-      // Convert HTTP to WebSocket URL if needed
-      const wsUrl = rpcUrl.replace('https://', 'wss://').replace('http://', 'ws://');
-
-      this.provider = new ethers.WebSocketProvider(wsUrl);
-
-      const poolManagerAddress = this.configService.uniswapV4PoolManagerAddress;
-      this.contract = new ethers.Contract(
-        poolManagerAddress,
-        POOL_MANAGER_ABI,
-        this.provider,
+  async onModuleInit() {
+    // Every later migration and query is scoped by chain ID
+    await this.migrateChainIds();
+    await this.aggregationService.migrateChainIds();
+    // Candles must be on UTC periods and Decimal128 before new swaps are aggregated into them
+    // Decimal128 first, so records moved into UTC periods are summed and compared numerically
+    await this.aggregationService.migrateToDecimal128();
+    await this.aggregationService.migrateToUtcPeriods();
+    await this.migrateHookPermissions();
+
+    for (const ctx of this.chains.values()) {
+      // Run sync in background to not block other services from initializing
+      this.syncHistoricalEvents(ctx).catch(err =>
+        this.logger.error(`Error in historical sync of chain ${ctx.chain.chainId}`, err)
       );
-
-      this.logger.log('Ethereum provider initialized');
-    } catch (error) {
-      this.logger.error('Failed to initialize provider', error);
-      throw error;
+      await this.startListening(ctx);
     }
   }
 
-  async syncHistoricalEvents() {
-    this.isSyncing = true;
-    const poolManagerAddress = this.configService.uniswapV4PoolManagerAddress;
+  async syncHistoricalEvents(ctx: ChainContext) {
+    ctx.isSyncing = true;
+    const { chainId, poolManagerAddress } = ctx.chain;
+    this.aggregationService.setChainSyncing(chainId, true);
 
     try {
       // Get or create sync state
-      let syncState = await this.syncStateModel.findOne({ poolManagerAddress });
+      let syncState = await this.syncStateModel.findOne({ chainId, poolManagerAddress });
+
+      const headBlock = await ctx.eventSource.getBlockNumber();
+      const startingBlock = ctx.chain.startingBlock;
+      ctx.latestBlockNumber = headBlock;
 
-      const currentBlock = await this.provider.getBlockNumber();
-      const startingBlock = this.configService.startingBlock;
+      // Only blocks that are already deep enough are synced; newer ones stay pending
+      let currentBlock = headBlock - this.configService.confirmationDepth;
 
       if (!syncState) {
         // First time sync - create new sync state
         syncState = new this.syncStateModel({
+          chainId,
           poolManagerAddress,
           lastSyncedBlock: startingBlock - 1,
           currentBlock,
           isInitialSyncComplete: false,
+          whitelistTokens: [...ctx.chain.whitelistTokens].sort(),
         });
         await syncState.save();
-        this.logger.log(`Starting initial sync from block ${startingBlock}`);
-      } else if (syncState.isInitialSyncComplete) {
-        // Resume from last synced block
-        this.logger.log(
-          `Resuming sync from block ${syncState.lastSyncedBlock + 1} to ${currentBlock}`,
-        );
+        this.logger.log(`Starting initial sync of chain ${chainId} from block ${startingBlock}`);
       } else {
-        this.logger.log(
-          `Continuing incomplete sync from block ${syncState.lastSyncedBlock + 1}`,
-        );
+        // Blocks indexed before a restart may have been orphaned while we were down
+        const forkBlock = await this.findForkBlock(ctx);
+        if (forkBlock !== null) {
+          await this.rollbackToBlock(ctx, forkBlock);
+          syncState = await this.syncStateModel.findOne({ chainId, poolManagerAddress });
+        }
+
+        // Pools indexed under a different whitelist need their tokens' whitelist pools recomputed
+        await this.reconcileWhitelist(chainId);
+
+        if (syncState.isInitialSyncComplete) {
+          // Resume from last synced block
+          this.logger.log(
+            `Resuming sync of chain ${chainId} from block ${syncState.lastSyncedBlock + 1} to ${currentBlock}`,
+          );
+        } else {
+          this.logger.log(
+            `Continuing incomplete sync of chain ${chainId} from block ${syncState.lastSyncedBlock + 1}`,
+          );
+        }
       }
 
       // Sync in batches
@@ -172,16 +205,16 @@ export class SwapEventsService implements OnModuleInit {
         const toBlock = Math.min(fromBlock + batchSize - 1, currentBlock);
 
         this.logger.log(
-          `Syncing blocks ${fromBlock} to ${toBlock} (${Math.round(
+          `Syncing chain ${chainId} blocks ${fromBlock} to ${toBlock} (${Math.round(
             ((toBlock - startingBlock) / (currentBlock - startingBlock)) * 100,
           )}% complete)`,
         );
 
-        await this.syncBatch(fromBlock, toBlock);
+        await this.syncBatch(ctx, fromBlock, toBlock);
 
         // Update sync state
         await this.syncStateModel.updateOne(
-          { poolManagerAddress },
+          { chainId, poolManagerAddress },
           {
             lastSyncedBlock: toBlock,
             currentBlock,
@@ -191,31 +224,44 @@ export class SwapEventsService implements OnModuleInit {
         );
 
         fromBlock = toBlock + 1;
+
+        // Blocks mined during the backfill only reach the live buffer, so keep
+        // going until the sync has caught up with the head
+        if (fromBlock > currentBlock) {
+          const latestHead = await ctx.eventSource.getBlockNumber();
+          ctx.latestBlockNumber = Math.max(ctx.latestBlockNumber, latestHead);
+          currentBlock = Math.max(currentBlock, latestHead - this.configService.confirmationDepth);
+        }
       }
 
-      this.logger.log('Historical sync complete! Ready to listen for new events.');
-      this.isSyncing = false;
+      ctx.ingestedThroughBlock = fromBlock - 1;
+      this.logger.log(
+        `Historical sync of chain ${chainId} complete through block ${ctx.ingestedThroughBlock}! Draining ${ctx.liveQueue.length} buffered live events.`,
+      );
+      ctx.isSyncing = false;
+      this.aggregationService.setChainSyncing(chainId, false);
+
+      // Live events received during the sync were buffered; process the ones the sync did not cover
+      this.processLiveQueue(ctx).catch((error) => {
+        this.logger.error('Error in queue processing', error);
+      });
     } catch (error) {
-      this.logger.error('Error during historical sync', error);
-      this.isSyncing = false;
+      this.logger.error(`Error during historical sync of chain ${chainId}`, error);
+      ctx.isSyncing = false;
+      this.aggregationService.setChainSyncing(chainId, false);
       throw error;
     }
   }
 
-  private async syncBatch(fromBlock: number, toBlock: number) {
+  private async syncBatch(ctx: ChainContext, fromBlock: number, toBlock: number) {
     try {
-      const poolManagerAddress = this.configService.uniswapV4PoolManagerAddress;
-
-      // Get event signatures for all three event types
-      const initializeSignature = ethers.id('Initialize(bytes32,address,address,uint24,int24,address,uint160,int24)');
-      const swapSignature = ethers.id('Swap(bytes32,address,int128,int128,uint160,uint128,int24,uint24)');
-      const modifyLiquiditySignature = ethers.id('ModifyLiquidity(bytes32,address,int24,int24,int256,bytes32)');
+      const { chainId, poolManagerAddress } = ctx.chain;
 
       // Fetch all logs with OR filter on all event signatures
-      const logs = await this.provider.getLogs({
+      const logs = await ctx.eventSource.getLogs({
         address: poolManagerAddress,
         topics: [
-          [initializeSignature, swapSignature, modifyLiquiditySignature], // OR filter for all events
+          [INITIALIZE_SIGNATURE, SWAP_SIGNATURE, MODIFY_LIQUIDITY_SIGNATURE], // OR filter for all events
         ],
         fromBlock,
         toBlock,
@@ -226,7 +272,7 @@ export class SwapEventsService implements OnModuleInit {
       for (const log of logs) {
         try {
           // Parse the log
-          const parsedLog = this.contract.interface.parseLog({
+          const parsedLog = this.poolManagerInterface.parseLog({
             topics: log.topics as string[],
             data: log.data,
           });
@@ -236,30 +282,35 @@ export class SwapEventsService implements OnModuleInit {
             continue;
           }
 
+          // Already applied through the live subscription
+          if (ctx.processedLogKeys.has(`${log.transactionHash.toLowerCase()}:${log.index}`)) {
+            continue;
+          }
+
           const signature = log.topics[0];
 
-          if (signature === initializeSignature) {
+          if (signature === INITIALIZE_SIGNATURE) {
             // Create EventLog-like object for handleInitializeEvent
             const eventLog = new ethers.EventLog(
               log,
-              this.contract.interface,
+              this.poolManagerInterface,
               parsedLog.fragment,
             );
 
             // Call the shared handleInitializeEvent function
-            await this.handleInitializeEvent(eventLog);
-          } else if (signature === swapSignature) {
+            await this.handleInitializeEvent(ctx, eventLog);
+          } else if (signature === SWAP_SIGNATURE) {
             const [poolId, sender, amount0, amount1, sqrtPriceX96, liquidity, tick, fee] = parsedLog.args;
 
             // Create EventLog-like object for handleSwapEvent
             const eventLog = new ethers.EventLog(
               log,
-              this.contract.interface,
+              this.poolManagerInterface,
               parsedLog.fragment,
             );
 
             // Call the shared handleSwapEvent function
-            await this.handleSwapEvent({
+            await this.handleSwapEvent(ctx, {
               poolId,
               sender,
               amount0,
@@ -270,18 +321,18 @@ export class SwapEventsService implements OnModuleInit {
               fee: Number(fee),
               event: eventLog,
             });
-          } else if (signature === modifyLiquiditySignature) {
+          } else if (signature === MODIFY_LIQUIDITY_SIGNATURE) {
             const [poolId, sender, tickLower, tickUpper, liquidityDelta, salt] = parsedLog.args;
 
             // Create EventLog-like object for handleModifyLiquidityEvent
             const eventLog = new ethers.EventLog(
               log,
-              this.contract.interface,
+              this.poolManagerInterface,
               parsedLog.fragment,
             );
 
             // Call the shared handleModifyLiquidityEvent function
-            await this.handleModifyLiquidityEvent({
+            await this.handleModifyLiquidityEvent(ctx, {
               poolId,
               sender,
               tickLower: Number(tickLower),
@@ -301,112 +352,230 @@ export class SwapEventsService implements OnModuleInit {
           }
         }
       }
+
+      // Remember the hashes of indexed blocks so later heads can be checked for reorgs
+      const indexedBlocks: IndexedBlock[] = logs.map((log) => ({
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+      }));
+      if (toBlock > ctx.latestBlockNumber - this.configService.reorgDepth) {
+        const block = await ctx.eventSource.getBlock(toBlock);
+        if (block) {
+          indexedBlocks.push({ blockNumber: toBlock, blockHash: block.hash });
+        }
+      }
+      await this.recordIndexedBlocks(ctx, indexedBlocks);
     } catch (error) {
       this.logger.error(`Error syncing batch ${fromBlock}-${toBlock}`, error);
       throw error;
     }
   }
 
-  async startListening() {
-    this.logger.log('Starting to listen for real-time events (Initialize, Swap, ModifyLiquidity)...');
+  async startListening(ctx: ChainContext) {
+    const { chainId, poolManagerAddress } = ctx.chain;
+    this.logger.log(`Starting to listen for real-time events on chain ${chainId} (Initialize, Swap, ModifyLiquidity)...`);
+
+    // Subscribe to logs with OR filter on multiple event signatures
+    const filter = {
+      address: poolManagerAddress,
+      topics: [
+        [INITIALIZE_SIGNATURE, SWAP_SIGNATURE, MODIFY_LIQUIDITY_SIGNATURE], // OR filter
+      ],
+    };
+
+    ctx.eventSource.onLog(filter, (log: ethers.Log) => {
+      this.enqueueLiveItem(ctx, { kind: 'log', log });
+    });
 
-    const poolManagerAddress = this.configService.uniswapV4PoolManagerAddress;
+    // Check every new head against the stored chain to catch reorgs
+    ctx.eventSource.onBlock((blockNumber: number) => {
+      this.enqueueLiveItem(ctx, { kind: 'head', blockNumber });
+    });
 
-    // Get event signatures (topic0 hashes)
-    const initializeSignature = ethers.id('Initialize(bytes32,address,address,uint24,int24,address,uint160,int24)');
-    const swapSignature = ethers.id('Swap(bytes32,address,int128,int128,uint160,uint128,int24,uint24)');
-    const modifyLiquiditySignature = ethers.id('ModifyLiquidity(bytes32,address,int24,int24,int256,bytes32)');
+    ctx.eventSource.onError((error) => {
+      this.logger.error(`Event source error on chain ${chainId}`, error);
+    });
 
-    // Queue to maintain sequential processing and avoid race conditions
-    const eventQueue: Array<{ log: ethers.Log; signature: string }> = [];
-    let isProcessing = false;
+    // Blocks mined while the connection was down are backfilled through the batch path
+    ctx.eventSource.onReconnect(() => {
+      this.enqueueLiveItem(ctx, { kind: 'reconnect' });
+    });
 
-    const processQueue = async () => {
-      if (isProcessing || eventQueue.length === 0) {
-        return;
-      }
+    this.logger.log('Event subscription active with sequential processing queue');
+  }
 
-      isProcessing = true;
+  /**
+   * Add a live item to the queue and trigger processing (non-blocking)
+   */
+  private enqueueLiveItem(ctx: ChainContext, item: QueueItem) {
+    ctx.liveQueue.push(item);
 
-      while (eventQueue.length > 0) {
-        const { log, signature } = eventQueue.shift()!;
+    this.processLiveQueue(ctx).catch((error) => {
+      this.logger.error('Error in queue processing', error);
+    });
+  }
 
-        try {
-          // Skip if we're still syncing to avoid duplicates
-          if (this.isSyncing) {
-            continue;
-          }
+  /**
+   * Process live items sequentially to avoid race conditions. While the historical
+   * sync runs, items stay buffered; the sync drains them once it has caught up.
+   */
+  private async processLiveQueue(ctx: ChainContext) {
+    if (ctx.isProcessingLiveQueue || ctx.isSyncing || ctx.liveQueue.length === 0) {
+      return;
+    }
 
-          // Parse the log using the contract interface
-          const parsedLog = this.contract.interface.parseLog({
-            topics: log.topics as string[],
-            data: log.data,
-          });
+    ctx.isProcessingLiveQueue = true;
 
-          if (!parsedLog) {
-            this.logger.warn('Failed to parse log');
-            continue;
-          }
+    while (ctx.liveQueue.length > 0 && !ctx.isSyncing) {
+      const item = ctx.liveQueue.shift()!;
 
-          // Create EventLog with proper parameters (log, interface, fragment)
-          const eventLog = new ethers.EventLog(
-            log,
-            this.contract.interface,
-            parsedLog.fragment,
-          );
+      try {
+        await this.processLiveItem(ctx, item);
+      } catch (error) {
+        const signature = item.kind === 'log' ? item.log.topics[0] : item.kind;
+        this.logger.error(`Error processing event from queue: ${signature}`, error);
+      }
+    }
 
-          // Process based on event type
-          if (signature === initializeSignature) {
-            await this.handleInitializeEvent(eventLog);
-          } else if (signature === swapSignature) {
-            await this.handleSwapEventFromLog(eventLog);
-          } else if (signature === modifyLiquiditySignature) {
-            await this.handleModifyLiquidityEventFromLog(eventLog);
-          }
-        } catch (error) {
-          this.logger.error(`Error processing event from queue: ${signature}`, error);
-        }
+    ctx.isProcessingLiveQueue = false;
+  }
+
+  private async processLiveItem(ctx: ChainContext, item: QueueItem) {
+    if (item.kind === 'head') {
+      await this.handleNewHead(ctx, item.blockNumber);
+      if (this.configService.confirmationDepth > 0) {
+        await this.promoteConfirmedBlocks(ctx, item.blockNumber);
+      } else {
+        await this.markLiveBlocksSynced(ctx, item.blockNumber);
       }
+      this.pruneProcessedLogKeys(ctx);
+      return;
+    }
 
-      isProcessing = false;
-    };
+    if (item.kind === 'reconnect') {
+      await this.catchUpMissedBlocks(ctx);
+      return;
+    }
 
-    // Subscribe to logs with OR filter on multiple event signatures
-    const filter = {
-      address: poolManagerAddress,
-      topics: [
-        [initializeSignature, swapSignature, modifyLiquiditySignature], // OR filter
-      ],
-    };
+    const { log } = item;
+    const signature = log.topics[0];
+    const logKey = `${log.transactionHash.toLowerCase()}:${log.index}`;
+    const isPending = this.configService.confirmationDepth > 0;
+
+    // Already covered by the batch sync path, or delivered twice
+    if (
+      log.blockNumber <= ctx.ingestedThroughBlock ||
+      ctx.processedLogKeys.has(logKey) ||
+      ctx.pendingSwaps.has(logKey)
+    ) {
+      return;
+    }
 
-    this.provider.on(filter, (log: ethers.Log) => {
-      // Add to queue and trigger processing
-      const signature = log.topics[0];
-      eventQueue.push({ log, signature });
+    // A log from a block we have not checked yet may belong to a new fork
+    if (!isPending && log.blockHash !== ctx.lastVerifiedBlockHash) {
+      await this.handleNewHead(ctx, log.blockNumber);
+      ctx.lastVerifiedBlockHash = log.blockHash;
 
-      // Trigger queue processing (non-blocking)
-      processQueue().catch((error) => {
-        this.logger.error('Error in queue processing', error);
-      });
-    });
+      // The reorg re-ingest may have covered this log
+      if (log.blockNumber <= ctx.ingestedThroughBlock) {
+        return;
+      }
+    }
 
-    this.provider.on('error', (error) => {
-      this.logger.error('WebSocket error', error);
+    // Parse the log using the contract interface
+    const parsedLog = this.poolManagerInterface.parseLog({
+      topics: log.topics as string[],
+      data: log.data,
     });
 
-    this.logger.log('Event subscription active with sequential processing queue');
+    if (!parsedLog) {
+      this.logger.warn('Failed to parse log');
+      return;
+    }
+
+    // Create EventLog with proper parameters (log, interface, fragment)
+    const eventLog = new ethers.EventLog(
+      log,
+      this.poolManagerInterface,
+      parsedLog.fragment,
+    );
+
+    // Unconfirmed logs are only announced; they are ingested once confirmed
+    if (isPending) {
+      if (signature === SWAP_SIGNATURE) {
+        await this.trackPendingSwap(ctx, eventLog);
+      }
+      return;
+    }
+
+    ctx.processedLogKeys.set(logKey, log.blockNumber);
+
+    // Process based on event type
+    if (signature === INITIALIZE_SIGNATURE) {
+      await this.handleInitializeEvent(ctx, eventLog);
+    } else if (signature === SWAP_SIGNATURE) {
+      await this.handleSwapEventFromLog(ctx, eventLog);
+    } else if (signature === MODIFY_LIQUIDITY_SIGNATURE) {
+      await this.handleModifyLiquidityEventFromLog(ctx, eventLog);
+    }
+
+    await this.recordIndexedBlocks(ctx, [
+      { blockNumber: log.blockNumber, blockHash: log.blockHash },
+    ]);
+  }
+
+  /**
+   * Record the live blocks before a new head as synced, so a reconnect or restart
+   * resumes after them. The logs of a block are delivered before the next head,
+   * so every earlier block has been fully processed by now.
+   */
+  private async markLiveBlocksSynced(ctx: ChainContext, headBlock: number) {
+    const { chainId, poolManagerAddress } = ctx.chain;
+    await this.syncStateModel.updateOne(
+      { chainId, poolManagerAddress },
+      {
+        $max: { lastSyncedBlock: headBlock - 1 },
+        $set: { currentBlock: headBlock, lastSyncedAt: new Date() },
+      },
+    );
+  }
+
+  /**
+   * Backfill the blocks mined while the event source was disconnected, starting after
+   * the last synced block
+   */
+  private async catchUpMissedBlocks(ctx: ChainContext) {
+    const headBlock = await ctx.eventSource.getBlockNumber();
+    this.logger.log(`Catching up to block ${headBlock} after reconnect`);
+
+    // The chain may have reorganized while we were disconnected
+    await this.handleNewHead(ctx, headBlock);
+    await this.promoteConfirmedBlocks(ctx, headBlock);
   }
 
-  private async handleInitializeEvent(event: ethers.EventLog) {
+  /**
+   * Forget processed live logs once their blocks are past the reorg window
+   */
+  private pruneProcessedLogKeys(ctx: ChainContext) {
+    const minBlockNumber = ctx.latestBlockNumber - this.configService.reorgDepth;
+
+    for (const [logKey, blockNumber] of ctx.processedLogKeys) {
+      if (blockNumber <= minBlockNumber) {
+        ctx.processedLogKeys.delete(logKey);
+      }
+    }
+  }
+
+  private async handleInitializeEvent(ctx: ChainContext, event: ethers.EventLog) {
     const [id, currency0, currency1, fee, tickSpacing, hooks, sqrtPriceX96, tick] = event.args;
 
     try {
-      const block = await this.provider.getBlock(event.blockNumber);
+      const blockTimestamp = await this.getBlockTimestamp(ctx, event.blockNumber);
 
       // Fetch token decimals
       const [token0Decimals, token1Decimals] = await Promise.all([
-        this.fetchTokenDecimals(currency0),
-        this.fetchTokenDecimals(currency1),
+        this.fetchTokenDecimals(ctx, currency0),
+        this.fetchTokenDecimals(ctx, currency1),
       ]);
 
       // Calculate token prices from sqrtPriceX96 with decimal adjustment
@@ -416,20 +585,19 @@ export class SwapEventsService implements OnModuleInit {
         token1Decimals,
       );
 
-      console.log('token0Price', token0Price);
-      console.log('token1Price', token1Price);
-      
       await this.poolModel.create({
+        chainId: ctx.chain.chainId,
         poolId: id,
         currency0,
         currency1,
         fee: Number(fee),
         tickSpacing: Number(tickSpacing),
         hooks,
+        hookPermissions: decodeHookPermissions(hooks),
         sqrtPriceX96: sqrtPriceX96.toString(),
         tick: Number(tick),
         blockNumber: event.blockNumber,
-        blockTimestamp: new Date(block.timestamp * 1000),
+        blockTimestamp,
         transactionHash: event.transactionHash,
         token0Price,
         token1Price,
@@ -438,7 +606,7 @@ export class SwapEventsService implements OnModuleInit {
       this.logger.log(`New pool initialized: ${id} (${currency0}/${currency1})`);
 
       // Update token whitelists if either token is in the whitelist
-      await this.updateTokenWhitelists(id, currency0, currency1);
+      await this.updateTokenWhitelists(ctx, id, currency0, currency1);
     } catch (error) {
       if (error.code === 11000) {
         this.logger.warn(`Duplicate pool initialization: ${id}`);
@@ -448,10 +616,10 @@ export class SwapEventsService implements OnModuleInit {
     }
   }
 
-  private async handleSwapEventFromLog(event: ethers.EventLog) {
+  private async handleSwapEventFromLog(ctx: ChainContext, event: ethers.EventLog) {
     const [poolId, sender, amount0, amount1, sqrtPriceX96, liquidity, tick, fee] = event.args;
 
-    await this.handleSwapEvent({
+    await this.handleSwapEvent(ctx, {
       poolId,
       sender,
       amount0,
@@ -464,10 +632,10 @@ export class SwapEventsService implements OnModuleInit {
     });
   }
 
-  private async handleModifyLiquidityEventFromLog(event: ethers.EventLog) {
+  private async handleModifyLiquidityEventFromLog(ctx: ChainContext, event: ethers.EventLog) {
     const [poolId, sender, tickLower, tickUpper, liquidityDelta, salt] = event.args;
 
-    await this.handleModifyLiquidityEvent({
+    await this.handleModifyLiquidityEvent(ctx, {
       poolId,
       sender,
       tickLower: Number(tickLower),
@@ -478,7 +646,7 @@ export class SwapEventsService implements OnModuleInit {
     });
   }
 
-  private async handleSwapEvent(data: {
+  private async handleSwapEvent(ctx: ChainContext, data: {
     poolId: string;
     sender: string;
     amount0: bigint;
@@ -491,10 +659,21 @@ export class SwapEventsService implements OnModuleInit {
   }) {
     const { poolId, sender, amount0, amount1, sqrtPriceX96, liquidity, tick, fee, event } = data;
 
-    const block = await this.provider.getBlock(event.blockNumber);
+    // Skip swaps that were already applied (e.g. re-delivered after a reorg re-ingest)
+    const existing = await this.swapEventModel.exists({
+      chainId: ctx.chain.chainId,
+      transactionHash: event.transactionHash.toLowerCase(),
+      logIndex: event.index,
+    });
+    if (existing) {
+      this.logger.warn(`Duplicate swap event: ${event.transactionHash}`);
+      return;
+    }
+
+    const blockTimestamp = await this.getBlockTimestamp(ctx, event.blockNumber);
 
     // Get token addresses from pool data
-    const pool = await this.poolModel.findOne({ poolId });
+    const pool = await this.poolModel.findOne({ chainId: ctx.chain.chainId, poolId });
     if (!pool) {
       this.logger.warn(`Pool not found for poolId: ${poolId}. Skipping swap event.`);
       return;
@@ -505,8 +684,8 @@ export class SwapEventsService implements OnModuleInit {
 
     // Fetch token decimals
     const [token0Decimals, token1Decimals] = await Promise.all([
-      this.fetchTokenDecimals(token0Address),
-      this.fetchTokenDecimals(token1Address),
+      this.fetchTokenDecimals(ctx, token0Address),
+      this.fetchTokenDecimals(ctx, token1Address),
     ]);
 
     // Update pool prices and liquidity after swap with decimal adjustment
@@ -516,14 +695,18 @@ export class SwapEventsService implements OnModuleInit {
       token1Decimals,
     );
 
-    // Update TVL by adding swap amounts (amount0 and amount1 represent deltas)
+    // Swap amounts are the swapper's balance deltas (negative when paid into the pool),
+    // so the pool's balances move by their negation
     const currentTVL0 = BigInt(pool.totalValueLockedToken0 || '0');
     const currentTVL1 = BigInt(pool.totalValueLockedToken1 || '0');
-    const newTVL0 = currentTVL0 + amount0;
-    const newTVL1 = currentTVL1 + amount1;
+    const newTVL0 = currentTVL0 - amount0;
+    const newTVL1 = currentTVL1 - amount1;
+
+    await this.reconcileSwapLiquidity(ctx, pool, Number(tick), liquidity, event);
 
+    await this.checkpointPool(ctx, pool, event.blockNumber);
     await this.poolModel.updateOne(
-      { poolId },
+      { chainId: ctx.chain.chainId, poolId },
       {
         $set: {
           sqrtPriceX96: sqrtPriceX96.toString(),
@@ -538,12 +721,14 @@ export class SwapEventsService implements OnModuleInit {
     );
 
     const swapEvent = {
+      chainId: ctx.chain.chainId,
       poolAddress: poolId,
       token0Address,
       token1Address,
       transactionHash: event.transactionHash,
       blockNumber: event.blockNumber,
-      blockTimestamp: new Date(block.timestamp * 1000),
+      blockHash: event.blockHash,
+      blockTimestamp,
       sender,
       recipient: sender,
       amount0: amount0.toString(),
@@ -562,22 +747,11 @@ export class SwapEventsService implements OnModuleInit {
       const savedEvent = await this.swapEventModel.create(swapEvent);
       this.logger.log(`New swap event: ${event.transactionHash} - Block ${event.blockNumber}`);
 
-      // Emit event for WebSocket gateway
-      this.eventEmitter.emit('swap.created', savedEvent);
-
-      // Process aggregation directly
+      // Process aggregation directly (also fills in the swap's USD values)
       await this.aggregationService.processSwapEvent(savedEvent);
 
-      // Update sync state with latest block
-      const poolManagerAddress = this.configService.uniswapV4PoolManagerAddress;
-      await this.syncStateModel.updateOne(
-        { poolManagerAddress },
-        {
-          lastSyncedBlock: event.blockNumber,
-          currentBlock: event.blockNumber,
-          lastSyncedAt: new Date(),
-        },
-      );
+      // Emit event for WebSocket gateway
+      this.eventEmitter.emit('swap.created', savedEvent);
     } catch (error) {
       if (error.code === 11000) {
         this.logger.warn(`Duplicate swap event: ${event.transactionHash}`);
@@ -587,7 +761,7 @@ export class SwapEventsService implements OnModuleInit {
     }
   }
 
-  private async handleModifyLiquidityEvent(data: {
+  private async handleModifyLiquidityEvent(ctx: ChainContext, data: {
     poolId: string;
     sender: string;
     tickLower: number;
@@ -596,19 +770,36 @@ export class SwapEventsService implements OnModuleInit {
     salt: string;
     event: ethers.EventLog;
   }) {
-    const { poolId, tickLower, tickUpper, liquidityDelta, event } = data;
+    const { poolId, sender, tickLower, tickUpper, liquidityDelta, salt, event } = data;
+    const { chainId } = ctx.chain;
 
     try {
+      // Skip events that were already applied (e.g. re-delivered after a reorg re-ingest)
+      const existing = await this.liquidityEventModel.exists({
+        chainId,
+        transactionHash: event.transactionHash.toLowerCase(),
+        logIndex: event.index,
+      });
+      if (existing) {
+        this.logger.warn(`Duplicate ModifyLiquidity event: ${event.transactionHash}`);
+        return;
+      }
+
       // Get current pool state
-      const pool = await this.poolModel.findOne({ poolId });
+      const pool = await this.poolModel.findOne({ chainId, poolId });
       if (!pool) {
         this.logger.warn(`Pool not found for poolId: ${poolId}. Skipping ModifyLiquidity event.`);
         return;
       }
 
-      // Calculate new liquidity by adding liquidityDelta to current liquidity
+      // Before any state changes, so an event whose block is unavailable leaves nothing half-applied
+      const blockTimestamp = await this.getBlockTimestamp(ctx, event.blockNumber);
+
+      // Only positions whose range contains the current tick change the active liquidity
       const currentLiquidity = BigInt(pool.liquidity || '0');
-      const newLiquidity = currentLiquidity + liquidityDelta;
+      const newLiquidity = isTickInRange(pool.tick, tickLower, tickUpper)
+        ? currentLiquidity + liquidityDelta
+        : currentLiquidity;
 
       // Calculate token amounts from liquidity delta using tick math
       const sqrtPriceX96 = BigInt(pool.sqrtPriceX96);
@@ -622,8 +813,9 @@ export class SwapEventsService implements OnModuleInit {
       const newTVL1 = currentTVL1 + amount1;
 
       // Update pool liquidity and TVL
+      await this.checkpointPool(ctx, pool, event.blockNumber);
       await this.poolModel.updateOne(
-        { poolId },
+        { chainId: ctx.chain.chainId, poolId },
         {
           $set: {
             liquidity: newLiquidity.toString(),
@@ -636,20 +828,487 @@ export class SwapEventsService implements OnModuleInit {
       this.logger.log(
         `Updated pool ${poolId} - Liquidity: ${newLiquidity.toString()}, TVL0: ${newTVL0.toString()}, TVL1: ${newTVL1.toString()} - Block ${event.blockNumber}`,
       );
+
+      // Position boundaries are always multiples of the pool's tick spacing
+      if (tickLower % pool.tickSpacing !== 0 || tickUpper % pool.tickSpacing !== 0) {
+        this.logger.warn(
+          `Ticks ${tickLower}/${tickUpper} do not match tick spacing ${pool.tickSpacing} of pool ${poolId}. Skipping tick update.`,
+        );
+      } else {
+        await this.updateTicks(chainId, poolId, tickLower, tickUpper, liquidityDelta);
+      }
+
+      const amountUSD = await this.aggregationService.getAmountUSD(
+        chainId,
+        pool.currency0,
+        amount0.toString(),
+        pool.currency1,
+        amount1.toString(),
+      );
+
+      const savedEvent = await this.liquidityEventModel.create({
+        chainId,
+        poolAddress: poolId,
+        token0Address: pool.currency0,
+        token1Address: pool.currency1,
+        type: liquidityDelta < 0n ? LiquidityEventType.BURN : LiquidityEventType.MINT,
+        sender,
+        tickLower,
+        tickUpper,
+        liquidityDelta: liquidityDelta.toString(),
+        salt,
+        amount0: amount0.toString(),
+        amount1: amount1.toString(),
+        amountUSD: amountUSD.toString(),
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        blockHash: event.blockHash,
+        blockTimestamp,
+        logIndex: event.index,
+      });
+
+      // Token TVL moves by the event's amounts, like the pool's balances did
+      await this.aggregationService.processLiquidityEvent(savedEvent);
+
+      // Emit event for WebSocket gateway
+      this.eventEmitter.emit('liquidity.created', savedEvent);
     } catch (error) {
       this.logger.error('Error handling ModifyLiquidity event', error);
       throw error;
     }
   }
 
+  /**
+   * Check the pool's active liquidity, carried across the ticks crossed by a swap,
+   * against the liquidity reported by the Swap event. The event value is authoritative
+   * and overwrites the pool afterwards; divergences are logged and counted on the sync state.
+   */
+  private async reconcileSwapLiquidity(
+    ctx: ChainContext,
+    pool: PoolDocument,
+    tick: number,
+    liquidity: bigint,
+    event: ethers.EventLog,
+  ) {
+    const { chainId, poolManagerAddress } = ctx.chain;
+    const crossedTicks = tick === pool.tick
+      ? []
+      : await this.tickModel
+          .find({
+            chainId,
+            poolId: pool.poolId,
+            tickIdx: { $gt: Math.min(pool.tick, tick), $lte: Math.max(pool.tick, tick) },
+          })
+          .exec();
+
+    const expectedLiquidity = crossTicks(
+      BigInt(pool.liquidity || '0'),
+      crossedTicks.map((crossed) => ({ tickIdx: crossed.tickIdx, liquidityNet: BigInt(crossed.liquidityNet) })),
+      pool.tick,
+      tick,
+    );
+    if (expectedLiquidity === liquidity) {
+      return;
+    }
+
+    this.logger.warn(
+      `Liquidity divergence in pool ${pool.poolId}: expected ${expectedLiquidity.toString()}, swap reported ${liquidity.toString()} - Block ${event.blockNumber}`,
+    );
+    await this.syncStateModel.updateOne(
+      { chainId, poolManagerAddress },
+      { $inc: { liquidityDivergences: 1 } },
+    );
+  }
+
+  /**
+   * Apply a position's liquidity change to its boundary ticks: both gain gross
+   * liquidity, the lower tick adds it to net liquidity and the upper tick removes it
+   */
+  private async updateTicks(
+    chainId: number,
+    poolId: string,
+    tickLower: number,
+    tickUpper: number,
+    liquidityDelta: bigint,
+  ) {
+    await this.applyTickDelta(chainId, poolId, tickLower, liquidityDelta, liquidityDelta);
+    await this.applyTickDelta(chainId, poolId, tickUpper, liquidityDelta, -liquidityDelta);
+  }
+
+  private async applyTickDelta(
+    chainId: number,
+    poolId: string,
+    tickIdx: number,
+    grossDelta: bigint,
+    netDelta: bigint,
+  ) {
+    const filter = { chainId, poolId: poolId.toLowerCase(), tickIdx };
+    const tick = await this.tickModel.findOne(filter);
+    const liquidityGross = BigInt(tick?.liquidityGross || '0') + grossDelta;
+    const liquidityNet = BigInt(tick?.liquidityNet || '0') + netDelta;
+
+    // Uninitialized ticks are not kept
+    if (liquidityGross <= 0n) {
+      await this.tickModel.deleteOne(filter);
+      return;
+    }
+
+    await this.tickModel.updateOne(
+      filter,
+      { $set: { liquidityGross: liquidityGross.toString(), liquidityNet: liquidityNet.toString() } },
+      { upsert: true },
+    );
+  }
+
+  /**
+   * Check the stored chain against the node when a new head (or a log from a new
+   * block) arrives. On a reorg, roll back the orphaned blocks and re-ingest the
+   * canonical ones up to the new head.
+   */
+  private async handleNewHead(ctx: ChainContext, blockNumber: number) {
+    ctx.latestBlockNumber = Math.max(ctx.latestBlockNumber, blockNumber);
+
+    const forkBlock = await this.findForkBlock(ctx);
+    if (forkBlock === null) {
+      return;
+    }
+
+    await this.rollbackToBlock(ctx, forkBlock);
+
+    // In confirmation-depth mode only confirmed blocks are re-ingested
+    const confirmedBlock = blockNumber - this.configService.confirmationDepth;
+    if (confirmedBlock <= forkBlock) {
+      return;
+    }
+
+    await this.syncBatch(ctx, forkBlock + 1, confirmedBlock);
+    ctx.ingestedThroughBlock = confirmedBlock;
+
+    const { chainId, poolManagerAddress } = ctx.chain;
+    await this.syncStateModel.updateOne(
+      { chainId, poolManagerAddress },
+      {
+        lastSyncedBlock: confirmedBlock,
+        currentBlock: blockNumber,
+        lastSyncedAt: new Date(),
+      },
+    );
+
+    this.logger.log(`Re-ingested blocks ${forkBlock + 1} to ${confirmedBlock} after reorg`);
+  }
+
+  /**
+   * Announce a swap from an unconfirmed block without storing or aggregating it
+   */
+  private async trackPendingSwap(ctx: ChainContext, event: ethers.EventLog) {
+    const [poolId, sender, amount0, amount1, sqrtPriceX96, liquidity, tick, fee] = event.args;
+
+    // The pool may itself still be pending, in which case token addresses are unknown
+    const pool = await this.poolModel.findOne({ chainId: ctx.chain.chainId, poolId });
+    const blockTimestamp = await this.getBlockTimestamp(ctx, event.blockNumber);
+
+    const pendingSwap: PendingSwap = {
+      chainId: ctx.chain.chainId,
+      poolAddress: poolId.toLowerCase(),
+      token0Address: pool?.currency0,
+      token1Address: pool?.currency1,
+      transactionHash: event.transactionHash.toLowerCase(),
+      blockNumber: event.blockNumber,
+      blockHash: event.blockHash,
+      blockTimestamp,
+      sender,
+      amount0: amount0.toString(),
+      amount1: amount1.toString(),
+      sqrtPriceX96: sqrtPriceX96.toString(),
+      liquidity: liquidity.toString(),
+      tick: Number(tick),
+      fee: Number(fee),
+      logIndex: event.index,
+      confirmations: Math.max(ctx.latestBlockNumber - event.blockNumber + 1, 1),
+    };
+
+    ctx.pendingSwaps.set(`${pendingSwap.transactionHash}:${pendingSwap.logIndex}`, pendingSwap);
+    this.eventEmitter.emit('swap.pending', pendingSwap);
+  }
+
+  /**
+   * Ingest every block that became `confirmationDepth` deep with this head through the
+   * batch sync path, then settle pending swaps: the ones that made it into the canonical
+   * chain were emitted as confirmed by the swap handler, the rest were orphaned.
+   * With a confirmation depth of 0 this just syncs up to the head.
+   */
+  private async promoteConfirmedBlocks(ctx: ChainContext, headBlock: number) {
+    const confirmedBlock = headBlock - this.configService.confirmationDepth;
+    const { chainId, poolManagerAddress } = ctx.chain;
+    const syncState = await this.syncStateModel.findOne({ chainId, poolManagerAddress });
+    if (!syncState) {
+      return;
+    }
+
+    const batchSize = this.configService.syncBatchSize;
+    let fromBlock = syncState.lastSyncedBlock + 1;
+
+    while (fromBlock <= confirmedBlock) {
+      const toBlock = Math.min(fromBlock + batchSize - 1, confirmedBlock);
+      await this.syncBatch(ctx, fromBlock, toBlock);
+
+      await this.syncStateModel.updateOne(
+        { chainId, poolManagerAddress },
+        {
+          lastSyncedBlock: toBlock,
+          currentBlock: headBlock,
+          lastSyncedAt: new Date(),
+        },
+      );
+
+      fromBlock = toBlock + 1;
+    }
+
+    ctx.ingestedThroughBlock = Math.max(ctx.ingestedThroughBlock, confirmedBlock);
+
+    for (const [key, pendingSwap] of ctx.pendingSwaps) {
+      if (pendingSwap.blockNumber > confirmedBlock) {
+        pendingSwap.confirmations = headBlock - pendingSwap.blockNumber + 1;
+        continue;
+      }
+
+      ctx.pendingSwaps.delete(key);
+
+      const confirmed = await this.swapEventModel.exists({
+        chainId: ctx.chain.chainId,
+        transactionHash: pendingSwap.transactionHash,
+        logIndex: pendingSwap.logIndex,
+      });
+      if (!confirmed) {
+        this.logger.warn(`Pending swap dropped by reorg: ${pendingSwap.transactionHash}`);
+        this.eventEmitter.emit('swap.dropped', pendingSwap);
+      }
+    }
+  }
+
+  /**
+   * Walk back through the recently indexed blocks and return the newest one that is
+   * still canonical, or null when the stored chain is intact
+   */
+  private async findForkBlock(ctx: ChainContext): Promise<number | null> {
+    const { chainId, poolManagerAddress } = ctx.chain;
+    const syncState = await this.syncStateModel.findOne({ chainId, poolManagerAddress });
+    const recentBlocks = syncState?.recentBlocks || [];
+
+    for (let i = recentBlocks.length - 1; i >= 0; i--) {
+      const { blockNumber, blockHash } = recentBlocks[i];
+      const block = await ctx.eventSource.getBlock(blockNumber);
+
+      if (block && block.hash.toLowerCase() === blockHash.toLowerCase()) {
+        return i === recentBlocks.length - 1 ? null : blockNumber;
+      }
+    }
+
+    if (recentBlocks.length === 0) {
+      return null;
+    }
+
+    this.logger.error(
+      `Reorg is deeper than the ${recentBlocks.length} tracked blocks, rolling back past the oldest one`,
+    );
+    return recentBlocks[0].blockNumber - 1;
+  }
+
+  /**
+   * Remove everything indexed after forkBlock: swaps, liquidity events, pools initialized
+   * in orphaned blocks, pool state changes and the candles built from the orphaned swaps
+   */
+  async rollbackToBlock(ctx: ChainContext, forkBlock: number) {
+    this.logger.warn(`Chain reorganization detected on chain ${ctx.chain.chainId}, rolling back to block ${forkBlock}`);
+
+    const { chainId } = ctx.chain;
+    const orphanedFilter = { chainId, blockNumber: { $gt: forkBlock } };
+
+    // Blocks after the fork have to be ingested again, whichever path delivers them
+    ctx.ingestedThroughBlock = Math.min(ctx.ingestedThroughBlock, forkBlock);
+    for (const [logKey, blockNumber] of ctx.processedLogKeys) {
+      if (blockNumber > forkBlock) {
+        ctx.processedLogKeys.delete(logKey);
+      }
+    }
+
+    const orphanedSwaps = await this.swapEventModel.find(orphanedFilter).exec();
+    await this.swapEventModel.deleteMany(orphanedFilter);
+
+    const orphanedLiquidityEvents = await this.liquidityEventModel
+      .find(orphanedFilter)
+      .sort({ blockNumber: -1, logIndex: -1 })
+      .exec();
+    await this.liquidityEventModel.deleteMany(orphanedFilter);
+
+    // Undo the tick changes of orphaned liquidity events, newest first
+    for (const liquidityEvent of orphanedLiquidityEvents) {
+      await this.updateTicks(
+        chainId,
+        liquidityEvent.poolAddress,
+        liquidityEvent.tickLower,
+        liquidityEvent.tickUpper,
+        -BigInt(liquidityEvent.liquidityDelta),
+      );
+    }
+
+    // Restore pool state from the oldest checkpoint after the fork
+    const checkpoints = await this.poolCheckpointModel
+      .find(orphanedFilter)
+      .sort({ blockNumber: 1 })
+      .exec();
+    const restoredPools = new Set<string>();
+    for (const checkpoint of checkpoints) {
+      if (restoredPools.has(checkpoint.poolId)) {
+        continue;
+      }
+      restoredPools.add(checkpoint.poolId);
+
+      await this.poolModel.updateOne(
+        { chainId, poolId: checkpoint.poolId },
+        {
+          $set: {
+            sqrtPriceX96: checkpoint.sqrtPriceX96,
+            tick: checkpoint.tick,
+            token0Price: checkpoint.token0Price,
+            token1Price: checkpoint.token1Price,
+            liquidity: checkpoint.liquidity,
+            totalValueLockedToken0: checkpoint.totalValueLockedToken0,
+            totalValueLockedToken1: checkpoint.totalValueLockedToken1,
+          },
+        },
+      );
+    }
+    await this.poolCheckpointModel.deleteMany(orphanedFilter);
+
+    // Pools initialized in orphaned blocks never existed on the canonical chain
+    const orphanedPoolIds = await this.poolModel.distinct('poolId', orphanedFilter);
+    if (orphanedPoolIds.length > 0) {
+      await this.poolModel.deleteMany({ chainId, poolId: { $in: orphanedPoolIds } });
+      await this.tokenModel.updateMany(
+        { chainId, whitelistPools: { $in: orphanedPoolIds } },
+        { $pull: { whitelistPools: { $in: orphanedPoolIds } } },
+      );
+    }
+
+    await this.aggregationService.revertSwapEvents(orphanedSwaps);
+
+    // Token TVL follows the restored pool balances
+    const affectedTokens = new Set<string>();
+    for (const orphaned of [...orphanedSwaps, ...orphanedLiquidityEvents]) {
+      affectedTokens.add(orphaned.token0Address);
+      affectedTokens.add(orphaned.token1Address);
+    }
+    await this.aggregationService.refreshTokenTotalValueLocked(chainId, [...affectedTokens]);
+
+    const { poolManagerAddress } = ctx.chain;
+    const syncState = await this.syncStateModel.findOne({ chainId, poolManagerAddress });
+    await this.syncStateModel.updateOne(
+      { chainId, poolManagerAddress },
+      {
+        $set: {
+          lastSyncedBlock: Math.min(syncState?.lastSyncedBlock ?? forkBlock, forkBlock),
+          recentBlocks: (syncState?.recentBlocks || []).filter(
+            (block) => block.blockNumber <= forkBlock,
+          ),
+          lastSyncedAt: new Date(),
+        },
+      },
+    );
+
+    this.logger.warn(
+      `Rolled back ${orphanedSwaps.length} swaps, ${orphanedLiquidityEvents.length} liquidity events, ${restoredPools.size} pool states and ${orphanedPoolIds.length} pools after block ${forkBlock}`,
+    );
+
+    const reorg: ChainReorg = {
+      chainId,
+      forkBlock,
+      orphanedSwaps: orphanedSwaps.map((swap) => ({
+        poolAddress: swap.poolAddress,
+        transactionHash: swap.transactionHash,
+        logIndex: swap.logIndex,
+        blockNumber: swap.blockNumber,
+      })),
+      orphanedLiquidityEvents: orphanedLiquidityEvents.map((liquidityEvent) => ({
+        poolAddress: liquidityEvent.poolAddress,
+        transactionHash: liquidityEvent.transactionHash,
+        logIndex: liquidityEvent.logIndex,
+        blockNumber: liquidityEvent.blockNumber,
+      })),
+    };
+    this.eventEmitter.emit('chain.reorg', reorg);
+  }
+
+  /**
+   * Remember hashes of indexed blocks so new heads can be checked against them.
+   * Only blocks within the reorg window are kept; older pool checkpoints are pruned.
+   */
+  private async recordIndexedBlocks(ctx: ChainContext, blocks: IndexedBlock[]) {
+    const minBlockNumber = ctx.latestBlockNumber - this.configService.reorgDepth;
+    const candidates = blocks.filter((block) => block.blockNumber > minBlockNumber);
+    if (candidates.length === 0) {
+      return;
+    }
+
+    const { chainId, poolManagerAddress } = ctx.chain;
+    const syncState = await this.syncStateModel.findOne({ chainId, poolManagerAddress });
+    if (!syncState) {
+      return;
+    }
+
+    const hashesByNumber = new Map<number, string>();
+    for (const block of [...(syncState.recentBlocks || []), ...candidates]) {
+      hashesByNumber.set(block.blockNumber, block.blockHash.toLowerCase());
+    }
+
+    const recentBlocks = [...hashesByNumber.entries()]
+      .filter(([blockNumber]) => blockNumber > minBlockNumber)
+      .sort(([a], [b]) => a - b)
+      .map(([blockNumber, blockHash]) => ({ blockNumber, blockHash }));
+
+    await this.syncStateModel.updateOne({ chainId, poolManagerAddress }, { $set: { recentBlocks } });
+    await this.poolCheckpointModel.deleteMany({ chainId, blockNumber: { $lte: minBlockNumber } });
+  }
+
+  /**
+   * Save the pool state before the first change in a block, so it can be restored
+   * if the block gets orphaned. Blocks outside the reorg window are not checkpointed.
+   */
+  private async checkpointPool(ctx: ChainContext, pool: PoolDocument, blockNumber: number) {
+    if (blockNumber <= ctx.latestBlockNumber - this.configService.reorgDepth) {
+      return;
+    }
+
+    await this.poolCheckpointModel.updateOne(
+      { chainId: ctx.chain.chainId, poolId: pool.poolId, blockNumber },
+      {
+        $setOnInsert: {
+          sqrtPriceX96: pool.sqrtPriceX96,
+          tick: pool.tick,
+          token0Price: pool.token0Price,
+          token1Price: pool.token1Price,
+          liquidity: pool.liquidity,
+          totalValueLockedToken0: pool.totalValueLockedToken0,
+          totalValueLockedToken1: pool.totalValueLockedToken1,
+        },
+      },
+      { upsert: true },
+    );
+  }
+
   async getSwapEvents(
     poolAddress?: string,
     startTime?: Date,
     endTime?: Date,
     limit = 100,
+    chainId?: number,
   ): Promise<SwapEvent[]> {
     const query: any = {};
 
+    if (chainId) {
+      query.chainId = chainId;
+    }
+
     if (poolAddress) {
       query.poolAddress = poolAddress;
     }
@@ -667,21 +1326,184 @@ export class SwapEventsService implements OnModuleInit {
       .exec();
   }
 
-  async getSyncState(): Promise<SyncState | null> {
-    const poolManagerAddress = this.configService.uniswapV4PoolManagerAddress;
-    return this.syncStateModel.findOne({ poolManagerAddress });
+  async getLiquidityEvents(
+    poolAddress?: string,
+    owner?: string,
+    startTime?: Date,
+    endTime?: Date,
+    limit = 100,
+    chainId?: number,
+  ): Promise<LiquidityEvent[]> {
+    const query: any = {};
+
+    if (chainId) {
+      query.chainId = chainId;
+    }
+
+    if (poolAddress) {
+      query.poolAddress = poolAddress.toLowerCase();
+    }
+
+    if (owner) {
+      query.sender = owner.toLowerCase();
+    }
+
+    if (startTime || endTime) {
+      query.blockTimestamp = {};
+      if (startTime) query.blockTimestamp.$gte = startTime;
+      if (endTime) query.blockTimestamp.$lte = endTime;
+    }
+
+    return this.liquidityEventModel
+      .find(query)
+      .sort({ blockTimestamp: -1 })
+      .limit(limit)
+      .exec();
+  }
+
+  /**
+   * Active liquidity around the current tick and the token depth at each price impact
+   * (in percent), for liquidity distribution and depth charts
+   */
+  async getLiquidityDistribution(
+    poolId: string,
+    numSurroundingTicks = 100,
+    depthPercents: number[] = [1, 2, 5, 10],
+    chainId = this.configService.defaultChainId,
+  ): Promise<LiquidityDistribution | null> {
+    const ctx = this.chains.get(chainId);
+    const pool = ctx && (await this.poolModel.findOne({ chainId, poolId: poolId.toLowerCase() }));
+    if (!pool) {
+      return null;
+    }
+
+    const ticks = (
+      await this.tickModel.find({ chainId, poolId: pool.poolId }).sort({ tickIdx: 1 }).exec()
+    ).map((tick) => ({ tickIdx: tick.tickIdx, liquidityNet: BigInt(tick.liquidityNet) }));
+
+    const [token0Decimals, token1Decimals] = await Promise.all([
+      this.fetchTokenDecimals(ctx, pool.currency0),
+      this.fetchTokenDecimals(ctx, pool.currency1),
+    ]);
+
+    // Prices at a tick, adjusted for decimals: price0 is token0's price in token1 (token1Price)
+    const pricesAtTick = (tickIdx: number) =>
+      sqrtPriceX96ToTokenPrices(TickMath.getSqrtRatioAtTick(tickIdx), token0Decimals, token1Decimals);
+
+    const curve = computeActiveLiquidityCurve(
+      ticks,
+      pool.tick,
+      pool.tickSpacing,
+      Math.min(numSurroundingTicks, MAX_SURROUNDING_TICKS),
+    );
+    const activeTickIdx = Math.floor(pool.tick / pool.tickSpacing) * pool.tickSpacing;
+    const sqrtPriceX96 = BigInt(pool.sqrtPriceX96);
+
+    return {
+      chainId,
+      poolId: pool.poolId,
+      token0: { address: pool.currency0, decimals: token0Decimals },
+      token1: { address: pool.currency1, decimals: token1Decimals },
+      tick: pool.tick,
+      tickSpacing: pool.tickSpacing,
+      sqrtPriceX96: pool.sqrtPriceX96,
+      liquidity: (curve.find((point) => point.tickIdx === activeTickIdx)?.liquidityActive ?? 0n).toString(),
+      ticks: curve.map((point) => {
+        const prices = pricesAtTick(point.tickIdx);
+        return {
+          tickIdx: point.tickIdx,
+          liquidityActive: point.liquidityActive.toString(),
+          liquidityNet: point.liquidityNet.toString(),
+          price0: prices.token1Price,
+          price1: prices.token0Price,
+        };
+      }),
+      depth: depthPercents.map((percent) => {
+        const depth = computeLiquidityDepth(ticks, pool.tick, sqrtPriceX96, percent / 100);
+        return {
+          percent,
+          amount0Out: depth.amount0Out.toString(),
+          amount1In: depth.amount1In.toString(),
+          amount1Out: depth.amount1Out.toString(),
+          amount0In: depth.amount0In.toString(),
+        };
+      }),
+    };
+  }
+
+  getPendingSwaps(poolAddress?: string, chainId?: number): PendingSwap[] {
+    const pendingSwaps = [...this.chains.values()]
+      .filter((ctx) => !chainId || ctx.chain.chainId === chainId)
+      .flatMap((ctx) => [...ctx.pendingSwaps.values()])
+      .filter((swap) => !poolAddress || swap.poolAddress === poolAddress.toLowerCase());
+
+    return pendingSwaps.sort(
+      (a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex,
+    );
+  }
+
+  async getSyncState(chainId = this.configService.defaultChainId): Promise<SyncState | null> {
+    const chain = this.configService.getChain(chainId);
+    if (!chain) {
+      return null;
+    }
+
+    return this.syncStateModel.findOne({ chainId, poolManagerAddress: chain.poolManagerAddress });
+  }
+
+  /**
+   * Recompute the tokens' whitelist pools and prices when the chain's configured
+   * whitelist differs from the one last applied, or always when `force` is set
+   */
+  async reconcileWhitelist(
+    chainId = this.configService.defaultChainId,
+    force = false,
+  ): Promise<WhitelistReconciliation | null> {
+    const ctx = this.chains.get(chainId);
+    if (!ctx) {
+      return null;
+    }
+
+    const { poolManagerAddress } = ctx.chain;
+    const whitelistTokens = [...ctx.chain.whitelistTokens].sort();
+    const syncState = await this.syncStateModel.findOne({ chainId, poolManagerAddress });
+    const appliedTokens = [...(syncState?.whitelistTokens || [])].sort();
+
+    if (!force && whitelistTokens.join() === appliedTokens.join()) {
+      return { chainId, whitelistTokens, reconciled: false, updatedTokens: 0, repricedTokens: 0 };
+    }
+
+    this.logger.log(`Reconciling whitelist pools of chain ${chainId} for ${whitelistTokens.length} whitelisted tokens`);
+    const { updatedTokens, repricedTokens } = await this.aggregationService.reconcileWhitelistPools(chainId);
+
+    await this.syncStateModel.updateOne(
+      { chainId, poolManagerAddress },
+      { $set: { whitelistTokens } },
+    );
+
+    return { chainId, whitelistTokens, reconciled: true, updatedTokens, repricedTokens };
   }
 
-  async getPoolByPoolId(poolId: string): Promise<Pool | null> {
-    return this.poolModel.findOne({ poolId });
+  async getPoolByPoolId(
+    poolId: string,
+    chainId = this.configService.defaultChainId,
+  ): Promise<PoolWithHook | null> {
+    const pool = await this.poolModel.findOne({ chainId, poolId });
+    return pool ? this.withHookInfo(pool) : null;
   }
 
   async getPoolsByCurrency(
     currency0?: string,
     currency1?: string,
     limit = 100,
-  ): Promise<Pool[]> {
-    const query: any = {};
+    chainId?: number,
+    hookFilter: PoolHookFilter = {},
+  ): Promise<PoolWithHook[]> {
+    const query: any = this.buildHookQuery(hookFilter, chainId);
+
+    if (chainId) {
+      query.chainId = chainId;
+    }
 
     if (currency0) {
       query.currency0 = currency0;
@@ -691,19 +1513,114 @@ export class SwapEventsService implements OnModuleInit {
       query.currency1 = currency1;
     }
 
-    return this.poolModel
+    const pools = await this.poolModel
       .find(query)
       .sort({ blockTimestamp: -1 })
       .limit(limit)
       .exec();
+    return pools.map((pool) => this.withHookInfo(pool));
   }
 
-  async getAllPools(limit = 100): Promise<Pool[]> {
-    return this.poolModel
-      .find()
+  async getAllPools(limit = 100, chainId?: number, hookFilter: PoolHookFilter = {}): Promise<PoolWithHook[]> {
+    const query: any = this.buildHookQuery(hookFilter, chainId);
+
+    if (chainId) {
+      query.chainId = chainId;
+    }
+
+    const pools = await this.poolModel
+      .find(query)
       .sort({ blockTimestamp: -1 })
       .limit(limit)
       .exec();
+    return pools.map((pool) => this.withHookInfo(pool));
+  }
+
+  /**
+   * Pool query conditions for a hook filter. A label matches every hooks contract
+   * registered under it, so an unknown label matches no pool.
+   */
+  private buildHookQuery(filter: PoolHookFilter, chainId?: number): any {
+    const conditions: any[] = [];
+
+    if (filter.hooks) {
+      conditions.push({ hooks: { $in: this.hookRegistryService.resolveHooks(filter.hooks, chainId) } });
+    }
+
+    if (filter.hasHooks !== undefined) {
+      conditions.push({ hooks: filter.hasHooks ? { $ne: ADDRESS_ZERO } : ADDRESS_ZERO });
+    }
+
+    if (filter.permissions?.length) {
+      conditions.push({ hookPermissions: { $all: filter.permissions } });
+    }
+
+    if (filter.dynamicFee !== undefined) {
+      conditions.push({ fee: filter.dynamicFee ? DYNAMIC_FEE_FLAG : { $ne: DYNAMIC_FEE_FLAG } });
+    }
+
+    return conditions.length > 0 ? { $and: conditions } : {};
+  }
+
+  // Labels are configuration, so they are attached when the pool is read
+  private withHookInfo(pool: PoolDocument): PoolWithHook {
+    return { ...pool.toObject(), hook: this.hookRegistryService.getHookInfo(pool.chainId, pool.hooks, pool.fee) };
+  }
+
+  /**
+   * Assign pools, swaps and sync state indexed before multi-chain support to the
+   * default chain, then replace their single-chain unique indexes (on `poolId`,
+   * `poolManagerAddress`, ...) with the chain-scoped ones. Safe to rerun.
+   */
+  async migrateChainIds() {
+    const models: Model<any>[] = [
+      this.poolModel,
+      this.swapEventModel,
+      this.syncStateModel,
+      this.poolCheckpointModel,
+    ];
+
+    const chainId = this.configService.defaultChainId;
+    for (const model of models) {
+      const result = await model.updateMany({ chainId: { $exists: false } }, { $set: { chainId } });
+      if (result.modifiedCount > 0) {
+        this.logger.log(`Assigned ${result.modifiedCount} ${model.modelName} records to chain ${chainId}`);
+      }
+      await model.syncIndexes();
+    }
+  }
+
+  /**
+   * Store the decoded hook permissions of pools indexed before they were tracked
+   */
+  async migrateHookPermissions() {
+    const hooksAddresses: string[] = await this.poolModel.distinct('hooks', { hookPermissions: { $exists: false } });
+
+    let migrated = 0;
+    for (const hooks of hooksAddresses) {
+      const result = await this.poolModel.updateMany(
+        { hooks, hookPermissions: { $exists: false } },
+        { $set: { hookPermissions: decodeHookPermissions(hooks) } },
+      );
+      migrated += result.modifiedCount;
+    }
+
+    if (migrated > 0) {
+      this.logger.log(`Stored hook permissions of ${migrated} pools`);
+    }
+  }
+
+  /**
+   * Timestamp of the block an event was emitted in. A node lagging behind the one that
+   * served the log, or a fixture without the block, has no block to return; the event
+   * fails instead of being stored without a time.
+   */
+  private async getBlockTimestamp(ctx: ChainContext, blockNumber: number): Promise<Date> {
+    const block = await ctx.eventSource.getBlock(blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found on chain ${ctx.chain.chainId}`);
+    }
+    return new Date(block.timestamp * 1000);
   }
 
   /**
@@ -712,24 +1629,27 @@ export class SwapEventsService implements OnModuleInit {
    * 2. Check database (Token collection)
    * 3. Fetch from contract as last resort
    */
-  private async fetchTokenDecimals(tokenAddress: string): Promise<number> {
+  private async fetchTokenDecimals(ctx: ChainContext, tokenAddress: string): Promise<number> {
+    const { chainId } = ctx.chain;
+    const cacheKey = `${chainId}:${tokenAddress.toLowerCase()}`;
+
     // Level 1: Check in-memory cache first
-    if (this.tokenDecimalsCache.has(tokenAddress)) {
-      return this.tokenDecimalsCache.get(tokenAddress)!;
+    if (this.tokenDecimalsCache.has(cacheKey)) {
+      return this.tokenDecimalsCache.get(cacheKey)!;
     }
 
     // Handle native token (ADDRESS_ZERO)
     if (tokenAddress === '0x0000000000000000000000000000000000000000') {
-      this.tokenDecimalsCache.set(tokenAddress, 18);
+      this.tokenDecimalsCache.set(cacheKey, 18);
       return 18;
     }
 
     // Level 2: Check database (Token collection created by aggregation service)
     try {
-      const token = await this.tokenModel.findOne({ address: tokenAddress });
+      const token = await this.tokenModel.findOne({ chainId, address: tokenAddress.toLowerCase() });
       if (token && token.decimals !== undefined) {
         // Cache the result from database
-        this.tokenDecimalsCache.set(tokenAddress, token.decimals);
+        this.tokenDecimalsCache.set(cacheKey, token.decimals);
         this.logger.debug(`Fetched decimals for ${tokenAddress} from database: ${token.decimals}`);
         return token.decimals;
       }
@@ -739,20 +1659,19 @@ export class SwapEventsService implements OnModuleInit {
 
     // Level 3: Fetch from contract as last resort
     try {
-      console.log('fetching token decimals from contract for', tokenAddress);
-      const contract = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
+      const contract = new ethers.Contract(tokenAddress, ERC20_ABI, ctx.eventSource.runner);
       const decimals = await contract.decimals();
       const decimalsNum = Number(decimals);
 
       // Cache the result
-      this.tokenDecimalsCache.set(tokenAddress, decimalsNum);
+      this.tokenDecimalsCache.set(cacheKey, decimalsNum);
       this.logger.debug(`Fetched decimals for ${tokenAddress} from contract: ${decimalsNum}`);
 
       return decimalsNum;
     } catch (error) {
       this.logger.warn(`Failed to fetch decimals for ${tokenAddress}, using default 18`);
       // Default to 18 decimals if fetch fails
-      this.tokenDecimalsCache.set(tokenAddress, 18);
+      this.tokenDecimalsCache.set(cacheKey, 18);
       return 18;
     }
   }
@@ -760,28 +1679,29 @@ export class SwapEventsService implements OnModuleInit {
   /**
    * Update token whitelists when a pool with whitelisted tokens is created/updated
    */
-  private async updateTokenWhitelists(poolId: string, currency0: string, currency1: string) {
-    const whitelistTokens = this.configService.whitelistTokens;
+  private async updateTokenWhitelists(ctx: ChainContext, poolId: string, currency0: string, currency1: string) {
+    const { whitelistTokens } = ctx.chain;
     // Check if currency0 is whitelisted
     if (whitelistTokens.includes(currency0.toLowerCase())) {
       // Add pool to currency1's whitelist
-      await this.updateTokenWhitelist(currency1, poolId);
+      await this.updateTokenWhitelist(ctx, currency1, poolId);
     }
 
     // Check if currency1 is whitelisted
     if (whitelistTokens.includes(currency1.toLowerCase())) {
       // Add pool to currency0's whitelist
-      await this.updateTokenWhitelist(currency0, poolId);
+      await this.updateTokenWhitelist(ctx, currency0, poolId);
     }
   }
 
   /**
    * Add a pool to a token's whitelist if not already present
    */
-  private async updateTokenWhitelist(tokenAddress: string, poolId: string) {
+  private async updateTokenWhitelist(ctx: ChainContext, tokenAddress: string, poolId: string) {
     try {
       // Call aggregation service directly to update whitelist
       await this.aggregationService.processTokenWhitelistUpdate({
+        chainId: ctx.chain.chainId,
         tokenAddress,
         poolId,
       });
@@ -0,0 +1,65 @@
+/**
+ * Payloads of the TradingView UDF (Universal Data Feed) protocol.
+ * Field names follow the protocol, hence the snake_case.
+ */
+export interface UdfConfig {
+  supported_resolutions: string[];
+  supports_group_request: boolean;
+  supports_marks: boolean;
+  supports_search: boolean;
+  supports_timescale_marks: boolean;
+  supports_time: boolean;
+  exchanges: Array<{ value: string; name: string; desc: string }>;
+  symbols_types: Array<{ name: string; value: string }>;
+}
+
+export interface UdfSymbolInfo {
+  name: string;
+  ticker: string;
+  description: string;
+  type: string;
+  session: string;
+  timezone: string;
+  exchange: string;
+  listed_exchange: string;
+  minmov: number;
+  pricescale: number;
+  has_intraday: boolean;
+  has_daily: boolean;
+  has_weekly_and_monthly: boolean;
+  supported_resolutions: string[];
+  intraday_multipliers: string[];
+  volume_precision: number;
+  data_status: string;
+}
+
+export interface UdfSearchResult {
+  symbol: string;
+  full_name: string;
+  description: string;
+  exchange: string;
+  ticker: string;
+  type: string;
+}
+
+// Bars in ascending time order, `t` in unix seconds
+export interface UdfBars {
+  s: 'ok';
+  t: number[];
+  o: number[];
+  h: number[];
+  l: number[];
+  c: number[];
+  v: number[];
+}
+
+export interface UdfNoData {
+  s: 'no_data';
+  // Time of the newest bar before the requested range, if any
+  nextTime?: number;
+}
+
+export interface UdfError {
+  s: 'error';
+  errmsg: string;
+}
@@ -0,0 +1,59 @@
+import { Controller, Get, Header, Query } from '@nestjs/common';
+import { UdfService } from './udf.service';
+import {
+  UdfBars,
+  UdfConfig,
+  UdfError,
+  UdfNoData,
+  UdfSearchResult,
+  UdfSymbolInfo,
+} from './interfaces/udf.interface';
+
+@Controller('udf')
+export class UdfController {
+  constructor(private readonly udfService: UdfService) {}
+
+  @Get('config')
+  getConfig(): UdfConfig {
+    return this.udfService.getConfig();
+  }
+
+  // UDF expects the bare number, not JSON
+  @Get('time')
+  @Header('Content-Type', 'text/plain')
+  getTime(): string {
+    return this.udfService.getTime().toString();
+  }
+
+  @Get('symbols')
+  async getSymbol(@Query('symbol') symbol: string): Promise<UdfSymbolInfo | UdfError> {
+    return this.udfService.resolveSymbol(symbol);
+  }
+
+  @Get('search')
+  async search(
+    @Query('query') query = '',
+    @Query('type') type?: string,
+    @Query('exchange') exchange?: string,
+    @Query('limit') limit?: string,
+  ): Promise<UdfSearchResult[]> {
+    const limitNum = limit ? parseInt(limit, 10) : 30;
+
+    return this.udfService.search(query, type, exchange, limitNum);
+  }
+
+  @Get('history')
+  async getHistory(
+    @Query('symbol') symbol: string,
+    @Query('resolution') resolution: string,
+    @Query('from') from: string,
+    @Query('to') to: string,
+    @Query('countback') countback?: string,
+  ): Promise<UdfBars | UdfNoData | UdfError> {
+    const fromNum = parseInt(from, 10) || 0;
+    const toNum = to ? parseInt(to, 10) : this.udfService.getTime();
+    const countbackNum = countback ? parseInt(countback, 10) : undefined;
+
+    return this.udfService.getHistory(symbol, resolution, fromNum, toNum, countbackNum);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { UdfService } from './udf.service';
+import { UdfController } from './udf.controller';
+import { Token, TokenSchema } from '../aggregation/schemas/token.schema';
+import { Pool, PoolSchema } from '../swap-events/schemas/pool.schema';
+import { ConfigModule } from '../config/config.module';
+import { AggregationModule } from '../aggregation/aggregation.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Token.name, schema: TokenSchema },
+      { name: Pool.name, schema: PoolSchema },
+    ]),
+    ConfigModule,
+    AggregationModule,
+  ],
+  controllers: [UdfController],
+  providers: [UdfService],
+})
+export class UdfModule {}
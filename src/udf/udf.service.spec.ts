@@ -0,0 +1,279 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { UdfService } from './udf.service';
+import { Token } from '../aggregation/schemas/token.schema';
+import { Pool } from '../swap-events/schemas/pool.schema';
+import { AggregationService, TimeInterval } from '../aggregation/aggregation.service';
+import { ConfigService } from '../config/config.service';
+
+describe('UdfService', () => {
+  let service: UdfService;
+  let mockTokenModel: any;
+  let mockPoolModel: any;
+  let mockAggregationService: any;
+  let mockConfigService: any;
+
+  const weth = {
+    chainId: 1,
+    address: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+    symbol: 'WETH',
+    name: 'Wrapped Ether',
+    txCount: 10,
+  };
+  const usdc = {
+    chainId: 1,
+    address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+    symbol: 'USDC',
+    name: 'USD Coin',
+    txCount: 20,
+  };
+  const pool = {
+    chainId: 1,
+    poolId: '0x' + 'ab'.repeat(32),
+    currency0: usdc.address,
+    currency1: weth.address,
+    fee: 3000,
+    // token0Price is token0 (USDC) per token1 (WETH)
+    token0Price: '2500',
+    token1Price: '0.0004',
+  };
+
+  // Chainable query resolving to `result`
+  const query = (result: any) => ({
+    sort: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  beforeEach(async () => {
+    mockTokenModel = {
+      find: jest.fn(),
+      findOne: jest.fn(),
+    };
+
+    mockPoolModel = {
+      find: jest.fn(),
+      findOne: jest.fn(),
+    };
+
+    mockAggregationService = {
+      getTokenData: jest.fn().mockResolvedValue([]),
+      getPoolData: jest.fn().mockResolvedValue([]),
+    };
+
+    mockConfigService = {
+      chains: [
+        { chainId: 1, name: 'ethereum' },
+        { chainId: 8453, name: 'base' },
+      ],
+      defaultChainId: 1,
+      getChain: jest.fn((chainId: number) =>
+        mockConfigService.chains.find((chain: any) => chain.chainId === chainId)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UdfService,
+        { provide: getModelToken(Token.name), useValue: mockTokenModel },
+        { provide: getModelToken(Pool.name), useValue: mockPoolModel },
+        { provide: AggregationService, useValue: mockAggregationService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<UdfService>(UdfService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getConfig', () => {
+    it('should list every chain as an exchange', () => {
+      const config = service.getConfig();
+
+      expect(config.supported_resolutions).toEqual(['1', '5', '15', '30', '60', '240', '1D', '1W', '1M']);
+      expect(config.exchanges.map((exchange) => exchange.value)).toEqual(['', 'ethereum', 'base']);
+    });
+  });
+
+  describe('resolveSymbol', () => {
+    it('should resolve a token symbol on the default chain', async () => {
+      mockTokenModel.find.mockReturnValue(query([weth]));
+      mockAggregationService.getTokenData.mockResolvedValue([
+        { date: new Date(), open: '2500', high: '2500', low: '2500', close: '2512.5', volumeUSD: '0' },
+      ]);
+
+      const info = await service.resolveSymbol('weth');
+
+      expect(info).toMatchObject({
+        name: 'WETH',
+        ticker: `1:${weth.address}`,
+        description: 'Wrapped Ether / USD',
+        type: 'token',
+        exchange: 'ethereum',
+        timezone: 'Etc/UTC',
+        pricescale: 100,
+        has_weekly_and_monthly: true,
+      });
+      expect(mockTokenModel.find).toHaveBeenCalledWith({ chainId: 1, symbol: /^weth$/i });
+    });
+
+    it('should resolve a pool pair given in reverse order as inverted', async () => {
+      mockTokenModel.find
+        .mockReturnValueOnce(query([weth]))
+        .mockReturnValueOnce(query([usdc]))
+        .mockReturnValueOnce(query([weth, usdc]));
+      mockPoolModel.find.mockReturnValue(query([pool]));
+      mockPoolModel.findOne.mockReturnValue(query(pool));
+
+      const info = await service.resolveSymbol('ethereum:WETH/USDC');
+
+      expect(info).toMatchObject({
+        name: 'WETH/USDC',
+        ticker: `1:${pool.poolId}:inverted`,
+        description: 'WETH/USDC 0.3%',
+        type: 'pool',
+        pricescale: 100,
+        has_weekly_and_monthly: false,
+        intraday_multipliers: ['1', '60'],
+      });
+      // Pool tokens are looked up on the pool's chain only
+      expect(mockTokenModel.find).toHaveBeenLastCalledWith({
+        chainId: { $in: [1] },
+        address: { $in: [usdc.address, weth.address] },
+      });
+    });
+
+    it('should return an error for an unknown symbol', async () => {
+      mockTokenModel.find.mockReturnValue(query([]));
+
+      expect(await service.resolveSymbol('NOPE')).toEqual({ s: 'error', errmsg: 'unknown_symbol' });
+      expect(await service.resolveSymbol('polygon:WETH')).toEqual({ s: 'error', errmsg: 'unknown_symbol' });
+    });
+  });
+
+  describe('getHistory', () => {
+    // USDC per WETH in token0 fields, WETH per USDC in token1 fields
+    const poolCandle = {
+      date: new Date(1700000000000),
+      token0Open: '2500', token0High: '2600', token0Low: '2400', token0Close: '2550',
+      token1Open: '0.0004', token1High: '0.00042', token1Low: '0.00038', token1Close: '0.0004',
+      volumeUSD: '1000',
+    };
+
+    beforeEach(() => {
+      mockTokenModel.findOne.mockReturnValue(query(weth));
+    });
+
+    it('should return token bars oldest first for the mapped resolution', async () => {
+      mockAggregationService.getTokenData.mockResolvedValue([
+        { date: new Date(1700000300000), open: '2', high: '4', low: '1', close: '3', volumeUSD: '50' },
+        { date: new Date(1700000000000), open: '1', high: '2', low: '1', close: '2', volumeUSD: '10' },
+      ]);
+
+      const history = await service.getHistory(`1:${weth.address}`, '5', 1700000000, 1700000600);
+
+      expect(history).toEqual({
+        s: 'ok',
+        t: [1700000000, 1700000300],
+        o: [1, 2],
+        h: [2, 4],
+        l: [1, 1],
+        c: [2, 3],
+        v: [10, 50],
+      });
+      expect(mockAggregationService.getTokenData).toHaveBeenCalledWith(
+        weth.address,
+        '5m',
+        new Date(1700000000000),
+        new Date(1700000599999),
+        5000,
+        1,
+      );
+    });
+
+    it('should point to the previous bar when the range is empty', async () => {
+      mockAggregationService.getTokenData
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ date: new Date(1690000000000), open: '1', high: '1', low: '1', close: '1', volumeUSD: '0' }]);
+
+      const history = await service.getHistory(`1:${weth.address}`, '60', 1700000000, 1700003600, 300);
+
+      expect(history).toEqual({ s: 'no_data', nextTime: 1690000000 });
+      expect(mockAggregationService.getTokenData.mock.calls[0][2]).toBeUndefined();
+      expect(mockAggregationService.getTokenData.mock.calls[0][4]).toBe(300);
+    });
+
+    it('should read pool candles of token0 priced in token1', async () => {
+      mockPoolModel.findOne.mockReturnValue(query(pool));
+      mockTokenModel.find.mockReturnValue(query([weth, usdc]));
+      mockAggregationService.getPoolData.mockResolvedValue([poolCandle]);
+
+      const history = await service.getHistory(`1:${pool.poolId}`, '60', 1700000000, 1700003600);
+
+      expect(history).toMatchObject({ s: 'ok', o: [0.0004], h: [0.00042], l: [0.00038], c: [0.0004], v: [1000] });
+      expect(mockAggregationService.getPoolData.mock.calls[0][1]).toBe(TimeInterval.HOUR);
+    });
+
+    it('should read pool candles in the inverted quote', async () => {
+      mockPoolModel.findOne.mockReturnValue(query(pool));
+      mockTokenModel.find.mockReturnValue(query([weth, usdc]));
+      mockAggregationService.getPoolData.mockResolvedValue([poolCandle]);
+
+      const history = await service.getHistory(`1:${pool.poolId}:inverted`, '60', 1700000000, 1700003600);
+
+      expect(history).toMatchObject({ s: 'ok', o: [2500], h: [2600], l: [2400], c: [2550], v: [1000] });
+      expect(mockAggregationService.getPoolData.mock.calls[0][1]).toBe(TimeInterval.HOUR);
+    });
+
+    it('should reject resolutions a pool does not store', async () => {
+      mockPoolModel.findOne.mockReturnValue(query(pool));
+      mockTokenModel.find.mockReturnValue(query([weth, usdc]));
+
+      const history = await service.getHistory(`1:${pool.poolId}`, '5', 1700000000, 1700003600);
+
+      expect(history).toEqual({ s: 'error', errmsg: 'Unsupported resolution: 5' });
+      expect(mockAggregationService.getPoolData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('search', () => {
+    it('should return matching tokens then their pools', async () => {
+      mockTokenModel.find
+        .mockReturnValueOnce(query([weth]))
+        .mockReturnValueOnce(query([weth, usdc]));
+      mockPoolModel.find.mockReturnValue(query([pool]));
+
+      const results = await service.search('wet');
+
+      expect(results).toEqual([
+        {
+          symbol: 'WETH',
+          full_name: 'ethereum:WETH',
+          description: 'Wrapped Ether / USD',
+          exchange: 'ethereum',
+          ticker: `1:${weth.address}`,
+          type: 'token',
+        },
+        {
+          symbol: 'USDC/WETH',
+          full_name: 'ethereum:USDC/WETH',
+          description: 'USDC/WETH 0.3%',
+          exchange: 'ethereum',
+          ticker: `1:${pool.poolId}`,
+          type: 'pool',
+        },
+      ]);
+      expect(mockTokenModel.find).toHaveBeenLastCalledWith({
+        chainId: { $in: [1, 8453] },
+        address: { $in: [usdc.address, weth.address] },
+      });
+    });
+
+    it('should return nothing for an unknown exchange', async () => {
+      expect(await service.search('weth', undefined, 'polygon')).toEqual([]);
+      expect(mockTokenModel.find).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,489 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Token, TokenDocument } from '../aggregation/schemas/token.schema';
+import { Pool, PoolDocument } from '../swap-events/schemas/pool.schema';
+import { AggregationService, TimeInterval } from '../aggregation/aggregation.service';
+import { ConfigService } from '../config/config.service';
+import { ChainConfig } from '../config/chain-config.interface';
+import {
+  UdfBars,
+  UdfConfig,
+  UdfError,
+  UdfNoData,
+  UdfSearchResult,
+  UdfSymbolInfo,
+} from './interfaces/udf.interface';
+
+// UDF resolutions mapped to the candle resolutions of /token-data
+export const UDF_TOKEN_RESOLUTIONS: Record<string, string> = {
+  '1': TimeInterval.MINUTE,
+  '5': '5m',
+  '15': '15m',
+  '30': '30m',
+  '60': TimeInterval.HOUR,
+  '240': '4h',
+  '1D': TimeInterval.DAY,
+  '1W': '1w',
+  '1M': '1M',
+};
+
+// Pool candles are only stored per minute, hour and day; the chart builds the rest
+export const UDF_POOL_RESOLUTIONS: Record<string, TimeInterval> = {
+  '1': TimeInterval.MINUTE,
+  '60': TimeInterval.HOUR,
+  '1D': TimeInterval.DAY,
+};
+
+// Bars returned by /udf/history when the client sends no countback
+export const UDF_MAX_BARS = 5000;
+
+export enum UdfSymbolType {
+  TOKEN = 'token',
+  POOL = 'pool',
+}
+
+// Ticker suffix of a pool quoted the other way round (token1 in token0)
+const INVERTED_SUFFIX = 'inverted';
+
+// A symbol resolved to the token or pool whose candles back it
+interface ResolvedSymbol {
+  type: UdfSymbolType;
+  chain: ChainConfig;
+  // Token address or pool ID
+  address: string;
+  // Pools only: prices of token1 in token0 instead of token0 in token1
+  inverted: boolean;
+  name: string;
+  description: string;
+}
+
+// Candle prices and volume as plotted, whatever collection they come from
+interface Bar {
+  date: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * TradingView UDF datafeed over the token and pool candles.
+ *
+ * Tickers are `<chainId>:<address>` for tokens and `<chainId>:<poolId>` for pools
+ * (token0 priced in token1, or the reverse with an `:inverted` suffix). Symbols can
+ * also be given as a token symbol (`WETH`), a token address or a pool pair
+ * (`WETH/USDC`), optionally prefixed with a chain name or ID (`base:WETH`).
+ * Token bars are priced in USD; volumes are in USD for both.
+ */
+@Injectable()
+export class UdfService {
+  constructor(
+    @InjectModel(Token.name) private tokenModel: Model<TokenDocument>,
+    @InjectModel(Pool.name) private poolModel: Model<PoolDocument>,
+    private aggregationService: AggregationService,
+    private configService: ConfigService,
+  ) {}
+
+  getConfig(): UdfConfig {
+    return {
+      supported_resolutions: Object.keys(UDF_TOKEN_RESOLUTIONS),
+      supports_group_request: false,
+      supports_marks: false,
+      supports_search: true,
+      supports_timescale_marks: false,
+      supports_time: true,
+      // Each chain is listed as an exchange
+      exchanges: [
+        { value: '', name: 'All Exchanges', desc: '' },
+        ...this.configService.chains.map((chain) => ({
+          value: chain.name,
+          name: chain.name,
+          desc: `Uniswap V4 on ${chain.name}`,
+        })),
+      ],
+      symbols_types: [
+        { name: 'All types', value: '' },
+        { name: 'Token', value: UdfSymbolType.TOKEN },
+        { name: 'Pool', value: UdfSymbolType.POOL },
+      ],
+    };
+  }
+
+  getTime(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  async resolveSymbol(symbol: string): Promise<UdfSymbolInfo | UdfError> {
+    const resolved = await this.findSymbol(symbol);
+    if (!resolved) {
+      return { s: 'error', errmsg: 'unknown_symbol' };
+    }
+
+    const isToken = resolved.type === UdfSymbolType.TOKEN;
+    return {
+      name: resolved.name,
+      ticker: this.getTicker(resolved),
+      description: resolved.description,
+      type: resolved.type,
+      session: '24x7',
+      timezone: 'Etc/UTC',
+      exchange: resolved.chain.name,
+      listed_exchange: resolved.chain.name,
+      minmov: 1,
+      pricescale: this.getPricescale(await this.getLastPrice(resolved)),
+      has_intraday: true,
+      has_daily: true,
+      has_weekly_and_monthly: isToken,
+      supported_resolutions: Object.keys(UDF_TOKEN_RESOLUTIONS),
+      // Resolutions served as stored or rolled up; the chart builds the others from these
+      intraday_multipliers: Object.keys(isToken ? UDF_TOKEN_RESOLUTIONS : UDF_POOL_RESOLUTIONS)
+        .filter((resolution) => /^\d+$/.test(resolution)),
+      volume_precision: 2,
+      data_status: 'streaming',
+    };
+  }
+
+  /**
+   * Tokens whose symbol, name or address matches `query`, then the pools holding them
+   */
+  async search(
+    query: string,
+    type?: string,
+    exchange?: string,
+    limit = 30,
+  ): Promise<UdfSearchResult[]> {
+    const chains = exchange
+      ? this.configService.chains.filter((chain) => chain.name.toLowerCase() === exchange.toLowerCase())
+      : this.configService.chains;
+    if (chains.length === 0) {
+      return [];
+    }
+
+    const pattern = new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    const tokens = await this.tokenModel
+      .find({
+        chainId: { $in: chains.map((chain) => chain.chainId) },
+        $or: [{ symbol: pattern }, { name: pattern }, { address: pattern }],
+      })
+      .sort({ txCount: -1 })
+      .limit(limit)
+      .exec();
+
+    const results: UdfSearchResult[] = [];
+    const chainById = new Map(chains.map((chain) => [chain.chainId, chain]));
+
+    if (type !== UdfSymbolType.POOL) {
+      for (const token of tokens) {
+        results.push(this.toSearchResult(this.describeToken(chainById.get(token.chainId), token)));
+      }
+    }
+
+    if (type !== UdfSymbolType.TOKEN && tokens.length > 0) {
+      const matched = new Set(tokens.map((token) => `${token.chainId}:${token.address}`));
+      const addresses = tokens.map((token) => token.address);
+      const pools = (await this.poolModel
+        .find({
+          chainId: { $in: chains.map((chain) => chain.chainId) },
+          $or: [{ currency0: { $in: addresses } }, { currency1: { $in: addresses } }],
+        })
+        .sort({ blockNumber: 1 })
+        .limit(limit)
+        .exec())
+        // The same address can be a different token on another chain
+        .filter((pool) => matched.has(`${pool.chainId}:${pool.currency0}`) ||
+          matched.has(`${pool.chainId}:${pool.currency1}`));
+
+      const poolTokens = await this.findTokens(
+        chains.map((chain) => chain.chainId),
+        pools.flatMap((pool) => [pool.currency0, pool.currency1]),
+      );
+      for (const pool of pools) {
+        results.push(this.toSearchResult(this.describePool(chainById.get(pool.chainId), pool, poolTokens, false)));
+      }
+    }
+
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Bars in [from, to) (unix seconds), or the `countback` bars before `to` when given
+   */
+  async getHistory(
+    symbol: string,
+    resolution: string,
+    from: number,
+    to: number,
+    countback?: number,
+  ): Promise<UdfBars | UdfNoData | UdfError> {
+    const resolved = await this.findSymbol(symbol);
+    if (!resolved) {
+      return { s: 'error', errmsg: 'unknown_symbol' };
+    }
+
+    const resolutions: Record<string, string> = resolved.type === UdfSymbolType.TOKEN
+      ? UDF_TOKEN_RESOLUTIONS
+      : UDF_POOL_RESOLUTIONS;
+    if (!Object.keys(resolutions).includes(resolution)) {
+      return { s: 'error', errmsg: `Unsupported resolution: ${resolution}` };
+    }
+    const interval = resolutions[resolution];
+
+    // `to` is exclusive
+    const endTime = new Date(to * 1000 - 1);
+    const startTime = countback ? undefined : new Date(from * 1000);
+    let bars = await this.getBars(resolved, interval, startTime, endTime, countback || UDF_MAX_BARS);
+    if (startTime) {
+      // Rolled-up candles may start before `from`
+      bars = bars.filter((bar) => bar.date >= startTime);
+    }
+
+    if (bars.length === 0) {
+      // Let the chart jump back to the newest earlier bar
+      const before = new Date((countback ? to : from) * 1000 - 1);
+      const [previous] = await this.getBars(resolved, interval, undefined, before, 1);
+      return previous
+        ? { s: 'no_data', nextTime: Math.floor(previous.date.getTime() / 1000) }
+        : { s: 'no_data' };
+    }
+
+    bars.reverse();
+    return {
+      s: 'ok',
+      t: bars.map((bar) => Math.floor(bar.date.getTime() / 1000)),
+      o: bars.map((bar) => bar.open),
+      h: bars.map((bar) => bar.high),
+      l: bars.map((bar) => bar.low),
+      c: bars.map((bar) => bar.close),
+      v: bars.map((bar) => bar.volume),
+    };
+  }
+
+  /**
+   * Bars newest first, from token candles in USD or pool candles in the pool's quote
+   */
+  private async getBars(
+    resolved: ResolvedSymbol,
+    interval: string,
+    startTime: Date | undefined,
+    endTime: Date,
+    limit: number,
+  ): Promise<Bar[]> {
+    if (resolved.type === UdfSymbolType.TOKEN) {
+      const candles: any[] = await this.aggregationService.getTokenData(
+        resolved.address,
+        interval,
+        startTime,
+        endTime,
+        limit,
+        resolved.chain.chainId,
+      );
+      return candles.map((candle) => ({
+        date: new Date(candle.date),
+        open: parseFloat(candle.open),
+        high: parseFloat(candle.high),
+        low: parseFloat(candle.low),
+        close: parseFloat(candle.close),
+        volume: parseFloat(candle.volumeUSD),
+      }));
+    }
+
+    const candles: any[] = await this.aggregationService.getPoolData(
+      resolved.address,
+      interval as TimeInterval,
+      startTime,
+      endTime,
+      limit,
+      resolved.chain.chainId,
+    );
+    // token1Price is token1 per token0, i.e. the price of token0 in token1
+    const side = resolved.inverted ? 'token0' : 'token1';
+    return candles.map((candle) => ({
+      date: new Date(candle.date),
+      open: parseFloat(candle[`${side}Open`]),
+      high: parseFloat(candle[`${side}High`]),
+      low: parseFloat(candle[`${side}Low`]),
+      close: parseFloat(candle[`${side}Close`]),
+      volume: parseFloat(candle.volumeUSD),
+    }));
+  }
+
+  /**
+   * Resolve a ticker, token symbol or address, or pool pair (see class comment)
+   */
+  private async findSymbol(symbol: string): Promise<ResolvedSymbol | undefined> {
+    const parts = (symbol || '').trim().split(':');
+    const inverted = parts.length > 1 && parts[parts.length - 1].toLowerCase() === INVERTED_SUFFIX;
+    if (inverted) {
+      parts.pop();
+    }
+    if (parts.length > 2) {
+      return undefined;
+    }
+
+    const chain = parts.length === 2
+      ? this.configService.chains.find((chain) =>
+          chain.chainId.toString() === parts[0] || chain.name.toLowerCase() === parts[0].toLowerCase())
+      : this.configService.getChain(this.configService.defaultChainId);
+    const name = parts[parts.length - 1];
+    if (!chain || !name) {
+      return undefined;
+    }
+
+    if (/^0x[0-9a-fA-F]{64}$/.test(name)) {
+      const pool = await this.poolModel
+        .findOne({ chainId: chain.chainId, poolId: name.toLowerCase() })
+        .exec();
+      if (!pool) {
+        return undefined;
+      }
+      const tokens = await this.findTokens([chain.chainId], [pool.currency0, pool.currency1]);
+      return this.describePool(chain, pool, tokens, inverted);
+    }
+
+    if (inverted) {
+      return undefined;
+    }
+
+    if (/^0x[0-9a-fA-F]{40}$/.test(name)) {
+      const token = await this.tokenModel
+        .findOne({ chainId: chain.chainId, address: name.toLowerCase() })
+        .exec();
+      return token ? this.describeToken(chain, token) : undefined;
+    }
+
+    if (name.includes('/')) {
+      return this.findPair(chain, name);
+    }
+
+    const [token] = await this.findTokensBySymbol(chain.chainId, name);
+    return token ? this.describeToken(chain, token) : undefined;
+  }
+
+  /**
+   * Pool of a `BASE/QUOTE` pair of token symbols, the oldest one when several match
+   */
+  private async findPair(chain: ChainConfig, pair: string): Promise<ResolvedSymbol | undefined> {
+    const [baseSymbol, quoteSymbol] = pair.split('/');
+    if (!baseSymbol || !quoteSymbol) {
+      return undefined;
+    }
+
+    const [bases, quotes] = await Promise.all([
+      this.findTokensBySymbol(chain.chainId, baseSymbol),
+      this.findTokensBySymbol(chain.chainId, quoteSymbol),
+    ]);
+    if (bases.length === 0 || quotes.length === 0) {
+      return undefined;
+    }
+
+    const baseAddresses = bases.map((token) => token.address);
+    const quoteAddresses = quotes.map((token) => token.address);
+    const [pool] = await this.poolModel
+      .find({
+        chainId: chain.chainId,
+        $or: [
+          { currency0: { $in: baseAddresses }, currency1: { $in: quoteAddresses } },
+          { currency0: { $in: quoteAddresses }, currency1: { $in: baseAddresses } },
+        ],
+      })
+      .sort({ blockNumber: 1 })
+      .limit(1)
+      .exec();
+    if (!pool) {
+      return undefined;
+    }
+
+    const tokens = await this.findTokens([chain.chainId], [pool.currency0, pool.currency1]);
+    return this.describePool(chain, pool, tokens, !baseAddresses.includes(pool.currency0));
+  }
+
+  private async findTokensBySymbol(chainId: number, symbol: string): Promise<TokenDocument[]> {
+    const escaped = symbol.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return this.tokenModel
+      .find({ chainId, symbol: new RegExp(`^${escaped}$`, 'i') })
+      .sort({ txCount: -1 })
+      .exec();
+  }
+
+  // Tokens of the given chains by address, keyed by `<chainId>:<address>`
+  private async findTokens(chainIds: number[], addresses: string[]): Promise<Map<string, Token>> {
+    const tokens = await this.tokenModel
+      .find({ chainId: { $in: chainIds }, address: { $in: [...new Set(addresses)] } })
+      .exec();
+    return new Map(tokens.map((token) => [`${token.chainId}:${token.address}`, token]));
+  }
+
+  private describeToken(chain: ChainConfig, token: Token): ResolvedSymbol {
+    const name = token.symbol || token.address;
+    return {
+      type: UdfSymbolType.TOKEN,
+      chain,
+      address: token.address,
+      inverted: false,
+      name,
+      description: `${token.name || name} / USD`,
+    };
+  }
+
+  private describePool(
+    chain: ChainConfig,
+    pool: Pool,
+    tokens: Map<string, Token>,
+    inverted: boolean,
+  ): ResolvedSymbol {
+    const label = (address: string) => tokens.get(`${pool.chainId}:${address}`)?.symbol || address;
+    const [base, quote] = inverted
+      ? [label(pool.currency1), label(pool.currency0)]
+      : [label(pool.currency0), label(pool.currency1)];
+    return {
+      type: UdfSymbolType.POOL,
+      chain,
+      address: pool.poolId,
+      inverted,
+      name: `${base}/${quote}`,
+      // Fee is in hundredths of a bip
+      description: `${base}/${quote} ${pool.fee / 10000}%`,
+    };
+  }
+
+  private getTicker(resolved: ResolvedSymbol): string {
+    const ticker = `${resolved.chain.chainId}:${resolved.address}`;
+    return resolved.inverted ? `${ticker}:${INVERTED_SUFFIX}` : ticker;
+  }
+
+  private toSearchResult(resolved: ResolvedSymbol): UdfSearchResult {
+    return {
+      symbol: resolved.name,
+      full_name: `${resolved.chain.name}:${resolved.name}`,
+      description: resolved.description,
+      exchange: resolved.chain.name,
+      ticker: this.getTicker(resolved),
+      type: resolved.type,
+    };
+  }
+
+  private async getLastPrice(resolved: ResolvedSymbol): Promise<number> {
+    if (resolved.type === UdfSymbolType.POOL) {
+      const pool = await this.poolModel
+        .findOne({ chainId: resolved.chain.chainId, poolId: resolved.address })
+        .exec();
+      return parseFloat(resolved.inverted ? pool?.token0Price : pool?.token1Price) || 0;
+    }
+
+    const [bar] = await this.getBars(resolved, TimeInterval.MINUTE, undefined, new Date(), 1);
+    return bar?.close || 0;
+  }
+
+  /**
+   * Price scale showing about five significant digits of `price`, with 2 to 18 decimals
+   */
+  private getPricescale(price: number): number {
+    if (!(price > 0)) {
+      return 10 ** 8;
+    }
+    const decimals = 4 - Math.floor(Math.log10(price));
+    return 10 ** Math.min(18, Math.max(2, decimals));
+  }
+}